@@ -1,6 +1,88 @@
-import { createClient } from '@supabase/supabase-js';
-
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { getMerchantAccessToken, squareBaseUrl } from '../../square/oauth';
+import { CustomerSyncState, CustomerSyncStore, ExistingClient, syncCustomers } from '../../square/customerSync';
+
+const PAGE_SIZE = 100; // Square's maximum for customer search
+
+const createStore = (supabaseAdmin: SupabaseClient, squareAccessToken: string): CustomerSyncStore => ({
+  async loadState(ownerId) {
+    const { data, error } = await supabaseAdmin
+      .from('merchant_settings')
+      .select('square_customer_sync_cursor, square_customer_sync_started_at, square_customers_synced_at')
+      .eq('supabase_user_id', ownerId)
+      .maybeSingle();
+    if (error) throw error;
+    return {
+      cursor: data?.square_customer_sync_cursor || null,
+      runStartedAt: data?.square_customer_sync_started_at || null,
+      syncedAt: data?.square_customers_synced_at || null,
+    };
+  },
+
+  async saveState(ownerId, state: CustomerSyncState) {
+    const { error } = await supabaseAdmin
+      .from('merchant_settings')
+      .update({
+        square_customer_sync_cursor: state.cursor,
+        square_customer_sync_started_at: state.runStartedAt,
+        square_customers_synced_at: state.syncedAt,
+      } as any)
+      .eq('supabase_user_id', ownerId);
+    if (error) throw error;
+  },
+
+  async findClients(ownerId, customerIds) {
+    const found = new Map<string, ExistingClient>();
+    if (customerIds.length === 0) return found;
+    const { data, error } = await supabaseAdmin
+      .from('clients')
+      .select('id, supabase_user_id, name, email, phone, avatar_url, external_id')
+      .eq('supabase_user_id', ownerId)
+      .in('external_id', customerIds);
+    if (error) throw error;
+    (data || []).forEach((row: any) => found.set(row.external_id, row));
+    return found;
+  },
+
+  async upsertClients(rows) {
+    const { error } = await supabaseAdmin
+      .from('clients')
+      .upsert(rows as any, { onConflict: 'supabase_user_id,external_id' });
+    if (error) throw error;
+  },
+
+  async fetchPage(cursor, since) {
+    const squareRes = await fetch(`${squareBaseUrl()}/v2/customers/search`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${squareAccessToken}`,
+        'Content-Type': 'application/json',
+        'Square-Version': '2023-10-20',
+      },
+      body: JSON.stringify({
+        limit: PAGE_SIZE,
+        cursor: cursor || undefined,
+        query: since ? { filter: { updated_at: { start_at: since } } } : undefined,
+      }),
+    });
+    const json = await squareRes.json();
+    if (!squareRes.ok) {
+      throw new Error(json?.errors?.[0]?.detail || `Square customer search failed: ${squareRes.status}`);
+    }
+    return { customers: json.customers || [], cursor: json.cursor || null };
+  },
+});
+
+/**
+ * Syncs the signed-in salon's Square customers into `clients`, only those updated since the
+ * last completed sync. Answers with created/updated/unchanged counts; `complete: false` means
+ * the page budget ran out and another call continues from the stored cursor.
+ */
 export default async function handler(req: any, res: any) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
   try {
     let squareAccessToken: string | undefined =
       (req.headers['x-square-access-token'] as string | undefined) ||
@@ -53,65 +135,23 @@ export default async function handler(req: any, res: any) {
       process.env.SUPABASE_SERVICE_ROLE_KEY
     );
 
-    if (!squareAccessToken) {
-      const { data: ms, error: msErr } = await supabaseAdmin
-        .from('merchant_settings')
-        .select('square_access_token')
-        .eq('supabase_user_id', supabaseUserId)
-        .maybeSingle();
-
-      if (msErr || !ms?.square_access_token) {
-        console.error('[CLIENT SYNC] merchant_settings lookup failed:', msErr);
-        return res.status(401).json({
-          message: 'Missing Square connection for user.',
-        });
-      }
+    // Stored token first: it is refreshed when close to expiry, unlike the browser's copy.
+    squareAccessToken =
+      (await getMerchantAccessToken(supabaseAdmin, supabaseUserId)) ??
+      squareAccessToken;
 
-      squareAccessToken = ms.square_access_token;
+    if (!squareAccessToken) {
+      console.error('[CLIENT SYNC] No Square token for user:', supabaseUserId);
+      return res.status(401).json({
+        message: 'Missing Square connection for user.',
+      });
     }
 
-    const squareRes = await fetch(
-      'https://connect.squareup.com/v2/customers',
-      {
-        method: 'GET',
-        headers: {
-          Authorization: `Bearer ${squareAccessToken}`,
-          'Content-Type': 'application/json',
-          'Square-Version': '2023-10-20',
-        },
-      }
+    const summary = await syncCustomers(
+      supabaseUserId,
+      createStore(supabaseAdmin, squareAccessToken)
     );
-
-    const json = await squareRes.json();
-    if (!squareRes.ok) {
-      return res.status(squareRes.status).json(json);
-    }
-
-    const customers = json.customers || [];
-
-    const rows = customers.map((c: any) => ({
-      supabase_user_id: supabaseUserId,
-      name: [c.given_name, c.family_name].filter(Boolean).join(' ') || 'Client',
-      email: c.email_address || null,
-      phone: c.phone_number || null,
-      avatar_url: `https://ui-avatars.com/api/?name=${encodeURIComponent(
-        [c.given_name, c.family_name].filter(Boolean).join(' ') || 'C'
-      )}&background=random`,
-      external_id: c.id,
-    }));
-
-    if (rows.length > 0) {
-      const { error } = await supabaseAdmin
-        .from('clients')
-        .upsert(rows, { onConflict: 'external_id' });
-
-      if (error) {
-        console.error('[CLIENT SYNC] Insert failed:', error);
-        return res.status(500).json({ message: error.message });
-      }
-    }
-
-    return res.status(200).json({ inserted: rows.length });
+    return res.status(200).json(summary);
   } catch (e: any) {
     console.error('[CLIENT SYNC] Fatal error:', e);
     return res.status(500).json({ message: e.message });
@@ -0,0 +1,62 @@
+import { createClient } from '@supabase/supabase-js';
+import { constantTimeEqual } from '../../../square/signing';
+import { isMerchantAccount, retireLegacyPassword } from '../../../square/sessions';
+
+/**
+ * One-off migration for salons that have not reconnected since sign-in moved to server-minted
+ * sessions: retires the merchant-ID password of every account from the old flow. Called with
+ * the service role key as the bearer token; safe to run more than once.
+ */
+export default async function handler(req: any, res: any) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  if (!process.env.VITE_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    return res.status(500).json({ message: 'Supabase config missing.' });
+  }
+
+  const authHeader = req.headers['authorization'] as string | undefined;
+  const bearer = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : '';
+  if (!constantTimeEqual(bearer, process.env.SUPABASE_SERVICE_ROLE_KEY)) {
+    return res.status(401).json({ message: 'Not authorized.' });
+  }
+
+  try {
+    const supabaseAdmin = createClient(
+      process.env.VITE_SUPABASE_URL,
+      process.env.SUPABASE_SERVICE_ROLE_KEY
+    );
+
+    const { data: rows, error } = await supabaseAdmin
+      .from('merchant_settings')
+      .select('supabase_user_id');
+    if (error) throw error;
+
+    let migrated = 0;
+    let skipped = 0;
+    const failed: string[] = [];
+
+    for (const row of rows || []) {
+      // FIX: Cast to 'any' to bypass Supabase auth method type errors, likely from an environment configuration issue.
+      const { data } = await (supabaseAdmin.auth as any).admin.getUserById(row.supabase_user_id);
+      const user = data?.user;
+      if (!user || !isMerchantAccount(user)) {
+        skipped++;
+        continue;
+      }
+      try {
+        if (await retireLegacyPassword(supabaseAdmin, user)) migrated++;
+        else skipped++;
+      } catch (e) {
+        console.error('[Session Migration] Failed for user:', user.id, e);
+        failed.push(user.id);
+      }
+    }
+
+    return res.status(200).json({ migrated, skipped, failed });
+  } catch (e: any) {
+    console.error('[Session Migration] Fatal error:', e);
+    return res.status(500).json({ message: e.message });
+  }
+}
@@ -0,0 +1,56 @@
+import { createClient } from '@supabase/supabase-js';
+import { getMerchantConnection } from '../../../square/oauth';
+
+/**
+ * Connection health for the signed-in salon, refreshing the Square token when it is close to
+ * expiring. POST with `{ force: true }` refreshes regardless, e.g. after Square rejected the
+ * token. A salon that has to reconnect Square gets 200 with status 'disconnected'; 401 means
+ the Supabase session itself is missing or invalid.
+ */
+export default async function handler(req: any, res: any) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  try {
+    if (!process.env.VITE_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+      return res.status(500).json({ message: 'Supabase config missing.' });
+    }
+
+    const authHeader = req.headers['authorization'] as string | undefined;
+    const bearer = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : undefined;
+    if (!bearer) {
+      return res.status(401).json({ message: 'Missing Supabase auth token.' });
+    }
+
+    const supabaseAdmin = createClient(
+      process.env.VITE_SUPABASE_URL,
+      process.env.SUPABASE_SERVICE_ROLE_KEY
+    );
+
+    // FIX: Cast to 'any' to bypass Supabase auth method type errors, likely from an environment configuration issue.
+    const { data: userData, error: userErr } = await (supabaseAdmin.auth as any).getUser(bearer);
+    const supabaseUserId = userData?.user?.id;
+    if (userErr || !supabaseUserId) {
+      return res.status(401).json({ message: 'Invalid Supabase session.' });
+    }
+
+    let body = req.body;
+    if (typeof body === 'string') {
+      try {
+        body = JSON.parse(body);
+      } catch {
+        body = undefined;
+      }
+    }
+
+    const connection = await getMerchantConnection(supabaseAdmin, supabaseUserId, {
+      forceRefresh: body?.force === true,
+    });
+
+    return res.status(200).json({ ...connection, message: connection.error });
+  } catch (e: any) {
+    console.error('[Square OAuth] Refresh error:', e);
+    return res.status(500).json({ message: e.message });
+  }
+}
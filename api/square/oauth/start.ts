@@ -1,30 +1,55 @@
-export default function handler(req: any, res: any) {
+import { createClient } from '@supabase/supabase-js';
+import { buildAuthorizeUrl, createOAuthState, oauthNonceCookie } from '../../../square/oauth';
+
+/**
+ * Starts a Square connect. GET (the login screen) redirects straight to Square with an
+ * unbound state; POST with a Supabase session (reconnecting from settings) binds the state
+ * to that user and returns the URL for the browser to open.
+ */
+export default async function handler(req: any, res: any) {
   const squareAppId = process.env.VITE_SQUARE_APPLICATION_ID || process.env.VITE_SQUARE_CLIENT_ID;
   const squareRedirectUri = process.env.VITE_SQUARE_REDIRECT_URI;
-  const squareEnv = (process.env.VITE_SQUARE_ENV || 'production').toLowerCase();
-  const oauthScopes =
-    process.env.VITE_SQUARE_OAUTH_SCOPES ||
-    'MERCHANT_PROFILE_READ EMPLOYEES_READ ITEMS_READ CUSTOMERS_READ CUSTOMERS_WRITE APPOINTMENTS_READ APPOINTMENTS_ALL_READ APPOINTMENTS_WRITE SUBSCRIPTIONS_READ SUBSCRIPTIONS_WRITE';
 
   if (!squareAppId || !squareRedirectUri) {
     return res.status(500).json({ message: 'Square OAuth environment variables are not configured on the server.' });
   }
 
-  const authorizeBase =
-    squareEnv === 'sandbox'
-      ? 'https://connect.squareupsandbox.com/oauth2/authorize'
-      : 'https://connect.squareup.com/oauth2/authorize';
-  
-  const state = crypto.randomUUID();
-
-  const oauthUrl =
-    `${authorizeBase}` +
-    `?client_id=${encodeURIComponent(squareAppId)}` +
-    `&response_type=code` +
-    `&scope=${encodeURIComponent(oauthScopes)}` +
-    `&redirect_uri=${encodeURIComponent(squareRedirectUri)}` +
-    `&state=${encodeURIComponent(state)}` +
-    `&session=false`;
-
-  res.redirect(302, oauthUrl);
-}
\ No newline at end of file
+  if (!process.env.VITE_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    return res.status(500).json({ message: 'Supabase config missing.' });
+  }
+
+  try {
+    const supabaseAdmin = createClient(
+      process.env.VITE_SUPABASE_URL,
+      process.env.SUPABASE_SERVICE_ROLE_KEY
+    );
+
+    let userId: string | null = null;
+    if (req.method === 'POST') {
+      const authHeader = req.headers['authorization'] as string | undefined;
+      const bearer = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : undefined;
+      if (!bearer) {
+        return res.status(401).json({ message: 'Missing Supabase auth token.' });
+      }
+
+      // FIX: Cast to 'any' to bypass Supabase auth method type errors, likely from an environment configuration issue.
+      const { data: userData, error: userErr } = await (supabaseAdmin.auth as any).getUser(bearer);
+      userId = userData?.user?.id || null;
+      if (userErr || !userId) {
+        return res.status(401).json({ message: 'Invalid Supabase session.' });
+      }
+    }
+
+    const { state, nonce } = await createOAuthState(supabaseAdmin, userId);
+    const oauthUrl = buildAuthorizeUrl(squareAppId, squareRedirectUri, state);
+
+    res.setHeader('Set-Cookie', oauthNonceCookie(nonce));
+    if (req.method === 'POST') {
+      return res.status(200).json({ url: oauthUrl });
+    }
+    res.redirect(302, oauthUrl);
+  } catch (e: any) {
+    console.error('Square OAuth start error:', e);
+    return res.status(500).json({ message: e.message || 'Could not start Square connect.' });
+  }
+}
@@ -1,5 +1,13 @@
 import { createClient } from '@supabase/supabase-js';
-import { Buffer } from 'buffer';
+import {
+  consumeOAuthState,
+  OAUTH_NONCE_COOKIE,
+  oauthNonceCookie,
+  readCookie,
+  squareBaseUrl,
+  tokenColumns,
+} from '../../../square/oauth';
+import { mintSession, resolveSalonUser, retireLegacyPassword } from '../../../square/sessions';
 
 const squareApiFetch = async (
   url: string,
@@ -25,31 +33,63 @@ const squareApiFetch = async (
 
 export default async function handler(req: any, res: any) {
   if (req.method !== 'POST') {
-@@ -37,54 +38,62 @@ export default async function handler(req: any, res: any) {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  try {
+    let body = req.body;
+    if (typeof body === 'string') {
+      try {
+        body = JSON.parse(body);
+      } catch {
         body = undefined;
       }
     }
 
-    let code =
-      body?.code ??
-      (typeof req.query?.code === 'string' ? req.query.code : undefined);
-
-    if (!code && typeof req.headers?.referer === 'string') {
-      try {
-        const refUrl = new URL(req.headers.referer);
-        code = refUrl.searchParams.get('code') ?? undefined;
-      } catch {}
-    }
+    // Only the body: a code taken from the query or Referer could be replayed into this route.
+    const code = typeof body?.code === 'string' ? body.code : undefined;
+    const state = typeof body?.state === 'string' ? body.state : undefined;
 
     if (!code) {
       return res.status(400).json({ message: 'Missing OAuth code.' });
     }
 
-    const env = (process.env.VITE_SQUARE_ENV || 'production').toLowerCase();
-    const baseUrl =
-      env === 'sandbox'
-        ? 'https://connect.squareupsandbox.com'
-        : 'https://connect.squareup.com';
+    if (
+      !process.env.VITE_SUPABASE_URL ||
+      !process.env.SUPABASE_SERVICE_ROLE_KEY ||
+      !process.env.VITE_SUPABASE_ANON_KEY
+    ) {
+      return res.status(500).json({ message: 'Supabase config missing.' });
+    }
+
+    const supabaseAdmin = createClient(
+      process.env.VITE_SUPABASE_URL,
+      process.env.SUPABASE_SERVICE_ROLE_KEY
+    );
+
+    // A reconnect from settings sends the session, which must belong to whoever started it.
+    let requestUserId: string | null = null;
+    const authHeader = req.headers['authorization'] as string | undefined;
+    if (authHeader?.startsWith('Bearer ')) {
+      // FIX: Cast to 'any' to bypass Supabase auth method type errors, likely from an environment configuration issue.
+      const { data: userData } = await (supabaseAdmin.auth as any).getUser(authHeader.slice(7));
+      requestUserId = userData?.user?.id || null;
+    }
+
+    const stateCheck = await consumeOAuthState(
+      supabaseAdmin,
+      state,
+      readCookie(req, OAUTH_NONCE_COOKIE),
+      requestUserId
+    );
+    // The nonce cookie is spent either way; a retry starts a new connect.
+    res.setHeader('Set-Cookie', oauthNonceCookie('', 0));
+    if (stateCheck.ok === false) {
+      console.warn('Square OAuth state rejected:', stateCheck.code);
+      return res.status(403).json({ code: stateCheck.code, message: stateCheck.message });
+    }
+
+    const baseUrl = squareBaseUrl();
 
     if (
       !process.env.VITE_SQUARE_APPLICATION_ID ||
@@ -60,9 +100,9 @@ export default async function handler(req: any, res: any) {
       });
     }
 
-    const basicAuth = Buffer.from(
+    const basicAuth = btoa(
       `${process.env.VITE_SQUARE_APPLICATION_ID}:${process.env.VITE_SQUARE_APPLICATION_SECRET}`
-    ).toString('base64');
+    );
 
     const tokenRes = await fetch(`${baseUrl}/oauth2/token`, {
       method: 'POST',
@@ -88,26 +128,58 @@ export default async function handler(req: any, res: any) {
         square_error: tokenData,
       });
     }
-@@ -129,26 +138,26 @@ export default async function handler(req: any, res: any) {
-    if (!user) throw new Error('Supabase auth failed');
 
-    await supabaseAdmin
+    const { access_token, merchant_id } = tokenData;
+
+    let business_name = 'Admin';
+    try {
+      const merchantData = await squareApiFetch(`${baseUrl}/v2/merchants/${merchant_id}`, access_token);
+      business_name = merchantData?.merchant?.business_name || business_name;
+    } catch (e) {
+      console.warn('Square merchant lookup failed:', e);
+    }
+
+    const userResult = await resolveSalonUser(supabaseAdmin, merchant_id, stateCheck.userId, { business_name });
+    if (userResult.ok === false) {
+      return res.status(403).json({ code: userResult.code, message: userResult.message });
+    }
+    const user = userResult.user;
+
+    // Accounts from the old merchant-ID-as-password sign-in lose that password here.
+    await retireLegacyPassword(supabaseAdmin, user);
+
+    // Keep the refresh token and expiry so the connection outlives the 30-day access token.
+    const { error: saveErr } = await supabaseAdmin
       .from('merchant_settings')
       .upsert(
         {
           supabase_user_id: user.id,
           square_merchant_id: merchant_id,
-          square_access_token: access_token,
+          ...tokenColumns(tokenData),
           square_connected_at: new Date().toISOString(),
-        },
+        } as any,
         { onConflict: 'supabase_user_id' }
       );
 
+    if (saveErr) {
+      console.error('Failed to store Square connection:', saveErr);
+      return res.status(500).json({ message: 'Failed to store Square connection.' });
+    }
+
+    const supabaseAnon = createClient(
+      process.env.VITE_SUPABASE_URL,
+      process.env.VITE_SUPABASE_ANON_KEY,
+      { auth: { persistSession: false, autoRefreshToken: false } }
+    );
+    const session = await mintSession(supabaseAdmin, supabaseAnon, user.email);
+
     // ✅ RESTORED: payload frontend expects to bootstrap app state
     return res.status(200).json({
       merchant_id,
       business_name,
       access_token,
+      expires_at: tokenData.expires_at || null,
+      session,
     });
 
   } catch (e: any) {
@@ -1,4 +1,5 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { getMerchantAccessToken, squareBaseUrl } from '../../square/oauth';
 
 export default async function handler(req: any, res: any) {
   try {
@@ -10,55 +11,47 @@ export default async function handler(req: any, res: any) {
       });
     }
 
-    const env = (process.env.VITE_SQUARE_ENV || 'production').toLowerCase();
-    const squareBase =
-      env === 'sandbox'
-        ? 'https://connect.squareupsandbox.com'
-        : 'https://connect.squareup.com';
+    const squareBase = squareBaseUrl();
 
-    let squareAccessToken: string | undefined =
-      (req.headers['x-square-access-token'] as string | undefined) ||
-      (req.headers['x-square-access-token'.toLowerCase()] as
-        | string
-        | undefined);
+    let squareAccessToken: string | undefined;
+    let supabaseAdmin: SupabaseClient | null = null;
+    let userId: string | undefined;
 
-    // 🔑 FIX: Load access token from merchant_settings (authoritative schema)
-    if (!squareAccessToken) {
-      const authHeader = req.headers['authorization'] as string | undefined;
-      const bearer = authHeader?.startsWith('Bearer ')
-        ? authHeader.slice(7)
-        : undefined;
-
-      if (
-        bearer &&
-        process.env.VITE_SUPABASE_URL &&
+    // 🔑 FIX: Load access token from merchant_settings (authoritative schema), refreshed
+    // ahead of expiry. The browser's copy in the header may be stale.
+    const authHeader = req.headers['authorization'] as string | undefined;
+    const bearer = authHeader?.startsWith('Bearer ')
+      ? authHeader.slice(7)
+      : undefined;
+
+    if (
+      bearer &&
+      process.env.VITE_SUPABASE_URL &&
+      process.env.SUPABASE_SERVICE_ROLE_KEY
+    ) {
+      supabaseAdmin = createClient(
+        process.env.VITE_SUPABASE_URL,
         process.env.SUPABASE_SERVICE_ROLE_KEY
-      ) {
-        const supabaseAdmin = createClient(
-          process.env.VITE_SUPABASE_URL,
-          process.env.SUPABASE_SERVICE_ROLE_KEY
-        );
-
-        // FIX: Cast to 'any' to bypass Supabase auth method type errors, likely from an environment configuration issue.
-        const { data: userData, error: userErr } =
-          await (supabaseAdmin.auth as any).getUser(bearer);
-
-        const userId = userData?.user?.id;
-
-        if (!userErr && userId) {
-          const { data: ms } = await supabaseAdmin
-            .from('merchant_settings')
-            .select('square_access_token')
-            .eq('supabase_user_id', userId)
-            .maybeSingle();
-
-          if (ms?.square_access_token) {
-            squareAccessToken = ms.square_access_token;
-          }
-        }
+      );
+
+      // FIX: Cast to 'any' to bypass Supabase auth method type errors, likely from an environment configuration issue.
+      const { data: userData, error: userErr } =
+        await (supabaseAdmin.auth as any).getUser(bearer);
+
+      userId = userErr ? undefined : userData?.user?.id;
+
+      if (userId) {
+        squareAccessToken =
+          (await getMerchantAccessToken(supabaseAdmin, userId)) ?? undefined;
       }
     }
 
+    if (!squareAccessToken) {
+      squareAccessToken =
+        (req.headers['x-square-access-token'] as string | undefined) ||
+        undefined;
+    }
+
     if (!squareAccessToken) {
       squareAccessToken = process.env.VITE_SQUARE_ACCESS_TOKEN;
     }
@@ -75,15 +68,26 @@ export default async function handler(req: any, res: any) {
     const hasBody =
       method !== 'GET' && method !== 'HEAD' && method !== 'DELETE';
 
-    const squareResp = await fetch(url, {
-      method,
-      headers: {
-        Authorization: `Bearer ${squareAccessToken}`,
-        'Content-Type': 'application/json',
-        'Square-Version': '2023-10-20',
-      },
-      body: hasBody ? JSON.stringify(req.body ?? {}) : undefined,
-    });
+    const callSquare = (token: string) =>
+      fetch(url, {
+        method,
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+          'Square-Version': '2023-10-20',
+        },
+        body: hasBody ? JSON.stringify(req.body ?? {}) : undefined,
+      });
+
+    let squareResp = await callSquare(squareAccessToken);
+
+    // A revoked or expired token gets one forced refresh before giving up.
+    if (squareResp.status === 401 && supabaseAdmin && userId) {
+      const refreshed = await getMerchantAccessToken(supabaseAdmin, userId, { forceRefresh: true });
+      if (refreshed && refreshed !== squareAccessToken) {
+        squareResp = await callSquare(refreshed);
+      }
+    }
 
     const text = await squareResp.text();
     let payload: any;
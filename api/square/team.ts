@@ -1,4 +1,19 @@
-1. IDENTIFY AUTHENTICATED USER
+import { createClient } from '@supabase/supabase-js';
+import { getMerchantAccessToken, squareBaseUrl } from '../../square/oauth';
+
+export default async function handler(req: any, res: any) {
+  try {
+    if (!process.env.VITE_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+      return res.status(500).json({ message: 'Supabase config missing.' });
+    }
+
+    const supabaseAdmin = createClient(
+      process.env.VITE_SUPABASE_URL,
+      process.env.SUPABASE_SERVICE_ROLE_KEY
+    );
+
+    /* -------------------------------------------------
+       1. IDENTIFY AUTHENTICATED USER
     --------------------------------------------------*/
     const authHeader = req.headers['authorization'];
     const bearer =
@@ -19,18 +34,19 @@
     }
 
     /* -------------------------------------------------
-       2. LOAD MERCHANT SETTINGS (CORRECT SOURCE)
+       2. LOAD MERCHANT TOKEN (refreshed when close to expiry)
     --------------------------------------------------*/
     const { data: merchant } = await supabaseAdmin
       .from('merchant_settings')
-      .select('square_access_token, settings')
+      .select('square_merchant_id')
       .eq('supabase_user_id', supabaseUserId)
       .maybeSingle();
 
+    const merchantId = merchant?.square_merchant_id ?? null;
+
     const squareAccessToken =
-      merchant?.square_access_token ??
-      merchant?.settings?.square_access_token ??
-      merchant?.settings?.oauth?.access_token ??
+      (await getMerchantAccessToken(supabaseAdmin, supabaseUserId)) ??
+      (req.headers['x-square-access-token'] as string | undefined) ??
       null;
 
     if (!squareAccessToken) {
@@ -44,7 +60,7 @@
        3. FETCH TEAM MEMBERS FROM SQUARE
     --------------------------------------------------*/
     const squareRes = await fetch(
-      'https://connect.squareup.com/v2/team-members/search',
+      `${squareBaseUrl()}/v2/team-members/search`,
       {
         method: 'POST',
         headers: {
@@ -54,7 +70,25 @@
         },
         body: JSON.stringify({
           query: {
-@@ -101,26 +102,26 @@ export default async function handler(req: any, res: any) {
+            filter: { status: 'ACTIVE' },
+          },
+        }),
+      }
+    );
+
+    const json = await squareRes.json();
+    if (!squareRes.ok) {
+      console.error('[TEAM SYNC] Square error:', json);
+      return res.status(squareRes.status).json(json);
+    }
+
+    const members = json.team_members || [];
+
+    /* -------------------------------------------------
+       4. UPSERT INTO SUPABASE
+    --------------------------------------------------*/
+    const rows = members.map((m: any) => ({
+      merchant_id: merchantId,
       square_team_member_id: m.id,
       name: [m.given_name, m.family_name].filter(Boolean).join(' ') || 'Team Member',
       email: m.email_address ?? null,
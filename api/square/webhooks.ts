@@ -0,0 +1,177 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { getMerchantAccessToken, squareBaseUrl } from '../../square/oauth';
+import {
+  processWebhookEvent,
+  SIGNATURE_HEADER,
+  SquareWebhookEvent,
+  verifySquareSignature,
+  WebhookBookingRow,
+  WebhookClientRow,
+  WebhookClientUpdate,
+  WebhookOutcome,
+  WebhookStore,
+} from '../../square/webhooks';
+
+// The signature covers the exact bytes Square sent, so the body must not be parsed first.
+export const config = { api: { bodyParser: false } };
+
+const readRawBody = async (req: any): Promise<string> => {
+  if (typeof req.body === 'string') return req.body;
+  const decoder = new TextDecoder();
+  let text = '';
+  for await (const chunk of req) {
+    text += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+  }
+  return text + decoder.decode();
+};
+
+const createStore = (supabaseAdmin: SupabaseClient): WebhookStore => ({
+  async hasProcessedEvent(eventId) {
+    const { data, error } = await supabaseAdmin
+      .from('square_webhook_events')
+      .select('event_id')
+      .eq('event_id', eventId)
+      .maybeSingle();
+    // Without the events table retries would be applied twice; fail so Square retries later.
+    if (error) throw new Error(`Could not check square_webhook_events: ${error.message}`);
+    return !!data;
+  },
+
+  async recordEvent(event: SquareWebhookEvent, outcome: WebhookOutcome) {
+    const { error } = await supabaseAdmin
+      .from('square_webhook_events')
+      .upsert(
+        {
+          event_id: event.event_id,
+          merchant_id: event.merchant_id,
+          type: event.type,
+          outcome,
+          received_at: new Date().toISOString(),
+        } as any,
+        { onConflict: 'event_id' }
+      );
+    if (error) throw new Error(`Could not record the event in square_webhook_events: ${error.message}`);
+  },
+
+  async findMerchantOwner(merchantId) {
+    const { data, error } = await supabaseAdmin
+      .from('merchant_settings')
+      .select('supabase_user_id')
+      .eq('square_merchant_id', merchantId)
+      .maybeSingle();
+    if (error) throw error;
+    return data?.supabase_user_id || null;
+  },
+
+  async findClientId(ownerId, customerId) {
+    const { data, error } = await supabaseAdmin
+      .from('clients')
+      .select('id')
+      .eq('supabase_user_id', ownerId)
+      .eq('external_id', customerId)
+      .maybeSingle();
+    if (error) throw error;
+    return data?.id || null;
+  },
+
+  async upsertClient(row: WebhookClientRow | WebhookClientUpdate) {
+    const { data, error } = await supabaseAdmin
+      .from('clients')
+      .upsert(row as any, { onConflict: 'supabase_user_id,external_id' })
+      .select('id')
+      .single();
+    if (error) throw error;
+    return data.id;
+  },
+
+  async fetchCustomer(ownerId, customerId) {
+    // Refreshes the salon's token first when it is close to expiring.
+    const accessToken = await getMerchantAccessToken(supabaseAdmin, ownerId);
+    if (!accessToken) return null;
+
+    const squareRes = await fetch(`${squareBaseUrl()}/v2/customers/${encodeURIComponent(customerId)}`, {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+        'Square-Version': '2023-10-20',
+      },
+    });
+    if (squareRes.status === 404) return null;
+    const json = await squareRes.json();
+    if (!squareRes.ok) {
+      throw new Error(json?.errors?.[0]?.detail || 'Square customer lookup failed');
+    }
+    return json.customer || null;
+  },
+
+  async findBooking(bookingId) {
+    const { data, error } = await supabaseAdmin
+      .from('bookings')
+      .select('*')
+      .eq('id', bookingId)
+      .maybeSingle();
+    if (error) throw error;
+    return (data as WebhookBookingRow) || null;
+  },
+
+  async upsertBooking(row: WebhookBookingRow) {
+    const { error } = await supabaseAdmin.from('bookings').upsert(row as any);
+    if (error) throw error;
+  },
+
+  async markCatalogChanged(ownerId, updatedAt) {
+    const { error } = await supabaseAdmin
+      .from('merchant_settings')
+      .update({ square_catalog_updated_at: updatedAt } as any)
+      .eq('supabase_user_id', ownerId);
+    if (error) console.warn('[Square Webhook] Could not record catalog change:', error.message);
+  },
+});
+
+/**
+ * Receives Square booking, customer and catalog events so changes made at the front desk
+ * reach `bookings` and `clients`. Subscribe the URL in SQUARE_WEBHOOK_URL and set
+ * SQUARE_WEBHOOK_SIGNATURE_KEY from the subscription.
+ */
+export default async function handler(req: any, res: any) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method not allowed.' });
+  }
+
+  try {
+    const signatureKey = process.env.SQUARE_WEBHOOK_SIGNATURE_KEY;
+    const notificationUrl =
+      process.env.SQUARE_WEBHOOK_URL ||
+      `https://${req.headers['x-forwarded-host'] || req.headers.host}${req.url}`;
+
+    if (!signatureKey || !process.env.VITE_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+      return res.status(500).json({ message: 'Square webhook environment variables are not configured on the server.' });
+    }
+
+    const rawBody = await readRawBody(req);
+    const signature = req.headers[SIGNATURE_HEADER] as string | undefined;
+    if (!(await verifySquareSignature(rawBody, signature, notificationUrl, signatureKey))) {
+      console.warn('[Square Webhook] Rejected request with an invalid signature.');
+      return res.status(403).json({ message: 'Invalid signature.' });
+    }
+
+    let event: SquareWebhookEvent;
+    try {
+      event = JSON.parse(rawBody);
+    } catch {
+      return res.status(400).json({ message: 'Invalid JSON body.' });
+    }
+
+    const supabaseAdmin = createClient(
+      process.env.VITE_SUPABASE_URL,
+      process.env.SUPABASE_SERVICE_ROLE_KEY
+    );
+
+    const outcome = await processWebhookEvent(event, createStore(supabaseAdmin));
+    return res.status(200).json({ event_id: event.event_id, outcome });
+  } catch (e: any) {
+    // A non-2xx answer makes Square retry the delivery.
+    console.error('[Square Webhook] Fatal error:', e);
+    return res.status(500).json({ message: e.message });
+  }
+}
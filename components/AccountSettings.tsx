@@ -3,6 +3,8 @@ import type { User, AppTextSize } from '../types';
 import { useSettings } from '../contexts/SettingsContext';
 import { SettingsIcon, UsersIcon, TrashIcon } from './icons';
 import { ensureAccessibleColor } from '../utils/ensureAccessibleColor';
+import { SquareIntegrationService } from '../services/squareIntegration';
+import LocationPicker from './LocationPicker';
 
 
 interface AccountSettingsProps {
@@ -13,7 +15,7 @@ interface AccountSettingsProps {
 
 const AccountSettings: React.FC<AccountSettingsProps> = ({ user, onLogout, subtitle }) => {
   const [isChangingPassword, setIsChangingPassword] = useState(false);
-  const { textSize, updateTextSize, pushAlertsEnabled, updatePushAlertsEnabled, branding } = useSettings();
+  const { textSize, updateTextSize, pushAlertsEnabled, updatePushAlertsEnabled, branding, squareConnection } = useSettings();
 
   const handlePasswordChange = () => {
     alert("Password change functionality is not yet connected to the backend.");
@@ -28,33 +30,13 @@ const AccountSettings: React.FC<AccountSettingsProps> = ({ user, onLogout, subti
   const squareAppId = (import.meta as any).env.VITE_SQUARE_APPLICATION_ID || (import.meta as any).env.VITE_SQUARE_CLIENT_ID;
   // FIX: Cast `import.meta` to `any` to resolve TypeScript error "Property 'env' does not exist on type 'ImportMeta'".
   const squareRedirectUri = (import.meta as any).env.VITE_SQUARE_REDIRECT_URI;
-  // FIX: Cast `import.meta` to `any` to resolve TypeScript error "Property 'env' does not exist on type 'ImportMeta'".
-  const squareEnv = ((import.meta as any).env.VITE_SQUARE_ENV || 'production').toLowerCase();
-  // FIX: Cast `import.meta` to `any` to resolve TypeScript error "Property 'env' does not exist on type 'ImportMeta'".
-  const oauthScopes =
-    ((import.meta as any).env.VITE_SQUARE_OAUTH_SCOPES as string | undefined) ||
-    'MERCHANT_PROFILE_READ EMPLOYEES_READ ITEMS_READ CUSTOMERS_READ CUSTOMERS_WRITE APPOINTMENTS_READ APPOINTMENTS_ALL_READ APPOINTMENTS_WRITE SUBSCRIPTIONS_READ SUBSCRIPTIONS_WRITE';
 
   const startSquareOAuth = () => {
     if (!squareAppId || !squareRedirectUri) return;
-
-    const authorizeBase =
-      squareEnv === 'sandbox'
-        ? 'https://connect.squareupsandbox.com/oauth2/authorize'
-        : 'https://connect.squareup.com/oauth2/authorize';
-
-    const state = crypto.randomUUID();
-
-    const oauthUrl =
-      `${authorizeBase}` +
-      `?client_id=${encodeURIComponent(squareAppId)}` +
-      `&response_type=code` +
-      `&scope=${encodeURIComponent(oauthScopes)}` +
-      `&redirect_uri=${encodeURIComponent(squareRedirectUri)}` +
-      `&state=${encodeURIComponent(state)}` +
-      `&session=false`;
-
-    window.location.href = oauthUrl;
+    SquareIntegrationService.startConnect().catch((e: any) => {
+      console.error('Square connect failed to start:', e);
+      alert(e.message || 'Could not start Square connect.');
+    });
   };
 
   return (
@@ -72,6 +54,8 @@ const AccountSettings: React.FC<AccountSettingsProps> = ({ user, onLogout, subti
                 <p className="text-[10px] font-black uppercase tracking-[0.2em]" style={{ color: ensureAccessibleColor(branding.primaryColor, '#FFFFFF', '#BE123C') }}>{subtitle}</p>
             </div>
 
+            <LocationPicker className="bg-white p-6 rounded-[32px] border-4 border-gray-100 shadow-sm" />
+
             {squareAppId && squareRedirectUri && (
               <div className="bg-white p-6 rounded-[32px] border-4 border-gray-950 shadow-sm">
                 <h3 className="font-black text-sm tracking-widest uppercase text-gray-400 mb-4">
@@ -80,6 +64,13 @@ const AccountSettings: React.FC<AccountSettingsProps> = ({ user, onLogout, subti
                 <p className="text-xs font-bold text-gray-700 leading-relaxed mb-4">
                   Connect this Pro/Admin app to your Square account via OAuth.
                 </p>
+                {squareConnection && squareConnection.status !== 'disconnected' && (
+                  <p className={`text-[10px] font-black uppercase tracking-widest mb-4 ${squareConnection.status === 'expiring' ? 'text-amber-600' : 'text-green-700'}`}>
+                    {squareConnection.status === 'expiring'
+                      ? `Renewal failed · reconnect before ${squareConnection.expiresAt ? new Date(squareConnection.expiresAt).toLocaleDateString() : 'it expires'}`
+                      : 'Connected · renews automatically'}
+                  </p>
+                )}
                 <button
                   onClick={startSquareOAuth}
                   className="w-full bg-gray-950 text-white font-black py-3 rounded-2xl border-4 border-gray-950 shadow-lg"
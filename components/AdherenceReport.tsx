@@ -0,0 +1,100 @@
+import React, { useMemo, useState } from 'react';
+import type { GeneratedPlan } from '../types';
+import { usePlans } from '../contexts/PlanContext';
+import { useSettings } from '../contexts/SettingsContext';
+import { SquareIntegrationService } from '../services/squareIntegration';
+import { bookingRangeFor, computeAdherence, fromBookingRecord, fromSquareBooking, mergeBookings, ObservedBooking, PlanAdherence } from '../utils/planAdherence';
+
+interface AdherenceReportProps {
+  plans: GeneratedPlan[];
+}
+
+const AdherenceReport: React.FC<AdherenceReportProps> = ({ plans }) => {
+  const [squareByCustomer, setSquareByCustomer] = useState<{ [customerId: string]: ObservedBooking[] } | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { bookings } = usePlans();
+  const { salonTimezone } = useSettings();
+
+  // Cancelled roadmaps are not held against anyone; paused and expired ones count up to when they stopped.
+  const scoredPlans = useMemo(() => plans.filter(p => p.status !== 'draft' && p.status !== 'cancelled'), [plans]);
+
+  const rows = useMemo(() => {
+    const byClient: { [clientId: string]: ObservedBooking[] } = {};
+    bookings.forEach(b => (byClient[b.client_id] = byClient[b.client_id] || []).push(fromBookingRecord(b)));
+
+    return scoredPlans
+      .map(plan => ({
+        plan,
+        adherence: computeAdherence(plan, mergeBookings(
+          byClient[plan.client.id] || [],
+          (plan.client.externalId && squareByCustomer?.[plan.client.externalId]) || []
+        ), { timeZone: salonTimezone }),
+      }))
+      .filter((row): row is { plan: GeneratedPlan; adherence: PlanAdherence & { score: number } } => row.adherence.score !== null)
+      .sort((a, b) => a.adherence.score - b.adherence.score);
+  }, [scoredPlans, bookings, squareByCustomer, salonTimezone]);
+
+  const totals = useMemo(() => {
+    const sum = (key: 'completed' | 'early' | 'late' | 'missed') => rows.reduce((n, r) => n + r.adherence.counts[key], 0);
+    return {
+      average: rows.length > 0 ? Math.round(rows.reduce((n, r) => n + r.adherence.score, 0) / rows.length) : null,
+      completed: sum('completed'),
+      offSchedule: sum('early') + sum('late'),
+      missed: sum('missed'),
+    };
+  }, [rows]);
+
+  // One salon-wide fetch per location, split by Square customer.
+  const loadSquareBookings = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const range = bookingRangeFor(scoredPlans);
+      const locations = range ? await SquareIntegrationService.fetchLocations() : [];
+      const all = (await Promise.all(locations.map(loc => SquareIntegrationService.fetchAllBookings(loc.id, range!)))).flat();
+      const grouped: { [customerId: string]: ObservedBooking[] } = {};
+      all.filter(b => b.customer_id).forEach(b => (grouped[b.customer_id] = grouped[b.customer_id] || []).push(fromSquareBooking(b)));
+      setSquareByCustomer(grouped);
+    } catch (e: any) {
+      console.error('Failed to load Square bookings for adherence:', e);
+      setError(e.message || 'Could not load Square bookings.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-5 rounded-3xl border-4 border-gray-100 shadow-sm mb-6">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h3 className="text-sm font-black text-gray-900 uppercase tracking-widest">Roadmap Adherence</h3>
+          <p className="text-[10px] font-black text-gray-400 uppercase">{rows.length} roadmaps with visits due</p>
+        </div>
+        <span className="text-3xl font-black text-gray-950">{totals.average === null ? '—' : `${totals.average}%`}</span>
+      </div>
+      <div className="grid grid-cols-3 gap-2 mb-4 text-center">
+        <div className="bg-green-50 rounded-2xl p-2"><p className="text-xl font-black text-green-900">{totals.completed}</p><p className="text-[10px] font-black uppercase text-green-900">On Time</p></div>
+        <div className="bg-amber-50 rounded-2xl p-2"><p className="text-xl font-black text-amber-900">{totals.offSchedule}</p><p className="text-[10px] font-black uppercase text-amber-900">Early / Late</p></div>
+        <div className="bg-red-50 rounded-2xl p-2"><p className="text-xl font-black text-red-900">{totals.missed}</p><p className="text-[10px] font-black uppercase text-red-900">Missed</p></div>
+      </div>
+      <div className="space-y-2 max-h-64 overflow-y-auto">
+        {rows.map(({ plan, adherence }) => (
+          <div key={plan.id} className="flex justify-between items-center text-sm border-b-2 border-gray-50 pb-2">
+            <div className="min-w-0">
+              <p className="font-black text-gray-950 truncate">{plan.client.name}</p>
+              <p className="text-[10px] font-black uppercase text-gray-400">{plan.stylistName} · {adherence.counts.missed} missed</p>
+            </div>
+            <span className={`font-black ${adherence.score < 50 ? 'text-red-600' : adherence.score < 80 ? 'text-amber-600' : 'text-green-700'}`}>{adherence.score}%</span>
+          </div>
+        ))}
+      </div>
+      {error && <p className="mt-3 text-xs font-black text-red-600">{error}</p>}
+      <button onClick={loadSquareBookings} disabled={isLoading} className="mt-4 text-[10px] font-black uppercase tracking-widest text-gray-500 underline disabled:opacity-50">
+        {isLoading ? 'Checking Square...' : squareByCustomer ? 'Square bookings included · Refresh' : 'Include Square bookings'}
+      </button>
+    </div>
+  );
+};
+
+export default AdherenceReport;
@@ -11,6 +11,9 @@ import {
     CheckCircleIcon, 
     TrashIcon,
     UsersIcon,
+    CalendarIcon,
+    ClipboardIcon,
+    DocumentTextIcon,
     GlobeIcon,
     DatabaseIcon,
     ChevronRightIcon,
@@ -19,24 +22,38 @@ import {
 import type { Stylist, UserRole } from '../types';
 import { GOOGLE_FONTS_LIST } from '../data/fonts';
 import AccountSettings from './AccountSettings';
+import AdherenceReport from './AdherenceReport';
+import CatalogSyncPreview from './CatalogSyncPreview';
+import { applyCatalogChanges, CatalogSyncPreview as CatalogPreview } from '../utils/catalogSync';
+import type { CustomerSyncSummary } from '../square/customerSync';
+import { PLAN_HORIZON_OPTIONS, PlanHorizonMonths } from '../utils/planScheduler';
 
 export default function AdminDashboard({ role }: { role: UserRole }) {
   const [activeTab, setActiveTab] = useState<Tab>('dashboard');
-  const [activeSettingsView, setActiveSettingsView] = useState<'menu' | 'branding' | 'memberships' | 'integrations'>('menu');
+  const [activeSettingsView, setActiveSettingsView] = useState<'menu' | 'branding' | 'memberships' | 'integrations' | 'scheduling' | 'closures' | 'templates'>('menu');
   const [editingStylist, setEditingStylist] = useState<Stylist | null>(null);
   const [isSyncing, setIsSyncing] = useState(false);
   const [syncMessage, setSyncMessage] = useState<string | null>(null);
+  const [catalogPreview, setCatalogPreview] = useState<CatalogPreview | null>(null);
+  const [clientSyncSummary, setClientSyncSummary] = useState<CustomerSyncSummary | null>(null);
+  const [newClosure, setNewClosure] = useState<{ kind: 'holiday' | 'closure'; date: string; name: string }>({ kind: 'holiday', date: '', name: '' });
+  const [newTemplate, setNewTemplate] = useState<{ name: string; services: { [serviceId: string]: { frequency: number; offsetWeeks: number } } }>({ name: '', services: {} });
+  const [templateError, setTemplateError] = useState<string | null>(null);
   
   const { 
     branding, updateBranding, 
     membershipConfig, updateMembershipConfig,
     stylists, updateStylists,
-    clients, updateClients,
-    services, updateServices,
-    saveAll, resolveClientByExternalId
+    clients, syncSquareClients,
+    services, catalogSyncedAt, catalogChangedAt, applyCatalogSync,
+    schedulingConfig, updateSchedulingConfig,
+    closureCalendar, updateClosureCalendar,
+    saveAll
   } = useSettings();
-  const { plans, getStats } = usePlans();
+  const { plans, getStats, templates, saveTemplate, deleteTemplate } = usePlans();
   const { user, logout } = useAuth();
+  // Square reported a catalog change the menu has not been synced past yet.
+  const catalogIsStale = !!catalogChangedAt && (!catalogSyncedAt || new Date(catalogChangedAt) > new Date(catalogSyncedAt));
 
   const stats = getStats();
   const totalPipeline = plans.filter(p => p.status === 'active' || p.status === 'draft').reduce((sum, p) => sum + p.totalCost, 0);
@@ -63,27 +80,23 @@ export default function AdminDashboard({ role }: { role: UserRole }) {
     });
   }, [plans]);
 
-  const handleSync = async () => {
+  // Team and clients are applied straight away; catalog changes wait for the admin's review.
+  const handleSync = async (fullCatalog = false) => {
     if (!supabase || !user) return;
     setIsSyncing(true);
     setSyncMessage("Initializing sync...");
     try {
-      const [newServices, newStylists, newCustomers] = await Promise.all([
-        SquareIntegrationService.fetchCatalog(),
+      const [preview, newStylists, clientSummary] = await Promise.all([
+        SquareIntegrationService.fetchCatalogChanges(services, fullCatalog ? null : catalogSyncedAt),
         SquareIntegrationService.fetchTeam(),
-        SquareIntegrationService.fetchCustomers(),
+        syncSquareClients(),
       ]);
       
       if (newStylists.length) updateStylists(newStylists);
-      if (newServices.length) updateServices(newServices);
-      if (newCustomers.length) {
-        const resolved = [];
-        for(const sq of newCustomers) {
-          if (sq.id) resolved.push(await resolveClientByExternalId(sq.id, { name: sq.name!, email: sq.email, phone: sq.phone, avatarUrl: sq.avatarUrl }));
-        }
-        updateClients(resolved);
-      }
-      setSyncMessage("Sync Successful!");
+      if (preview.changes.length) setCatalogPreview(preview);
+      else applyCatalogSync(services, preview.syncedAt);
+      setClientSyncSummary(clientSummary);
+      setSyncMessage(preview.changes.length ? "Review catalog changes to finish." : "Sync Successful!");
       saveAll();
       setTimeout(() => setSyncMessage(null), 2000);
     } catch (e: any) {
@@ -93,6 +106,67 @@ export default function AdminDashboard({ role }: { role: UserRole }) {
     }
   };
 
+  const applyCatalogPreview = () => {
+    if (!catalogPreview) return;
+    applyCatalogSync(applyCatalogChanges(services, catalogPreview.changes), catalogPreview.syncedAt);
+    setCatalogPreview(null);
+    setSyncMessage("Catalog updated.");
+    setTimeout(() => setSyncMessage(null), 2000);
+  };
+
+  const toggleClosedWeekday = (day: number) => {
+    const closedWeekdays = closureCalendar.closedWeekdays.includes(day)
+      ? closureCalendar.closedWeekdays.filter(d => d !== day)
+      : [...closureCalendar.closedWeekdays, day].sort();
+    updateClosureCalendar({ ...closureCalendar, closedWeekdays });
+  };
+
+  const addClosureDate = () => {
+    if (!newClosure.date) return;
+    const entry = { date: newClosure.kind === 'holiday' ? newClosure.date.slice(5) : newClosure.date, name: newClosure.name.trim() || undefined };
+    if (newClosure.kind === 'holiday') {
+      updateClosureCalendar({ ...closureCalendar, holidays: [...closureCalendar.holidays.filter(h => h.date !== entry.date), entry] });
+    } else {
+      updateClosureCalendar({ ...closureCalendar, closures: [...closureCalendar.closures.filter(c => c.date !== entry.date), entry] });
+    }
+    setNewClosure({ ...newClosure, date: '', name: '' });
+  };
+
+  const toggleTemplateService = (serviceId: string) => {
+    const { [serviceId]: existing, ...rest } = newTemplate.services;
+    setNewTemplate({ ...newTemplate, services: existing ? rest : { ...rest, [serviceId]: { frequency: 6, offsetWeeks: 0 } } });
+  };
+
+  const updateTemplateService = (serviceId: string, patch: Partial<{ frequency: number; offsetWeeks: number }>) => {
+    setNewTemplate({ ...newTemplate, services: { ...newTemplate.services, [serviceId]: { ...newTemplate.services[serviceId], ...patch } } });
+  };
+
+  const addSalonTemplate = async () => {
+    const entries = Object.entries(newTemplate.services);
+    if (!newTemplate.name.trim() || entries.length === 0) return;
+    setTemplateError(null);
+    try {
+      await saveTemplate({
+        id: `template_${Date.now()}`,
+        name: newTemplate.name.trim(),
+        scope: 'salon',
+        services: entries.map(([serviceId, e]) => ({ serviceId, frequency: Math.max(1, e.frequency), unit: 'weeks', startOffsetDays: Math.max(0, e.offsetWeeks) * 7 })),
+      });
+      setNewTemplate({ name: '', services: {} });
+    } catch (e: any) {
+      setTemplateError(e.message);
+    }
+  };
+
+  const removeSalonTemplate = async (templateId: string) => {
+    setTemplateError(null);
+    try {
+      await deleteTemplate(templateId);
+    } catch (e: any) {
+      setTemplateError(e.message);
+    }
+  };
+
   const renderDashboard = () => (
     <div className="p-6">
       <h1 className="text-3xl font-black text-brand-accent tracking-tighter mb-8">Admin Dashboard</h1>
@@ -123,6 +197,7 @@ export default function AdminDashboard({ role }: { role: UserRole }) {
           </ResponsiveContainer>
         </div>
       </div>
+      <AdherenceReport plans={plans} />
     </div>
   );
 
@@ -159,6 +234,164 @@ export default function AdminDashboard({ role }: { role: UserRole }) {
       );
     }
 
+    if (activeSettingsView === 'scheduling') {
+      return (
+        <div className="p-6">
+          <button onClick={() => setActiveSettingsView('menu')} className="mb-4 flex items-center text-xs font-black uppercase text-gray-400 hover:text-gray-900"><ChevronLeftIcon className="w-4 h-4 mr-1"/> Back</button>
+          <h2 className="text-2xl font-black mb-8">Scheduling</h2>
+          <div className="space-y-6">
+            <div className="flex justify-between items-center p-4 bg-white border-4 border-gray-100 rounded-2xl">
+              <div>
+                <span className="font-black text-sm block">Cluster Nearby Services</span>
+                <span className="text-[10px] font-bold text-gray-500">Combine services due close together into one visit.</span>
+              </div>
+              <button
+                onClick={() => updateSchedulingConfig({ ...schedulingConfig, clusteringEnabled: !schedulingConfig.clusteringEnabled })}
+                className={`w-12 h-6 rounded-full relative transition-colors flex-shrink-0 ${schedulingConfig.clusteringEnabled ? 'bg-brand-secondary' : 'bg-gray-200'}`}
+              >
+                <div className={`absolute top-1 w-4 h-4 bg-white rounded-full shadow-sm transition-transform ${schedulingConfig.clusteringEnabled ? 'transform translate-x-7' : 'transform translate-x-1'}`}></div>
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-[10px] font-black uppercase mb-2">Window (Days)</label>
+                <input type="number" min={0} value={schedulingConfig.clusterWindowDays} disabled={!schedulingConfig.clusteringEnabled} onChange={e => updateSchedulingConfig({...schedulingConfig, clusterWindowDays: Math.max(0, parseInt(e.target.value, 10) || 0)})} className="w-full p-4 border-4 border-gray-100 rounded-2xl font-black outline-none focus:border-brand-accent disabled:opacity-50"/>
+              </div>
+              <div>
+                <label className="block text-[10px] font-black uppercase mb-2">Max Chair Time (Min)</label>
+                <input type="number" min={0} step={15} value={schedulingConfig.maxChairMinutes} disabled={!schedulingConfig.clusteringEnabled} onChange={e => updateSchedulingConfig({...schedulingConfig, maxChairMinutes: Math.max(0, parseInt(e.target.value, 10) || 0)})} className="w-full p-4 border-4 border-gray-100 rounded-2xl font-black outline-none focus:border-brand-accent disabled:opacity-50"/>
+              </div>
+            </div>
+            <div>
+              <label className="block text-[10px] font-black uppercase mb-2">Roadmap Length</label>
+              <select value={schedulingConfig.horizonMonths} onChange={e => updateSchedulingConfig({...schedulingConfig, horizonMonths: Number(e.target.value) as PlanHorizonMonths})} className="w-full p-4 border-4 border-gray-100 rounded-2xl font-black outline-none focus:border-brand-accent">
+                {PLAN_HORIZON_OPTIONS.map(months => <option key={months} value={months}>{months} months</option>)}
+              </select>
+            </div>
+            <div className="flex justify-between items-center p-4 bg-white border-4 border-gray-100 rounded-2xl">
+              <div>
+                <span className="font-black text-sm block">Skip Past Visits</span>
+                <span className="text-[10px] font-bold text-gray-500">When a first date is in the past, start from the next visit due after today.</span>
+              </div>
+              <button
+                onClick={() => updateSchedulingConfig({ ...schedulingConfig, rollForwardPastDates: !schedulingConfig.rollForwardPastDates })}
+                className={`w-12 h-6 rounded-full relative transition-colors flex-shrink-0 ${schedulingConfig.rollForwardPastDates ? 'bg-brand-secondary' : 'bg-gray-200'}`}
+              >
+                <div className={`absolute top-1 w-4 h-4 bg-white rounded-full shadow-sm transition-transform ${schedulingConfig.rollForwardPastDates ? 'transform translate-x-7' : 'transform translate-x-1'}`}></div>
+              </button>
+            </div>
+            <button onClick={() => { saveAll(); setActiveSettingsView('menu'); }} className="w-full py-4 bg-gray-950 text-white font-black rounded-2xl">SAVE CHANGES</button>
+          </div>
+        </div>
+      );
+    }
+
+    if (activeSettingsView === 'closures') {
+      const weekdayLabels = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+      const formatHoliday = (date: string) => new Date(2000, Number(date.slice(0, 2)) - 1, Number(date.slice(3))).toLocaleDateString([], { month: 'short', day: 'numeric' });
+      return (
+        <div className="p-6">
+          <button onClick={() => setActiveSettingsView('menu')} className="mb-4 flex items-center text-xs font-black uppercase text-gray-400 hover:text-gray-900"><ChevronLeftIcon className="w-4 h-4 mr-1"/> Back</button>
+          <h2 className="text-2xl font-black mb-8">Closures</h2>
+          <div className="space-y-6">
+            <div>
+              <label className="block text-[10px] font-black uppercase mb-2">Closed Every Week</label>
+              <div className="grid grid-cols-7 gap-1">
+                {weekdayLabels.map((label, day) => (
+                  <button key={label} onClick={() => toggleClosedWeekday(day)} className={`py-3 rounded-xl font-black text-[10px] uppercase border-4 transition-all ${closureCalendar.closedWeekdays.includes(day) ? 'bg-gray-950 text-white border-gray-950' : 'bg-white text-gray-500 border-gray-100'}`}>
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div>
+              <label className="block text-[10px] font-black uppercase mb-2">Holidays (Every Year)</label>
+              <div className="space-y-2">
+                {closureCalendar.holidays.map(h => (
+                  <div key={h.date} className="flex justify-between items-center p-3 bg-white border-4 border-gray-100 rounded-2xl">
+                    <span className="font-black text-sm">{formatHoliday(h.date)}{h.name ? ` · ${h.name}` : ''}</span>
+                    <button onClick={() => updateClosureCalendar({ ...closureCalendar, holidays: closureCalendar.holidays.filter(x => x.date !== h.date) })}><TrashIcon className="w-5 h-5 text-gray-400"/></button>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div>
+              <label className="block text-[10px] font-black uppercase mb-2">One-Off Closures</label>
+              <div className="space-y-2">
+                {closureCalendar.closures.length === 0 && <p className="text-xs font-bold text-gray-400">No one-off closures.</p>}
+                {closureCalendar.closures.map(c => (
+                  <div key={c.date} className="flex justify-between items-center p-3 bg-white border-4 border-gray-100 rounded-2xl">
+                    <span className="font-black text-sm">{new Date(`${c.date}T00:00:00`).toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' })}{c.name ? ` · ${c.name}` : ''}</span>
+                    <button onClick={() => updateClosureCalendar({ ...closureCalendar, closures: closureCalendar.closures.filter(x => x.date !== c.date) })}><TrashIcon className="w-5 h-5 text-gray-400"/></button>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="bg-white p-4 rounded-2xl border-4 border-gray-100 space-y-3">
+              <div className="grid grid-cols-2 gap-2">
+                <button onClick={() => setNewClosure({ ...newClosure, kind: 'holiday' })} className={`p-2 rounded-xl border-4 font-black text-[10px] uppercase ${newClosure.kind === 'holiday' ? 'border-brand-primary text-brand-primary' : 'border-gray-50 text-gray-400'}`}>Yearly Holiday</button>
+                <button onClick={() => setNewClosure({ ...newClosure, kind: 'closure' })} className={`p-2 rounded-xl border-4 font-black text-[10px] uppercase ${newClosure.kind === 'closure' ? 'border-brand-primary text-brand-primary' : 'border-gray-50 text-gray-400'}`}>One-Off</button>
+              </div>
+              <input type="date" value={newClosure.date} onChange={e => setNewClosure({ ...newClosure, date: e.target.value })} className="w-full p-3 border-4 border-gray-100 rounded-2xl font-black outline-none focus:border-brand-accent"/>
+              <input type="text" placeholder="Name (optional)" value={newClosure.name} onChange={e => setNewClosure({ ...newClosure, name: e.target.value })} className="w-full p-3 border-4 border-gray-100 rounded-2xl font-black outline-none focus:border-brand-accent"/>
+              <button onClick={addClosureDate} disabled={!newClosure.date} className="w-full py-3 bg-brand-accent text-white font-black rounded-2xl disabled:bg-gray-300">ADD CLOSURE</button>
+            </div>
+            <button onClick={() => { saveAll(); setActiveSettingsView('menu'); }} className="w-full py-4 bg-gray-950 text-white font-black rounded-2xl">SAVE CHANGES</button>
+          </div>
+        </div>
+      );
+    }
+
+    if (activeSettingsView === 'templates') {
+      const salonTemplates = templates.filter(t => t.scope === 'salon');
+      const serviceName = (id: string) => services.find(s => s.id === id)?.name || 'Removed service';
+      return (
+        <div className="p-6">
+          <button onClick={() => setActiveSettingsView('menu')} className="mb-4 flex items-center text-xs font-black uppercase text-gray-400 hover:text-gray-900"><ChevronLeftIcon className="w-4 h-4 mr-1"/> Back</button>
+          <h2 className="text-2xl font-black mb-8">Roadmap Templates</h2>
+          <div className="space-y-6">
+            <div className="space-y-2">
+              {salonTemplates.length === 0 && <p className="text-xs font-bold text-gray-400">No salon templates yet.</p>}
+              {salonTemplates.map(t => (
+                <div key={t.id} className="flex justify-between items-center p-3 bg-white border-4 border-gray-100 rounded-2xl">
+                  <div>
+                    <p className="font-black text-sm">{t.name}</p>
+                    <p className="text-[10px] font-bold text-gray-400">{t.services.map(s => serviceName(s.serviceId)).join(' · ')}</p>
+                  </div>
+                  <button onClick={() => removeSalonTemplate(t.id)}><TrashIcon className="w-5 h-5 text-gray-400"/></button>
+                </div>
+              ))}
+            </div>
+            <div className="bg-white p-4 rounded-2xl border-4 border-gray-100 space-y-3">
+              <input type="text" placeholder="Template name, e.g. Blonde Maintenance" value={newTemplate.name} onChange={e => setNewTemplate({ ...newTemplate, name: e.target.value })} className="w-full p-3 border-4 border-gray-100 rounded-2xl font-black outline-none focus:border-brand-accent"/>
+              <div className="max-h-72 overflow-y-auto space-y-2">
+                {services.map(svc => {
+                  const entry = newTemplate.services[svc.id];
+                  return (
+                    <div key={svc.id} className={`p-3 rounded-xl border-4 ${entry ? 'border-brand-primary' : 'border-gray-50'}`}>
+                      <button onClick={() => toggleTemplateService(svc.id)} className="w-full text-left font-black text-sm">{svc.name}</button>
+                      {entry && (
+                        <div className="grid grid-cols-2 gap-2 mt-2">
+                          <label className="text-[10px] font-black uppercase text-gray-500">Every (weeks)
+                            <input type="number" value={entry.frequency} onChange={e => updateTemplateService(svc.id, { frequency: parseInt(e.target.value, 10) || 1 })} className="w-full p-2 border-4 border-gray-100 rounded-xl font-black text-gray-950"/>
+                          </label>
+                          <label className="text-[10px] font-black uppercase text-gray-500">Starts in (weeks)
+                            <input type="number" value={entry.offsetWeeks} onChange={e => updateTemplateService(svc.id, { offsetWeeks: parseInt(e.target.value, 10) || 0 })} className="w-full p-2 border-4 border-gray-100 rounded-xl font-black text-gray-950"/>
+                          </label>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+              <button onClick={addSalonTemplate} disabled={!newTemplate.name.trim() || Object.keys(newTemplate.services).length === 0} className="w-full py-3 bg-brand-accent text-white font-black rounded-2xl disabled:bg-gray-300">ADD TEMPLATE</button>
+            </div>
+            {templateError && <div className="p-4 bg-red-50 text-red-900 font-black rounded-2xl border-2 border-red-200 text-center">{templateError}</div>}
+          </div>
+        </div>
+      );
+    }
+
     if (activeSettingsView === 'integrations') {
       return (
         <div className="p-6">
@@ -167,12 +400,34 @@ export default function AdminDashboard({ role }: { role: UserRole }) {
           <div className="bg-white p-6 rounded-[32px] border-4 border-gray-100 shadow-sm mb-6">
             <h3 className="font-black text-xl mb-4">Square Sync</h3>
             <p className="text-xs font-bold text-gray-500 mb-6">Synchronize your service catalog, team members, and client records from Square.</p>
-            <button onClick={handleSync} disabled={isSyncing} className="w-full py-5 bg-gray-950 text-white font-black rounded-2xl flex items-center justify-center space-x-3">
+            <button onClick={() => handleSync()} disabled={isSyncing} className="w-full py-5 bg-gray-950 text-white font-black rounded-2xl flex items-center justify-center space-x-3">
               {isSyncing ? <RefreshIcon className="w-6 h-6 animate-spin"/> : <DatabaseIcon className="w-6 h-6"/>}
               <span>{isSyncing ? 'SYNCING...' : 'FORCE SYNC NOW'}</span>
             </button>
+            {catalogIsStale && !catalogPreview && (
+              <div className="mt-3 p-4 bg-yellow-50 border-2 border-yellow-200 rounded-2xl">
+                <p className="text-xs font-bold text-yellow-900 mb-3">The catalog changed in Square since your last sync.</p>
+                <button onClick={() => handleSync()} disabled={isSyncing} className="w-full py-3 bg-yellow-400 text-yellow-950 font-black uppercase text-xs rounded-2xl">
+                  Review Catalog Changes
+                </button>
+              </div>
+            )}
+            {catalogSyncedAt && (
+              <button onClick={() => handleSync(true)} disabled={isSyncing} className="w-full mt-3 py-3 bg-gray-100 text-gray-600 font-black uppercase text-xs rounded-2xl">
+                Recheck Entire Catalog
+              </button>
+            )}
+            <p className="text-[10px] font-bold text-gray-400 mt-3 text-center">
+              {catalogSyncedAt ? `Catalog last synced ${new Date(catalogSyncedAt).toLocaleString()}` : 'Catalog never synced'}
+            </p>
           </div>
           {syncMessage && <div className="p-4 bg-blue-50 text-blue-900 font-black rounded-2xl border-2 border-blue-200 text-center">{syncMessage}</div>}
+          {clientSyncSummary && (
+            <p className="mt-4 text-xs font-bold text-gray-500 text-center">
+              Clients: {clientSyncSummary.created} new, {clientSyncSummary.updated} updated, {clientSyncSummary.unchanged} unchanged
+            </p>
+          )}
+          {catalogPreview && <CatalogSyncPreview preview={catalogPreview} onApply={applyCatalogPreview} onCancel={() => setCatalogPreview(null)} />}
         </div>
       );
     }
@@ -189,6 +444,18 @@ export default function AdminDashboard({ role }: { role: UserRole }) {
             <DatabaseIcon className="w-8 h-8 text-brand-primary"/>
             <span className="text-[10px] font-black uppercase tracking-widest">Integrations</span>
           </button>
+          <button onClick={() => setActiveSettingsView('scheduling')} className="p-6 bg-white border-4 border-gray-100 rounded-3xl flex flex-col items-center justify-center space-y-2 hover:border-brand-accent transition-all">
+            <CalendarIcon className="w-8 h-8 text-brand-primary"/>
+            <span className="text-[10px] font-black uppercase tracking-widest">Scheduling</span>
+          </button>
+          <button onClick={() => setActiveSettingsView('closures')} className="p-6 bg-white border-4 border-gray-100 rounded-3xl flex flex-col items-center justify-center space-y-2 hover:border-brand-accent transition-all">
+            <ClipboardIcon className="w-8 h-8 text-brand-primary"/>
+            <span className="text-[10px] font-black uppercase tracking-widest">Closures</span>
+          </button>
+          <button onClick={() => setActiveSettingsView('templates')} className="p-6 bg-white border-4 border-gray-100 rounded-3xl flex flex-col items-center justify-center space-y-2 hover:border-brand-accent transition-all">
+            <DocumentTextIcon className="w-8 h-8 text-brand-primary"/>
+            <span className="text-[10px] font-black uppercase tracking-widest">Templates</span>
+          </button>
         </div>
         <div className="mt-8">
            <AccountSettings user={user} onLogout={logout} subtitle="System Controller" />
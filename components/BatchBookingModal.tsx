@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import type { GeneratedPlan, PlanAppointment, PlanService, TimePeriod } from '../types';
+import { usePlans } from '../contexts/PlanContext';
+import { useSettings } from '../contexts/SettingsContext';
+import { SquareIntegrationService } from '../services/squareIntegration';
+import { CheckCircleIcon, RefreshIcon } from './icons';
+import { addDays, daysBetween } from '../utils/planScheduler';
+import { salonStartOfDay, toSalonDate } from '../utils/salonDates';
+import { BatchOutcome, BatchResult, MAX_SLIP_DAYS, SEARCH_DAYS_BEFORE, batchIdempotencyKey, pickBestSlot } from '../utils/batchBooking';
+
+interface BatchBookingModalProps {
+  plan: GeneratedPlan;
+  visits: PlanAppointment[];
+  alreadyBookedCount: number;
+  teamMemberId: string;
+  preferredPeriod: TimePeriod;
+  assertCanBookFor: (services: PlanService[], teamMemberId: string) => void;
+  onClose: () => void;
+}
+
+const OUTCOME_STYLES: Record<BatchOutcome, { label: string; className: string }> = {
+  booked: { label: 'Booked', className: 'bg-green-50 text-green-900 border-green-300' },
+  slipped: { label: 'Slipped', className: 'bg-amber-50 text-amber-900 border-amber-300' },
+  failed: { label: 'Failed', className: 'bg-red-50 text-red-900 border-red-300' },
+};
+
+const BatchBookingModal: React.FC<BatchBookingModalProps> = ({ plan, visits, alreadyBookedCount, teamMemberId, preferredPeriod, assertCanBookFor, onClose }) => {
+  const [results, setResults] = useState<BatchResult[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isDone, setIsDone] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { saveBooking } = usePlans();
+  const { activeLocationId } = useSettings();
+
+  // One visit at a time: Square rate-limits bursts, and each result shows as it lands.
+  const runBatch = async () => {
+    setIsRunning(true);
+    setError(null);
+    setResults([]);
+    try {
+      const loc = await SquareIntegrationService.fetchLocation(plan.locationId || activeLocationId);
+      const customerId = plan.client.externalId || await SquareIntegrationService.searchCustomer(plan.client.name);
+      if (!customerId) throw new Error(`Could not find client "${plan.client.name}" in Square.`);
+
+      for (const visit of visits) {
+        let result: BatchResult;
+        try {
+          assertCanBookFor(visit.services, teamMemberId);
+          const leadService = visit.services[0];
+          if (!leadService?.id) throw new Error('A service in this visit is missing a valid Square ID.');
+          // The visit is booked on the lead service's team member; bookings record who that is.
+          const bookedTeamMemberId = leadService.stylistId || teamMemberId;
+
+          const now = new Date();
+          const windowStart = salonStartOfDay(addDays(visit.date, -SEARCH_DAYS_BEFORE), loc.timezone);
+          const slots = await SquareIntegrationService.findAvailableSlots({
+            locationId: loc.id,
+            startAt: SquareIntegrationService.formatDate(windowStart < now ? now : windowStart, loc.timezone),
+            teamMemberId: bookedTeamMemberId,
+            serviceVariationId: leadService.id,
+          });
+          const slot = pickBestSlot(slots, visit.date, preferredPeriod, loc.timezone);
+          if (!slot) throw new Error(`No availability within ${MAX_SLIP_DAYS} days.`);
+
+          const response = await SquareIntegrationService.createAppointment({
+            locationId: loc.id,
+            startAt: slot,
+            customerId,
+            teamMemberId,
+            services: visit.services,
+            idempotencyKey: batchIdempotencyKey(plan.id, visit),
+          });
+          if (response.booking) {
+            await saveBooking({
+              id: response.booking.id,
+              client_id: plan.client.id,
+              stylist_id: bookedTeamMemberId,
+              start_time: slot,
+              status: response.booking.status,
+              version: response.booking.version ?? null,
+              services: visit.services.map(s => ({ variation_id: s.id, name: s.name })),
+              source: 'square',
+              location_id: loc.id,
+            });
+          }
+
+          const slipDays = daysBetween(visit.date, toSalonDate(new Date(slot), loc.timezone));
+          result = { visit, outcome: slipDays === 0 ? 'booked' : 'slipped', slot, slipDays };
+        } catch (e: any) {
+          console.error('Batch booking failed for visit:', e);
+          result = { visit, outcome: 'failed', error: e.message || 'Booking failed.' };
+        }
+        setResults(prev => [...prev, result]);
+      }
+      setIsDone(true);
+    } catch (e: any) {
+      setError(e.message || 'Could not start booking.');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const count = (outcome: BatchOutcome) => results.filter(r => r.outcome === outcome).length;
+
+  return (
+    <div className="fixed inset-0 bg-black/90 z-[100] flex items-center justify-center p-6 backdrop-blur-md">
+      <div className="bg-white w-full max-w-sm rounded-[40px] shadow-2xl relative overflow-hidden border-4 border-gray-950 flex flex-col max-h-[90vh]">
+        <div className="bg-gray-950 text-white p-6">
+          <h2 className="text-2xl font-black tracking-tight">Book Entire Roadmap</h2>
+          <p className="text-[10px] font-black uppercase tracking-widest text-gray-400 mt-1">{plan.client.name} · {visits.length} visits to book</p>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-3">
+          {results.length === 0 && !isRunning && (
+            <div className="text-sm font-bold text-gray-600 space-y-2">
+              <p>Each future visit is booked at the open slot closest to its planned day, preferring {preferredPeriod === 'all' ? 'any time of day' : `the ${preferredPeriod}`}.</p>
+              <p>Visits with no opening within {MAX_SLIP_DAYS} days are reported as failed.</p>
+              {alreadyBookedCount > 0 && <p className="text-gray-400">{alreadyBookedCount} visits already have a booking and are skipped.</p>}
+            </div>
+          )}
+
+          {results.length > 0 && (
+            <div className="flex space-x-2 mb-2">
+              {(Object.keys(OUTCOME_STYLES) as BatchOutcome[]).map(o => (
+                <span key={o} className={`flex-1 text-center text-[10px] font-black uppercase px-2 py-1 rounded-full border-2 ${OUTCOME_STYLES[o].className}`}>{count(o)} {OUTCOME_STYLES[o].label}</span>
+              ))}
+            </div>
+          )}
+
+          {results.map((r, i) => (
+            <div key={i} className="flex justify-between items-center text-sm border-b-2 border-gray-50 pb-2">
+              <div className="min-w-0">
+                <p className="font-black text-gray-950">{r.visit.date.toLocaleDateString([], { month: 'short', day: 'numeric' })}</p>
+                <p className="text-[10px] font-bold text-gray-500 truncate">
+                  {r.slot
+                    ? `${new Date(r.slot).toLocaleString([], { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}${r.slipDays ? ` (${r.slipDays > 0 ? '+' : ''}${r.slipDays}d)` : ''}`
+                    : r.error}
+                </p>
+              </div>
+              <span className={`text-[10px] font-black uppercase px-2 py-0.5 rounded-full border-2 ${OUTCOME_STYLES[r.outcome].className}`}>{OUTCOME_STYLES[r.outcome].label}</span>
+            </div>
+          ))}
+
+          {isRunning && (
+            <div className="flex items-center justify-center py-4 text-xs font-black uppercase text-gray-500">
+              <RefreshIcon className="w-5 h-5 animate-spin mr-2" /> Booking {Math.min(results.length + 1, visits.length)} of {visits.length}
+            </div>
+          )}
+          {error && <p className="text-xs font-black text-red-600 text-center">{error}</p>}
+        </div>
+
+        <div className="p-4 border-t-4 border-gray-100 space-y-2">
+          {!isDone && (
+            <button onClick={runBatch} disabled={isRunning || visits.length === 0} className="w-full py-4 rounded-2xl bg-gray-950 text-white font-black uppercase disabled:bg-gray-300 flex items-center justify-center space-x-2">
+              <CheckCircleIcon className="w-5 h-5" />
+              <span>{isRunning ? 'Booking...' : error ? 'Try Again' : `Book ${visits.length} Visits`}</span>
+            </button>
+          )}
+          <button onClick={onClose} disabled={isRunning} className="w-full py-3 rounded-2xl bg-gray-100 font-black uppercase text-gray-600 disabled:opacity-50">
+            {isDone ? 'Done' : 'Cancel'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchBookingModal;
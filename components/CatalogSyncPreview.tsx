@@ -0,0 +1,78 @@
+import React from 'react';
+import type { CatalogChange, CatalogChangeKind, CatalogSyncPreview as Preview } from '../utils/catalogSync';
+import { CheckCircleIcon } from './icons';
+
+interface CatalogSyncPreviewProps {
+  preview: Preview;
+  onApply: () => void;
+  onCancel: () => void;
+}
+
+const KIND_STYLES: Record<CatalogChangeKind, { label: string; className: string }> = {
+  added: { label: 'Added', className: 'bg-green-50 text-green-900 border-green-300' },
+  changed: { label: 'Changed', className: 'bg-blue-50 text-blue-900 border-blue-300' },
+  archived: { label: 'Archived', className: 'bg-amber-50 text-amber-900 border-amber-300' },
+  deleted: { label: 'Deleted', className: 'bg-red-50 text-red-900 border-red-300' },
+};
+
+const describeChange = (change: CatalogChange) => {
+  const { service, previous } = change;
+  if (change.kind !== 'changed' || !previous) return `${service.category} · $${service.cost}`;
+  return (change.fields || []).map(f => {
+    if (f === 'cost') return `price $${previous.cost} → $${service.cost}`;
+    if (f === 'duration') return `duration ${previous.duration} → ${service.duration} min`;
+    if (f === 'version') return 'new version';
+    return f;
+  }).join(', ');
+};
+
+// Square changes to the service menu, shown before they replace anything.
+const CatalogSyncPreview: React.FC<CatalogSyncPreviewProps> = ({ preview, onApply, onCancel }) => {
+  const count = (kind: CatalogChangeKind) => preview.changes.filter(c => c.kind === kind).length;
+
+  return (
+    <div className="fixed inset-0 bg-black/90 z-[100] flex items-center justify-center p-6 backdrop-blur-md">
+      <div className="bg-white w-full max-w-sm rounded-[40px] shadow-2xl relative overflow-hidden border-4 border-gray-950 flex flex-col max-h-[90vh]">
+        <div className="bg-gray-950 text-white p-6">
+          <h2 className="text-2xl font-black tracking-tight">Review Catalog Changes</h2>
+          <p className="text-[10px] font-black uppercase tracking-widest text-gray-400 mt-1">
+            {preview.mode === 'full' ? 'Full catalog' : 'Changes since last sync'} · {preview.changes.length} changes
+          </p>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-3">
+          <div className="grid grid-cols-2 gap-2 mb-2">
+            {(Object.keys(KIND_STYLES) as CatalogChangeKind[]).map(k => (
+              <span key={k} className={`text-center text-[10px] font-black uppercase px-2 py-1 rounded-full border-2 ${KIND_STYLES[k].className}`}>{count(k)} {KIND_STYLES[k].label}</span>
+            ))}
+          </div>
+
+          {preview.changes.map(change => (
+            <div key={`${change.kind}-${change.service.id}`} className="flex justify-between items-center text-sm border-b-2 border-gray-50 pb-2">
+              <div className="min-w-0">
+                <p className="font-black text-gray-950 truncate">{change.service.name}</p>
+                <p className="text-[10px] font-bold text-gray-500 truncate">{describeChange(change)}</p>
+              </div>
+              <span className={`text-[10px] font-black uppercase px-2 py-0.5 rounded-full border-2 ${KIND_STYLES[change.kind].className}`}>{KIND_STYLES[change.kind].label}</span>
+            </div>
+          ))}
+          {count('archived') + count('deleted') > 0 && (
+            <p className="text-xs font-bold text-gray-500">Archived and deleted services leave the menu. Existing plans keep them.</p>
+          )}
+        </div>
+
+        <div className="p-4 border-t-4 border-gray-100 space-y-2">
+          <button onClick={onApply} className="w-full py-4 rounded-2xl bg-gray-950 text-white font-black uppercase flex items-center justify-center space-x-2">
+            <CheckCircleIcon className="w-5 h-5" />
+            <span>Apply {preview.changes.length} Changes</span>
+          </button>
+          <button onClick={onCancel} className="w-full py-3 rounded-2xl bg-gray-100 font-black uppercase text-gray-600">
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CatalogSyncPreview;
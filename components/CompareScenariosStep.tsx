@@ -0,0 +1,155 @@
+import React, { useMemo, useState } from 'react';
+import type { Service, PlanDetails, GeneratedPlan } from '../types';
+import { useSettings } from '../contexts/SettingsContext';
+import { ensureAccessibleColor } from '../utils/ensureAccessibleColor';
+import { getMaintenanceStep, scaleSchedule, setMaintenanceInterval } from '../utils/planScheduler';
+import { getQualifyingTier } from '../utils/membershipTiers';
+
+interface CompareScenariosStepProps {
+  selectedServices: Service[];
+  planDetails: PlanDetails;
+  previewPlan: (details: PlanDetails) => GeneratedPlan | null;
+  onSelect: (details: PlanDetails) => void;
+  onBack: () => void;
+}
+
+interface Scenario {
+  id: string;
+  name: string;
+  details: PlanDetails;
+}
+
+const MAX_SCENARIOS = 3;
+
+const scaleDetails = (details: PlanDetails, factor: number): PlanDetails =>
+  Object.fromEntries(Object.entries(details).map(([id, detail]) => [id, scaleSchedule(detail, factor)]));
+
+const CompareScenariosStep: React.FC<CompareScenariosStepProps> = ({ selectedServices, planDetails, previewPlan, onSelect, onBack }) => {
+  const { branding, membershipConfig } = useSettings();
+  // Starts with the stylist's frequencies as "Premium" and a stretched-out "Essential" alternative.
+  const [scenarios, setScenarios] = useState<Scenario[]>(() => [
+    { id: 'essential', name: 'Essential', details: scaleDetails(planDetails, 1.5) },
+    { id: 'premium', name: 'Premium', details: planDetails },
+  ]);
+
+  const previews = useMemo(
+    () => scenarios.map(s => previewPlan(s.details)),
+    [scenarios, previewPlan]
+  );
+
+  const formatCurrency = (val: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(val || 0);
+
+  const updateScenario = (id: string, update: (s: Scenario) => Scenario) => {
+    setScenarios(prev => prev.map(s => s.id === id ? update(s) : s));
+  };
+
+  const handleIntervalChange = (scenarioId: string, serviceId: string, interval: number) => {
+    updateScenario(scenarioId, s => ({
+      ...s,
+      details: { ...s.details, [serviceId]: setMaintenanceInterval(s.details[serviceId], interval || 1) },
+    }));
+  };
+
+  const addScenario = () => {
+    setScenarios(prev => [...prev, { id: `scenario_${Date.now()}`, name: `Option ${prev.length + 1}`, details: planDetails }]);
+  };
+
+  const removeScenario = (id: string) => {
+    setScenarios(prev => prev.filter(s => s.id !== id));
+  };
+
+  return (
+    <div className="flex flex-col h-full p-4 pb-12">
+      <div className="text-center p-4">
+        <div className="relative w-full h-2 bg-gray-200 mb-4 rounded-full">
+            <div className="absolute top-0 left-0 h-2 bg-brand-primary rounded-full" style={{width: '83%'}}></div>
+        </div>
+        <h1 className="text-2xl font-bold text-gray-900">Compare Options</h1>
+        <p className="text-sm text-gray-500">Walk the client through each option and save the one they pick.</p>
+      </div>
+
+      <div className="flex-grow overflow-auto p-4">
+        <div className="flex space-x-3 min-w-max">
+          {scenarios.map((scenario, index) => {
+            const plan = previews[index];
+            const tier = plan && membershipConfig.enabled && membershipConfig.tiers.length
+              ? getQualifyingTier(plan.averageMonthlySpend, membershipConfig.tiers)
+              : null;
+            return (
+              <div key={scenario.id} className="w-48 p-4 rounded-lg bg-gray-50 border border-gray-200 flex flex-col">
+                <div className="flex items-center mb-3">
+                    <input
+                        value={scenario.name}
+                        onChange={(e) => updateScenario(scenario.id, s => ({ ...s, name: e.target.value }))}
+                        className="flex-grow min-w-0 p-1 border-b border-gray-300 bg-transparent font-bold text-lg text-gray-900"
+                    />
+                    {scenarios.length > 1 && (
+                        <button onClick={() => removeScenario(scenario.id)} className="text-gray-400 font-bold px-1">&times;</button>
+                    )}
+                </div>
+
+                <div className="space-y-2 mb-4">
+                    {selectedServices.map(service => {
+                        const step = scenario.details[service.id] && getMaintenanceStep(scenario.details[service.id]);
+                        if (!step) return null;
+                        return (
+                            <div key={service.id} className="text-sm">
+                                <p className="font-medium text-gray-700 truncate">{service.name}</p>
+                                <div className="flex items-center space-x-1">
+                                    <span className="text-gray-500">Every</span>
+                                    <input
+                                        type="number"
+                                        value={step.interval}
+                                        onChange={(e) => handleIntervalChange(scenario.id, service.id, parseInt(e.target.value, 10))}
+                                        className="w-14 p-1 border border-gray-300 rounded text-center font-bold bg-white text-gray-900"
+                                    />
+                                    <span className="text-gray-500">{step.unit}</span>
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+
+                {plan && (
+                    <div className="space-y-1 text-sm border-t border-gray-200 pt-3 mb-4">
+                        <div className="flex justify-between"><span className="text-gray-500">Total</span><span className="font-bold text-gray-900">{formatCurrency(plan.totalCost)}</span></div>
+                        <div className="flex justify-between"><span className="text-gray-500">Visits</span><span className="font-bold text-gray-900">{plan.totalYearlyAppointments}</span></div>
+                        <div className="flex justify-between"><span className="text-gray-500">Monthly</span><span className="font-bold text-gray-900">{formatCurrency(plan.averageMonthlySpend)}</span></div>
+                        {tier && (
+                            <div className="flex justify-between"><span className="text-gray-500">Tier</span><span className="font-bold" style={{ color: tier.color }}>{tier.name}</span></div>
+                        )}
+                    </div>
+                )}
+
+                <button
+                    onClick={() => onSelect(scenario.details)}
+                    disabled={!plan}
+                    className="mt-auto w-full font-bold py-2 px-3 rounded-full shadow disabled:bg-gray-300"
+                    style={{ backgroundColor: branding.secondaryColor, color: ensureAccessibleColor('#FFFFFF', branding.secondaryColor, '#1F2937') }}
+                >
+                    Choose
+                </button>
+              </div>
+            );
+          })}
+          {scenarios.length < MAX_SCENARIOS && (
+            <button onClick={addScenario} className="w-32 p-4 rounded-lg border-2 border-dashed border-gray-300 text-gray-500 font-bold">
+                Add Option
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="p-4 mt-auto space-y-2">
+        <button
+          onClick={onBack}
+          className="w-full bg-transparent text-gray-600 font-semibold py-2 px-4"
+        >
+          Back
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CompareScenariosStep;
@@ -0,0 +1,30 @@
+import React from 'react';
+import { useSettings } from '../contexts/SettingsContext';
+
+interface LocationPickerProps {
+  className?: string;
+}
+
+// Which store this device books into. Hidden for single-location salons.
+const LocationPicker: React.FC<LocationPickerProps> = ({ className = '' }) => {
+  const { locations, activeLocationId, updateActiveLocation } = useSettings();
+
+  if (locations.length < 2) return null;
+
+  return (
+    <div className={className}>
+      <label className="text-xs font-black text-gray-500 uppercase tracking-widest mb-2 block">Location</label>
+      <select
+        value={activeLocationId || ''}
+        onChange={e => updateActiveLocation(e.target.value)}
+        className="w-full p-4 bg-white border-4 border-gray-100 rounded-2xl font-black text-gray-950 shadow-sm outline-none"
+      >
+        {locations.map(l => (
+          <option key={l.id} value={l.id}>{l.address ? `${l.name} · ${l.address}` : l.name}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default LocationPicker;
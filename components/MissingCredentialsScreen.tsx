@@ -1,4 +1,5 @@
 import React from 'react';
+import { SquareIntegrationService } from '../services/squareIntegration';
 
 const MissingCredentialsScreen = () => {
   // FIX: Revert to import.meta.env, the standard Vite mechanism for environment variables.
@@ -8,13 +9,6 @@ const MissingCredentialsScreen = () => {
     (import.meta as any).env.VITE_SQUARE_CLIENT_ID;
   // FIX: Cast `import.meta` to `any` to resolve TypeScript error "Property 'env' does not exist on type 'ImportMeta'".
   const squareRedirectUri = (import.meta as any).env.VITE_SQUARE_REDIRECT_URI;
-  // FIX: Cast `import.meta` to `any` to resolve TypeScript error "Property 'env' does not exist on type 'ImportMeta'".
-  const squareEnv = ((import.meta as any).env.VITE_SQUARE_ENV || 'production').toLowerCase();
-
-  // FIX: Cast `import.meta` to `any` to resolve TypeScript error "Property 'env' does not exist on type 'ImportMeta'".
-  const scopes =
-    ((import.meta as any).env.VITE_SQUARE_OAUTH_SCOPES as string | undefined) ??
-    'MERCHANT_PROFILE_READ EMPLOYEES_READ ITEMS_READ CUSTOMERS_READ CUSTOMERS_WRITE APPOINTMENTS_READ APPOINTMENTS_ALL_READ APPOINTMENTS_WRITE SUBSCRIPTIONS_READ SUBSCRIPTIONS_WRITE';
 
   const startOAuth = () => {
     if (!squareAppId || !squareRedirectUri) {
@@ -22,20 +16,10 @@ const MissingCredentialsScreen = () => {
       return;
     }
 
-    const base =
-      squareEnv === 'sandbox'
-        ? 'https://connect.squareupsandbox.com/oauth2/authorize'
-        : 'https://connect.squareup.com/oauth2/authorize';
-
-    const url =
-      `${base}` +
-      `?client_id=${encodeURIComponent(squareAppId)}` +
-      `&response_type=code` +
-      `&scope=${encodeURIComponent(scopes)}` +
-      `&redirect_uri=${encodeURIComponent(squareRedirectUri)}` +
-      `&session=false`;
-
-    window.location.href = url;
+    SquareIntegrationService.startConnect().catch((e: any) => {
+      console.error('Square connect failed to start:', e);
+      alert(e.message || 'Could not start Square connect.');
+    });
   };
 
   return (
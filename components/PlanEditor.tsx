@@ -1,11 +1,262 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
+import type { GeneratedPlan, IntervalUnit } from '../types';
+import { useSettings } from '../contexts/SettingsContext';
+import { usePlans } from '../contexts/PlanContext';
+import { SquareIntegrationService } from '../services/squareIntegration';
+import { ChevronLeftIcon, TrashIcon, RefreshIcon } from './icons';
+import { localDateKey, parseLocalDateKey, ScheduleStep } from '../utils/planScheduler';
+import {
+  addServiceToVisit,
+  assignServiceStylist,
+  changeFrequencyFrom,
+  deleteVisit,
+  inferServiceStep,
+  moveVisit,
+  reflowFromBooking,
+  removeServiceFromVisit,
+} from '../utils/planEditing';
+import { diffPlans } from '../utils/planDiff';
+import { bookingRangeFor } from '../utils/planAdherence';
+import { toSalonDate } from '../utils/salonDates';
 
-const PlanEditor = ({ plan }) => {
-  const [loading, setLoading] = useState(false);
+interface PlanEditorProps {
+  plan: GeneratedPlan;
+  onClose: () => void;
+  onSaved?: (plan: GeneratedPlan) => void;
+}
+
+const INTERVAL_UNITS: IntervalUnit[] = ['days', 'weeks', 'months'];
+
+interface BookingOption {
+  id: string;
+  start: string;
+  source: 'saved' | 'square';
+}
+
+const PlanEditor: React.FC<PlanEditorProps> = ({ plan, onClose, onSaved }) => {
+  const [draft, setDraft] = useState<GeneratedPlan>(plan);
+  const [frequencyEdit, setFrequencyEdit] = useState<{ index: number; serviceId: string; step: ScheduleStep } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+  const { services: allServices, stylists, closureCalendar, salonTimezone, activeLocationId } = useSettings();
+  const { savePlan, getClientBookings } = usePlans();
+  const [squareBookings, setSquareBookings] = useState<BookingOption[]>([]);
+  const [isLoadingSquare, setIsLoadingSquare] = useState(false);
+
+  const isDirty = draft !== plan;
+  const changes = useMemo(() => (isDirty ? diffPlans(plan, draft).changes : []), [plan, draft, isDirty]);
+
+  const bookingOptions = useMemo(() => {
+    const saved: BookingOption[] = getClientBookings(plan.client.id).map(b => ({ id: b.id, start: b.start_time, source: 'saved' }));
+    const extra = squareBookings.filter(sq => !saved.some(b => b.id === sq.id));
+    return [...saved, ...extra].sort((a, b) => a.start.localeCompare(b.start));
+  }, [getClientBookings, plan.client.id, squareBookings]);
+
+  // Bookings made directly in Square never reach our bookings table.
+  const loadSquareBookings = async () => {
+    if (!plan.client.externalId) {
+      setError('This client is not linked to a Square customer.');
+      return;
+    }
+    setIsLoadingSquare(true);
+    setError(null);
+    try {
+      const range = bookingRangeFor([plan]);
+      const loc = await SquareIntegrationService.fetchLocation(plan.locationId || activeLocationId);
+      const all = range ? await SquareIntegrationService.fetchAllBookings(loc.id, range) : [];
+      setSquareBookings(all
+        .filter(b => b.customer_id === plan.client.externalId && !String(b.status || '').startsWith('CANCELLED'))
+        .map(b => ({ id: b.id, start: b.start_at, source: 'square' })));
+    } catch (e: any) {
+      setError(e.message || 'Could not load Square bookings.');
+    } finally {
+      setIsLoadingSquare(false);
+    }
+  };
+
+  const applyBooking = (index: number, bookingId: string) => {
+    const booking = bookingOptions.find(b => b.id === bookingId);
+    if (!booking) return;
+    setDraft(reflowFromBooking(draft, index, toSalonDate(new Date(booking.start), salonTimezone), closureCalendar));
+  };
+  const formatCurrency = (val: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(val || 0);
+
+  const startFrequencyEdit = (index: number, serviceId: string) => {
+    setFrequencyEdit({ index, serviceId, step: inferServiceStep(draft, serviceId) || { interval: 6, unit: 'weeks' } });
+  };
+
+  const applyFrequencyEdit = () => {
+    if (!frequencyEdit) return;
+    setDraft(changeFrequencyFrom(draft, frequencyEdit.serviceId, frequencyEdit.index, frequencyEdit.step, closureCalendar));
+    setFrequencyEdit(null);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const saved = await savePlan(draft, reason.trim() || 'Edited roadmap');
+      onSaved?.(saved);
+      onClose();
+    } catch (e: any) {
+      console.error('Failed to save plan edits:', e);
+      setError(e.message || 'Could not save changes.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
 
   return (
-    <div className="p-4 text-sm text-gray-500">
-      Visual editor temporarily disabled.
+    <div className="flex flex-col h-full bg-brand-bg">
+      <div className="flex-grow p-4 overflow-y-auto text-gray-950">
+        <button onClick={onClose} className="mb-4 flex items-center text-xs font-black uppercase text-gray-400 hover:text-gray-900"><ChevronLeftIcon className="w-4 h-4 mr-1"/> Back</button>
+        <div className="mb-6 border-b-2 border-gray-100 pb-4">
+            <h1 className="text-2xl font-black text-gray-950 tracking-tighter leading-none mb-1">Edit Roadmap</h1>
+            <p className="text-base font-black text-gray-900 uppercase tracking-widest">{plan.client.name}</p>
+        </div>
+
+        <div className="grid grid-cols-3 gap-3 mb-6">
+            <div className="bg-white p-4 rounded-3xl border-4 border-gray-100 shadow-sm">
+                <p className="text-[10px] font-black uppercase text-gray-500 tracking-widest">Total</p>
+                <p className="text-xl font-black">{formatCurrency(draft.totalCost)}</p>
+            </div>
+            <div className="bg-white p-4 rounded-3xl border-4 border-gray-100 shadow-sm">
+                <p className="text-[10px] font-black uppercase text-gray-500 tracking-widest">Monthly</p>
+                <p className="text-xl font-black">{formatCurrency(draft.averageMonthlySpend)}</p>
+            </div>
+            <div className="bg-white p-4 rounded-3xl border-4 border-gray-100 shadow-sm">
+                <p className="text-[10px] font-black uppercase text-gray-500 tracking-widest">Visits</p>
+                <p className="text-xl font-black">{draft.totalYearlyAppointments}</p>
+            </div>
+        </div>
+
+        {changes.length > 0 && (
+            <p className="mb-4 text-[10px] font-black uppercase tracking-widest text-gray-500">
+                Unsaved: {(['moved', 'added', 'removed', 'price'] as const).map(kind => `${changes.filter(c => c.kind === kind).length} ${kind === 'price' ? 'price changes' : kind}`).join(' · ')}
+            </p>
+        )}
+
+        <div className="mb-6 flex justify-between items-center">
+            <p className="text-[10px] font-black uppercase tracking-widest text-gray-500">{bookingOptions.length} bookings to reflow from</p>
+            <button onClick={loadSquareBookings} disabled={isLoadingSquare} className="text-[10px] font-black uppercase tracking-widest text-gray-500 underline disabled:opacity-50">
+                {isLoadingSquare ? 'Checking...' : 'Check Square'}
+            </button>
+        </div>
+
+        <div className="space-y-4">
+            {draft.appointments.map((visit, index) => {
+                const addable = allServices.filter(s => !visit.services.some(v => v.id === s.id));
+                return (
+                    <div key={`${visit.date.getTime()}-${index}`} className="bg-white p-4 rounded-3xl border-4 border-gray-100 shadow-sm">
+                        <div className="flex justify-between items-center mb-3">
+                            <input
+                                type="date"
+                                value={localDateKey(visit.date)}
+                                onChange={e => e.target.value && setDraft(moveVisit(draft, index, parseLocalDateKey(e.target.value)))}
+                                className="p-2 border-4 border-gray-100 rounded-2xl font-black text-gray-950 outline-none focus:border-brand-accent"
+                            />
+                            <button onClick={() => setDraft(deleteVisit(draft, index))} title="Delete visit"><TrashIcon className="w-5 h-5 text-gray-400"/></button>
+                        </div>
+
+                        <div className="space-y-2">
+                            {visit.services.map(service => {
+                                const isEditingFrequency = frequencyEdit?.index === index && frequencyEdit.serviceId === service.id;
+                                return (
+                                    <div key={service.id} className="p-3 bg-gray-50 rounded-2xl">
+                                        <div className="flex justify-between items-center">
+                                            <span className="font-black text-sm">{service.name}</span>
+                                            <div className="flex items-center space-x-3">
+                                                <span className="text-xs font-bold text-gray-500">{formatCurrency(service.cost)}</span>
+                                                <button onClick={() => startFrequencyEdit(index, service.id)} title="Change frequency from here"><RefreshIcon className="w-4 h-4 text-gray-400"/></button>
+                                                <button onClick={() => setDraft(removeServiceFromVisit(draft, index, service.id))} className="text-gray-400 font-black">&times;</button>
+                                            </div>
+                                        </div>
+                                        {stylists.length > 0 && (
+                                            <select
+                                                value={service.stylistId || ''}
+                                                onChange={e => setDraft(assignServiceStylist(draft, allServices.find(s => s.id === service.id) || service, stylists.find(s => s.id === e.target.value) || null))}
+                                                className="mt-2 p-1 border-2 border-gray-100 rounded-xl font-black text-[10px] uppercase text-gray-500 bg-white"
+                                                title="Performed by (every visit)"
+                                            >
+                                                <option value="">{draft.stylistName}</option>
+                                                {stylists.filter(s => s.id !== draft.stylistId).map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                                            </select>
+                                        )}
+                                        {isEditingFrequency && frequencyEdit && (
+                                            <div className="mt-3 flex items-center space-x-2 text-xs font-black">
+                                                <span className="uppercase text-gray-500">From here, every</span>
+                                                <input
+                                                    type="number"
+                                                    value={frequencyEdit.step.interval}
+                                                    onChange={e => setFrequencyEdit({ ...frequencyEdit, step: { ...frequencyEdit.step, interval: Math.max(1, parseInt(e.target.value, 10) || 1) } })}
+                                                    className="w-14 p-2 border-4 border-gray-100 rounded-xl text-center text-gray-950"
+                                                />
+                                                <select
+                                                    value={frequencyEdit.step.unit}
+                                                    onChange={e => setFrequencyEdit({ ...frequencyEdit, step: { ...frequencyEdit.step, unit: e.target.value as IntervalUnit } })}
+                                                    className="p-2 border-4 border-gray-100 rounded-xl bg-white text-gray-950"
+                                                >
+                                                    {INTERVAL_UNITS.map(u => <option key={u} value={u}>{u}</option>)}
+                                                </select>
+                                                <button onClick={applyFrequencyEdit} className="px-3 py-2 bg-gray-950 text-white rounded-xl">APPLY</button>
+                                                <button onClick={() => setFrequencyEdit(null)} className="text-gray-400">CANCEL</button>
+                                            </div>
+                                        )}
+                                    </div>
+                                );
+                            })}
+                        </div>
+
+                        {bookingOptions.length > 0 && (
+                            <select
+                                value=""
+                                onChange={e => applyBooking(index, e.target.value)}
+                                className="mt-3 w-full p-2 border-4 border-gray-100 rounded-2xl font-black text-xs text-gray-500 bg-white"
+                            >
+                                <option value="">Booked on another day? Reflow from booking</option>
+                                {bookingOptions.map(b => (
+                                    <option key={b.id} value={b.id}>
+                                        {new Date(b.start).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })}{b.source === 'square' ? ' (Square)' : ''}
+                                    </option>
+                                ))}
+                            </select>
+                        )}
+                        {addable.length > 0 && (
+                            <select
+                                value=""
+                                onChange={e => {
+                                    const service = allServices.find(s => s.id === e.target.value);
+                                    const assigneeId = draft.details?.[e.target.value]?.stylistId;
+                                    if (service) setDraft(addServiceToVisit(draft, index, service, stylists.find(s => s.id === assigneeId)));
+                                }}
+                                className="mt-3 w-full p-2 border-4 border-dashed border-gray-100 rounded-2xl font-black text-xs text-gray-500 bg-white"
+                            >
+                                <option value="">+ Add service to this visit</option>
+                                {addable.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                            </select>
+                        )}
+                    </div>
+                );
+            })}
+            {draft.appointments.length === 0 && <p className="text-center text-sm font-bold text-gray-400">This roadmap has no visits.</p>}
+        </div>
+      </div>
+
+      <div className="p-4 bg-white border-t-4 border-gray-100 space-y-2">
+        {error && <p className="text-red-500 text-xs font-black text-center">{error}</p>}
+        <input
+            type="text"
+            placeholder="Reason for change (optional)"
+            value={reason}
+            onChange={e => setReason(e.target.value)}
+            className="w-full p-3 border-4 border-gray-100 rounded-2xl font-black text-sm outline-none focus:border-brand-accent"
+        />
+        <button onClick={handleSave} disabled={!isDirty || isSaving} className="w-full py-4 bg-gray-950 text-white font-black rounded-2xl disabled:bg-gray-300">
+            {isSaving ? 'SAVING...' : 'SAVE CHANGES'}
+        </button>
+        <button onClick={() => setDraft(plan)} disabled={!isDirty} className="w-full py-2 font-black text-xs uppercase text-gray-400 disabled:opacity-50">Discard Edits</button>
+      </div>
     </div>
   );
 };
@@ -0,0 +1,143 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { GeneratedPlan, PlanRevision } from '../types';
+import { usePlans } from '../contexts/PlanContext';
+import { ChevronLeftIcon, RefreshIcon } from './icons';
+import { parseLocalDateKey } from '../utils/planScheduler';
+import { diffPlans, VisitChangeKind } from '../utils/planDiff';
+
+interface PlanRevisionHistoryProps {
+  plan: GeneratedPlan;
+  onClose: () => void;
+  onRestored?: (plan: GeneratedPlan) => void;
+}
+
+const CHANGE_STYLES: Record<VisitChangeKind, { label: string; className: string }> = {
+  added: { label: 'Added', className: 'bg-green-50 text-green-900 border-green-300' },
+  removed: { label: 'Removed', className: 'bg-red-50 text-red-900 border-red-300' },
+  moved: { label: 'Moved', className: 'bg-amber-50 text-amber-900 border-amber-300' },
+  price: { label: 'Price', className: 'bg-blue-50 text-blue-900 border-blue-300' },
+};
+
+const PlanRevisionHistory: React.FC<PlanRevisionHistoryProps> = ({ plan, onClose, onRestored }) => {
+  const [revisions, setRevisions] = useState<PlanRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [fromId, setFromId] = useState<string | null>(null);
+  const [toId, setToId] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { getPlanRevisions, restoreRevision } = usePlans();
+
+  const loadRevisions = async () => {
+    setIsLoading(true);
+    const list = await getPlanRevisions(plan.id);
+    setRevisions(list);
+    setToId(list[0]?.id || null);
+    setFromId(list[1]?.id || null);
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadRevisions();
+  }, [plan.id]);
+
+  const fromRevision = revisions.find(r => r.id === fromId);
+  const toRevision = revisions.find(r => r.id === toId);
+  const diff = useMemo(
+    () => (fromRevision && toRevision ? diffPlans(fromRevision.plan, toRevision.plan) : null),
+    [fromRevision, toRevision]
+  );
+
+  const formatCurrency = (val: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(val || 0);
+  const formatDelta = (val: number) => `${val > 0 ? '+' : val < 0 ? '-' : ''}${formatCurrency(Math.abs(val))}`;
+  const formatDay = (key: string) => parseLocalDateKey(key).toLocaleDateString([], { month: 'short', day: 'numeric' });
+
+  const handleRestore = async (revision: PlanRevision) => {
+    setRestoringId(revision.id);
+    setError(null);
+    try {
+      const restored = await restoreRevision(revision);
+      onRestored?.(restored);
+      await loadRevisions();
+    } catch (e: any) {
+      console.error('Failed to restore revision:', e);
+      setError(e.message || 'Could not restore this revision.');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-brand-bg">
+      <div className="flex-grow p-4 overflow-y-auto text-gray-950">
+        <button onClick={onClose} className="mb-4 flex items-center text-xs font-black uppercase text-gray-400 hover:text-gray-900"><ChevronLeftIcon className="w-4 h-4 mr-1"/> Back</button>
+        <div className="mb-6 border-b-2 border-gray-100 pb-4">
+            <h1 className="text-2xl font-black text-gray-950 tracking-tighter leading-none mb-1">Revision History</h1>
+            <p className="text-base font-black text-gray-900 uppercase tracking-widest">{plan.client.name}</p>
+        </div>
+
+        {error && <div className="mb-4 p-4 bg-red-50 text-red-900 font-black rounded-2xl border-2 border-red-200 text-center">{error}</div>}
+
+        {isLoading ? (
+            <div className="flex justify-center py-12"><RefreshIcon className="w-8 h-8 animate-spin text-gray-300"/></div>
+        ) : revisions.length === 0 ? (
+            <p className="text-center text-sm font-bold text-gray-400">No revisions have been recorded for this roadmap yet.</p>
+        ) : (
+            <>
+                <div className="space-y-3 mb-8">
+                    {revisions.map((revision, index) => (
+                        <div key={revision.id} className="bg-white p-4 rounded-3xl border-4 border-gray-100 shadow-sm">
+                            <div className="flex justify-between items-start">
+                                <div>
+                                    <p className="font-black text-sm">Revision {revision.revision}{index === 0 ? ' · Current' : ''}</p>
+                                    <p className="text-[10px] font-black uppercase text-gray-400 tracking-widest">
+                                        {new Date(revision.createdAt).toLocaleString([], { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                                        {revision.authorName ? ` · ${revision.authorName}` : ''}
+                                    </p>
+                                    {revision.reason && <p className="text-xs font-bold text-gray-600 mt-1">{revision.reason}</p>}
+                                </div>
+                                <p className="font-black text-sm">{formatCurrency(revision.plan.totalCost)}</p>
+                            </div>
+                            <div className="flex space-x-2 mt-3">
+                                <button onClick={() => setFromId(revision.id)} className={`flex-1 py-2 rounded-xl border-4 font-black text-[10px] uppercase ${fromId === revision.id ? 'border-brand-primary text-brand-primary' : 'border-gray-50 text-gray-400'}`}>Compare From</button>
+                                <button onClick={() => setToId(revision.id)} className={`flex-1 py-2 rounded-xl border-4 font-black text-[10px] uppercase ${toId === revision.id ? 'border-brand-primary text-brand-primary' : 'border-gray-50 text-gray-400'}`}>Compare To</button>
+                                {index > 0 && (
+                                    <button onClick={() => handleRestore(revision)} disabled={!!restoringId} className="flex-1 py-2 rounded-xl bg-gray-950 text-white font-black text-[10px] uppercase disabled:bg-gray-300">
+                                        {restoringId === revision.id ? 'Restoring...' : 'Restore'}
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+
+                {diff && fromRevision && toRevision && (
+                    <div className="bg-white p-6 rounded-[32px] border-4 border-gray-100 shadow-sm">
+                        <h3 className="text-sm font-black uppercase text-gray-900 tracking-widest mb-1">Revision {fromRevision.revision} &rarr; {toRevision.revision}</h3>
+                        <p className="text-[10px] font-black text-gray-400 uppercase mb-4">
+                            {formatDelta(diff.totalCostDelta)} total · {formatDelta(diff.monthlySpendDelta)} / mo · {diff.visitCountDelta >= 0 ? '+' : ''}{diff.visitCountDelta} visits
+                        </p>
+                        {diff.changes.length === 0 && <p className="text-sm font-bold text-gray-400">No visit changes.</p>}
+                        <div className="space-y-2">
+                            {diff.changes.map((change, i) => (
+                                <div key={i} className="flex items-center justify-between text-sm border-b-2 border-gray-50 pb-2">
+                                    <div className="flex items-center space-x-2 min-w-0">
+                                        <span className={`text-[10px] font-black uppercase px-2 py-0.5 rounded-full border-2 ${CHANGE_STYLES[change.kind].className}`}>{CHANGE_STYLES[change.kind].label}</span>
+                                        <span className="font-black truncate">{change.serviceName}</span>
+                                    </div>
+                                    <span className="font-bold text-gray-600 whitespace-nowrap ml-2">
+                                        {change.kind === 'moved' && change.fromDate ? `${formatDay(change.fromDate)} → ` : ''}{formatDay(change.date)}
+                                        {change.fromCost !== undefined && change.toCost !== undefined ? ` · ${formatCurrency(change.fromCost)} → ${formatCurrency(change.toCost)}` : ''}
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+            </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PlanRevisionHistory;
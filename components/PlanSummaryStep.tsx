@@ -2,7 +2,7 @@
 
 import React, { useMemo, useState } from 'react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
-import type { GeneratedPlan, UserRole, Service, PlanAppointment } from '../types';
+import type { GeneratedPlan, UserRole, Service, PlanAppointment, PlanService, PlanStatus, TimePeriod } from '../types';
 import { SERVICE_COLORS } from '../data/mockData';
 import { useSettings } from '../contexts/SettingsContext';
 import { usePlans } from '../contexts/PlanContext';
@@ -10,26 +10,54 @@ import { useAuth } from '../contexts/AuthContext';
 import { SquareIntegrationService } from '../services/squareIntegration';
 import { CheckCircleIcon, CalendarIcon, RefreshIcon, GlobeIcon, PlusIcon, ChevronRightIcon, ChevronLeftIcon, ShareIcon, DocumentTextIcon } from './icons';
 import { ensureAccessibleColor } from '../utils/ensureAccessibleColor';
+import { addDays, getPlanHorizonEnd, localDateKey, parseLocalDateKey } from '../utils/planScheduler';
+import { isSlotInPeriod, salonDateKey, salonStartOfDay, salonToday, toSalonDate } from '../utils/salonDates';
+import { reflowFromBooking } from '../utils/planEditing';
+import { diffPlans, PlanDiff } from '../utils/planDiff';
+import { getQualifyingTier } from '../utils/membershipTiers';
+import { AdherenceStatus, bookingRangeFor, computeAdherence, fromBookingRecord, fromSquareBooking, mergeBookings, ObservedBooking } from '../utils/planAdherence';
+import { canTransition, isNearingRenewal, isPlanExpired, transitionPlan } from '../utils/planLifecycle';
+import BatchBookingModal from './BatchBookingModal';
 
 
 interface PlanSummaryStepProps {
   plan: GeneratedPlan;
   role: UserRole;
   onEditPlan?: () => void;
+  onViewHistory?: () => void;
+  onRenew?: (plan: GeneratedPlan) => Promise<void>;
 }
 
 type BookingStep = 'select-visit' | 'select-date' | 'select-period' | 'select-slot';
-type TimePeriod = 'morning' | 'afternoon' | 'evening' | 'all';
 type DeliveryMethod = 'sms' | 'email' | 'link';
 
-const PlanSummaryStep: React.FC<PlanSummaryStepProps> = ({ plan, role, onEditPlan }) => {
+const ADHERENCE_STYLES: Record<AdherenceStatus, { label: string; className: string }> = {
+  completed: { label: 'Completed', className: 'bg-green-50 text-green-900 border-green-300' },
+  booked: { label: 'Booked', className: 'bg-blue-50 text-blue-900 border-blue-300' },
+  early: { label: 'Early', className: 'bg-amber-50 text-amber-900 border-amber-300' },
+  late: { label: 'Late', className: 'bg-amber-50 text-amber-900 border-amber-300' },
+  missed: { label: 'Missed', className: 'bg-red-50 text-red-900 border-red-300' },
+  upcoming: { label: 'Upcoming', className: 'bg-gray-50 text-gray-500 border-gray-200' },
+};
+
+const STATUS_BADGES: Record<PlanStatus, { label: string; className: string }> = {
+  draft: { label: 'DRAFT', className: 'bg-gray-100 text-gray-950 border-gray-400' },
+  active: { label: 'PUBLISHED', className: 'bg-green-50 text-green-900 border-green-400' },
+  paused: { label: 'PAUSED', className: 'bg-amber-50 text-amber-900 border-amber-400' },
+  cancelled: { label: 'CANCELLED', className: 'bg-red-50 text-red-900 border-red-400' },
+  expired: { label: 'EXPIRED', className: 'bg-gray-100 text-gray-600 border-gray-300' },
+};
+
+const PlanSummaryStep: React.FC<PlanSummaryStepProps> = ({ plan, role, onEditPlan, onViewHistory, onRenew }) => {
   const [isMembershipModalOpen, setMembershipModalOpen] = useState(false);
   const [isBookingModalOpen, setBookingModalOpen] = useState(false);
+  const [isBatchModalOpen, setBatchModalOpen] = useState(false);
   
   const [bookingStep, setBookingStep] = useState<BookingStep>('select-visit');
   const [selectedVisit, setSelectedVisit] = useState<PlanAppointment | null>(null);
   const [bookingDate, setBookingDate] = useState<Date | null>(null);
-  const [timePeriod, setTimePeriod] = useState<TimePeriod>('all');
+  const preferredPeriod: TimePeriod = plan.client.preferredTimePeriod || 'all';
+  const [timePeriod, setTimePeriod] = useState<TimePeriod>(preferredPeriod);
   
   const [availableSlots, setAvailableSlots] = useState<string[]>([]);
   const [isFetchingSlots, setIsFetchingSlots] = useState(false);
@@ -38,6 +66,16 @@ const PlanSummaryStep: React.FC<PlanSummaryStepProps> = ({ plan, role, onEditPla
   const [isPublishing, setIsPublishing] = useState(false);
   const [isBooking, setIsBooking] = useState(false);
   const [bookingSuccess, setBookingSuccess] = useState(false);
+  const [reflowPreview, setReflowPreview] = useState<{ plan: GeneratedPlan; diff: PlanDiff } | null>(null);
+  const [isSavingReflow, setIsSavingReflow] = useState(false);
+  const [pendingStatus, setPendingStatus] = useState<PlanStatus | null>(null);
+  const [statusReason, setStatusReason] = useState('');
+  const [isChangingStatus, setIsChangingStatus] = useState(false);
+  const [statusError, setStatusError] = useState<string | null>(null);
+  const [isRenewing, setIsRenewing] = useState(false);
+  const [squareBookings, setSquareBookings] = useState<ObservedBooking[] | null>(null);
+  const [isCheckingSquare, setIsCheckingSquare] = useState(false);
+  const [adherenceError, setAdherenceError] = useState<string | null>(null);
 
   const [deliveryMethod, setDeliveryMethod] = useState<DeliveryMethod>('sms');
   const [isSendingInvite, setIsSendingInvite] = useState(false);
@@ -45,38 +83,38 @@ const PlanSummaryStep: React.FC<PlanSummaryStepProps> = ({ plan, role, onEditPla
   const [isAccepting, setIsAccepting] = useState(false);
   const [isViewingMembershipDetails, setIsViewingMembershipDetails] = useState(false);
   
-  const { membershipConfig, integration, services: allServices, stylists: allStylists, branding } = useSettings();
-  const { savePlan, saveBooking } = usePlans();
+  const { membershipConfig, integration, services: allServices, stylists: allStylists, levels, branding, closureCalendar, salonTimezone, activeLocationId } = useSettings();
+  const { savePlan, saveBooking, getClientBookings } = usePlans();
   const { user } = useAuth();
 
   const [availableDates, setAvailableDates] = useState<Set<string>>(new Set());
   const [calendarMonth, setCalendarMonth] = useState(new Date());
 
   const isPlanActive = plan.status === 'active';
+  const isPlanOnHold = plan.status === 'paused' || plan.status === 'cancelled';
   const isMemberOffered = plan.membershipStatus === 'offered';
   const isMemberActive = plan.membershipStatus === 'active';
 
   const isClient = user?.role === 'client';
-  const canBook = user?.role === 'admin' || isClient || user?.stylistData?.permissions.canBookAppointments;
+  // Plans from before multi-location book into whichever store this device is set to.
+  const planLocationId = plan.locationId || activeLocationId;
+  const canBook = !isPlanOnHold && (user?.role === 'admin' || isClient || user?.stylistData?.permissions.canBookAppointments);
 
-  const qualifyingTier = useMemo(() => {
-      const sortedTiers = [...membershipConfig.tiers].sort((a, b) => b.minSpend - a.minSpend);
-      return sortedTiers.find(t => plan.averageMonthlySpend >= t.minSpend) || sortedTiers[sortedTiers.length - 1];
-  }, [plan.averageMonthlySpend, membershipConfig.tiers]);
+  const qualifyingTier = useMemo(
+      () => getQualifyingTier(plan.averageMonthlySpend, membershipConfig.tiers),
+      [plan.averageMonthlySpend, membershipConfig.tiers]
+  );
+
+  const pricingLevel = useMemo(() => levels.find(l => l.id === plan.stylistLevelId) || null, [levels, plan.stylistLevelId]);
 
   const invitationMessage = useMemo(() => {
     return `Hi ${plan.client.name.split(' ')[0]}! This is ${user?.name || 'your stylist'} from the salon. Based on your new maintenance roadmap, you qualify for our ${qualifyingTier.name} status! This includes ${qualifyingTier.perks.slice(0, 2).join(' & ')}. Check out your full roadmap here: [Link]`;
   }, [plan, qualifyingTier, user]);
 
   const futureVisits = useMemo(() => {
-      const today = new Date();
-      today.setHours(23, 59, 59, 999);
-      
-      return plan.appointments.filter(a => {
-          const apptDate = new Date(a.date);
-          return apptDate.getTime() > today.getTime();
-      });
-  }, [plan.appointments]);
+      const todayKey = localDateKey(salonToday(salonTimezone));
+      return plan.appointments.filter(a => localDateKey(a.date) > todayKey);
+  }, [plan.appointments, salonTimezone]);
 
   const visitChartData = useMemo(() => {
     return plan.appointments.slice(0, 15).map((appt, index) => {
@@ -92,6 +130,43 @@ const PlanSummaryStep: React.FC<PlanSummaryStepProps> = ({ plan, role, onEditPla
     });
   }, [plan]);
 
+  const clusteredVisits = useMemo(() => plan.appointments.filter(a => a.clustered), [plan.appointments]);
+  const movedVisits = useMemo(() => plan.appointments.filter(a => a.shiftedFrom), [plan.appointments]);
+
+  const adherence = useMemo(() => {
+    if (plan.status === 'draft') return null;
+    const saved = getClientBookings(plan.client.id).map(fromBookingRecord);
+    return computeAdherence(plan, mergeBookings(saved, squareBookings || []), { timeZone: salonTimezone });
+  }, [plan, getClientBookings, squareBookings, salonTimezone]);
+
+  // Visits that already have a booking (ours or Square's) are left out of a batch.
+  const unbookedFutureVisits = useMemo(() => {
+      if (!adherence) return futureVisits;
+      const booked = new Set(adherence.visits.filter(v => v.status === 'booked').map(v => v.visit));
+      return futureVisits.filter(v => !booked.has(v));
+  }, [futureVisits, adherence]);
+
+  // Bookings made directly in Square never reach our bookings table.
+  const handleCheckSquare = async () => {
+    if (!plan.client.externalId) {
+        setAdherenceError('This client is not linked to a Square customer.');
+        return;
+    }
+    setIsCheckingSquare(true);
+    setAdherenceError(null);
+    try {
+        const range = bookingRangeFor([plan]);
+        const loc = await SquareIntegrationService.fetchLocation(planLocationId);
+        const all = range ? await SquareIntegrationService.fetchAllBookings(loc.id, range) : [];
+        setSquareBookings(all.filter(b => b.customer_id === plan.client.externalId).map(fromSquareBooking));
+    } catch (e: any) {
+        console.error("Square booking check failed:", e);
+        setAdherenceError(e.message || 'Could not load Square bookings.');
+    } finally {
+        setIsCheckingSquare(false);
+    }
+  };
+
   const serviceLegend = useMemo(() => Array.from(new Set(plan.appointments.flatMap(a => a.services.map(s => s.name)))), [plan.appointments]);
   
   const formatCurrency = (val: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(val || 0);
@@ -99,7 +174,7 @@ const PlanSummaryStep: React.FC<PlanSummaryStepProps> = ({ plan, role, onEditPla
   const handlePublish = async () => {
     setIsPublishing(true);
     try {
-        await savePlan({ ...plan, status: 'active' });
+        await savePlan(transitionPlan(plan, 'active', { reason: 'Published', by: user?.name }), 'Published');
     } catch (e) {
         console.error("Publishing failed:", e);
     } finally {
@@ -107,6 +182,36 @@ const PlanSummaryStep: React.FC<PlanSummaryStepProps> = ({ plan, role, onEditPla
     }
   };
 
+  const handleChangeStatus = async () => {
+    if (!pendingStatus) return;
+    setIsChangingStatus(true);
+    setStatusError(null);
+    try {
+        const reason = statusReason.trim() || undefined;
+        const verb = pendingStatus === 'active' ? 'Resumed' : pendingStatus === 'paused' ? 'Paused' : 'Cancelled';
+        await savePlan(transitionPlan(plan, pendingStatus, { reason, by: user?.name, closures: closureCalendar }), reason ? `${verb}: ${reason}` : verb);
+        setPendingStatus(null);
+        setStatusReason('');
+    } catch (e: any) {
+        console.error("Status change failed:", e);
+        setStatusError(e.message || 'Could not update the roadmap status.');
+    } finally {
+        setIsChangingStatus(false);
+    }
+  };
+
+  const handleRenew = async () => {
+    if (!onRenew) return;
+    setIsRenewing(true);
+    try {
+        await onRenew(plan);
+    } catch (e) {
+        console.error("Renewal failed:", e);
+    } finally {
+        setIsRenewing(false);
+    }
+  };
+
   const handleSendInvite = async () => {
     setIsSendingInvite(true);
     
@@ -128,7 +233,7 @@ const PlanSummaryStep: React.FC<PlanSummaryStepProps> = ({ plan, role, onEditPla
             }
         }
         
-        await savePlan({ ...plan, membershipStatus: 'offered', membershipOfferSentAt: new Date().toISOString() });
+        await savePlan({ ...plan, membershipStatus: 'offered', membershipOfferSentAt: new Date().toISOString() }, 'Membership offered');
         setInviteSent(true);
         setTimeout(() => {
           setMembershipModalOpen(false);
@@ -144,7 +249,7 @@ const PlanSummaryStep: React.FC<PlanSummaryStepProps> = ({ plan, role, onEditPla
   const handleAcceptMembership = async () => {
     setIsAccepting(true);
     try {
-        await savePlan({ ...plan, membershipStatus: 'active', membershipOfferAcceptedAt: new Date().toISOString() });
+        await savePlan({ ...plan, membershipStatus: 'active', membershipOfferAcceptedAt: new Date().toISOString() }, 'Membership accepted');
         setIsViewingMembershipDetails(false);
     } catch(e) {
         console.error("Failed to accept membership:", e);
@@ -158,6 +263,7 @@ const PlanSummaryStep: React.FC<PlanSummaryStepProps> = ({ plan, role, onEditPla
       setBookingModalOpen(true);
       setBookingStep('select-visit');
       setBookingSuccess(false);
+      setReflowPreview(null);
       setFetchError(null);
   };
   
@@ -167,9 +273,9 @@ const PlanSummaryStep: React.FC<PlanSummaryStepProps> = ({ plan, role, onEditPla
     try {
         if (!visit) throw new Error("No visit selected.");
         
-        const loc = await SquareIntegrationService.fetchLocation();
+        const loc = await SquareIntegrationService.fetchLocation(planLocationId);
         
-        const stylistId = isClient ? plan.stylistId : (user?.stylistData?.id || allStylists[0]?.id);
+        const stylistId = isClient ? plan.stylistId : (user?.stylistData?.id || plan.client.preferredStylistId || allStylists[0]?.id);
         if (!stylistId) throw new Error("No team member selected or found.");
         
         const roadmapService = visit.services[0];
@@ -177,22 +283,23 @@ const PlanSummaryStep: React.FC<PlanSummaryStepProps> = ({ plan, role, onEditPla
             throw new Error(`SYSTEM ERROR: A service in this plan is missing a valid Square ID.`);
         }
 
-        const searchStart = new Date(visit.date);
+        // Roadmap dates are salon calendar days; they become instants only here.
         const now = new Date();
-        now.setHours(0,0,0,0);
-        if (searchStart < now) searchStart.setTime(now.getTime());
+        const visitStart = salonStartOfDay(visit.date, loc.timezone);
+        const searchStart = visitStart < now ? now : visitStart;
 
         const slots = await SquareIntegrationService.findAvailableSlots({
             locationId: loc.id,
             startAt: SquareIntegrationService.formatDate(searchStart, loc.timezone),
-            teamMemberId: stylistId,
+            teamMemberId: roadmapService.stylistId || stylistId,
             serviceVariationId: roadmapService.id
         });
 
+        // Pre-filter to the client's preferred time of day, unless nothing matches.
+        const preferredSlots = slots.filter(s => isSlotInPeriod(s, preferredPeriod, loc.timezone));
         const dates = new Set<string>();
-        slots.forEach(s => {
-            const d = new Date(s);
-            dates.add(d.toISOString().split('T')[0]);
+        (preferredSlots.length > 0 ? preferredSlots : slots).forEach(s => {
+            dates.add(salonDateKey(new Date(s), loc.timezone));
         });
         setAvailableDates(dates);
     } catch (e: any) { 
@@ -219,9 +326,9 @@ const PlanSummaryStep: React.FC<PlanSummaryStepProps> = ({ plan, role, onEditPla
     try {
         if (!selectedVisit || !bookingDate) throw new Error("No visit selected.");
         
-        const loc = await SquareIntegrationService.fetchLocation();
+        const loc = await SquareIntegrationService.fetchLocation(planLocationId);
         
-        const stylistId = isClient ? plan.stylistId : (user?.stylistData?.id || allStylists[0]?.id);
+        const stylistId = isClient ? plan.stylistId : (user?.stylistData?.id || plan.client.preferredStylistId || allStylists[0]?.id);
         if (!stylistId) throw new Error("No team member selected or found.");
         
         const roadmapService = selectedVisit.services[0];
@@ -229,15 +336,14 @@ const PlanSummaryStep: React.FC<PlanSummaryStepProps> = ({ plan, role, onEditPla
             throw new Error(`SYSTEM ERROR: A service in this plan is missing a valid Square ID.`);
         }
 
-        const searchStart = new Date(bookingDate);
-        searchStart.setDate(searchStart.getDate() - 3);
         const now = new Date();
-        if (searchStart < now) searchStart.setTime(now.getTime());
+        const windowStart = salonStartOfDay(addDays(bookingDate, -3), loc.timezone);
+        const searchStart = windowStart < now ? now : windowStart;
 
         const slots = await SquareIntegrationService.findAvailableSlots({
             locationId: loc.id,
             startAt: SquareIntegrationService.formatDate(searchStart, loc.timezone),
-            teamMemberId: stylistId,
+            teamMemberId: roadmapService.stylistId || stylistId,
             serviceVariationId: roadmapService.id
         });
         setAvailableSlots(slots);
@@ -249,24 +355,39 @@ const PlanSummaryStep: React.FC<PlanSummaryStepProps> = ({ plan, role, onEditPla
   };
 
   const filteredSlots = useMemo(() => {
-      return availableSlots.filter(s => {
-          const hour = new Date(s).getHours();
-          if (timePeriod === 'morning') return hour < 12;
-          if (timePeriod === 'afternoon') return hour >= 12 && hour < 17;
-          if (timePeriod === 'evening') return hour >= 17;
-          return true;
-      });
-  }, [availableSlots, timePeriod]);
+      return availableSlots.filter(s => isSlotInPeriod(s, timePeriod, salonTimezone));
+  }, [availableSlots, timePeriod, salonTimezone]);
 
   const groupedSlots = useMemo(() => {
       const groups: { [key: string]: string[] } = {};
       filteredSlots.forEach(s => {
-          const day = new Date(s).toDateString();
+          const day = toSalonDate(new Date(s), salonTimezone).toDateString();
           if (!groups[day]) groups[day] = [];
           groups[day].push(s);
       });
       return groups;
-  }, [filteredSlots]);
+  }, [filteredSlots, salonTimezone]);
+
+  const bookingStylistId = isClient ? plan.stylistId : (user?.stylistData?.id || plan.client.preferredStylistId || allStylists[0]?.id);
+
+  const assertCanBookFor = (servicesToBook: PlanService[], stylistIdToBookFor: string) => {
+      if (user?.role !== 'stylist' || !user.stylistData) return;
+      const loggedInStylist = allStylists.find(s => s.id === user.stylistData!.id);
+      if (!loggedInStylist) return;
+
+      // Services assigned to another team member book on that member's schedule.
+      const bookedFor = new Set(servicesToBook.map(s => s.stylistId || stylistIdToBookFor));
+      const isBookingForSelf = bookedFor.has(loggedInStylist.id);
+      const isBookingForPeers = Array.from(bookedFor).some(id => id !== loggedInStylist.id);
+
+      if (isBookingForSelf && !loggedInStylist.permissions.can_book_own_schedule) {
+          throw new Error("You do not have permission to book appointments for your own schedule.");
+      }
+
+      if (isBookingForPeers && !loggedInStylist.permissions.can_book_peer_schedules) {
+          throw new Error("You do not have permission to book appointments for other team members.");
+      }
+  };
 
   const executeBooking = async (slotTime: string) => {
       setIsBooking(true);
@@ -277,24 +398,10 @@ const PlanSummaryStep: React.FC<PlanSummaryStepProps> = ({ plan, role, onEditPla
               throw new Error("No services were selected for this visit.");
           }
 
-          const stylistIdToBookFor = isClient ? plan.stylistId : (user?.stylistData?.id || allStylists[0]?.id);
-          
-          if (user?.role === 'stylist' && user.stylistData) {
-              const loggedInStylist = allStylists.find(s => s.id === user.stylistData!.id);
-              if (loggedInStylist) {
-                  const isBookingForSelf = stylistIdToBookFor === loggedInStylist.id;
-                  
-                  if (isBookingForSelf && !loggedInStylist.permissions.can_book_own_schedule) {
-                      throw new Error("You do not have permission to book appointments for your own schedule.");
-                  }
-
-                  if (!isBookingForSelf && !loggedInStylist.permissions.can_book_peer_schedules) {
-                      throw new Error("You do not have permission to book appointments for other team members.");
-                  }
-              }
-          }
+          const stylistIdToBookFor = bookingStylistId;
+          assertCanBookFor(servicesToBook, stylistIdToBookFor);
 
-          const loc = await SquareIntegrationService.fetchLocation();
+          const loc = await SquareIntegrationService.fetchLocation(planLocationId);
           
           let customerId = plan.client.externalId || await SquareIntegrationService.searchCustomer(plan.client.name);
           if (!customerId) throw new Error(`Could not find client "${plan.client.name}" in Square.`);
@@ -315,31 +422,26 @@ const PlanSummaryStep: React.FC<PlanSummaryStepProps> = ({ plan, role, onEditPla
                   stylist_id: stylistIdToBookFor,
                   start_time: slotTime,
                   status: squareBooking.status,
+                  version: squareBooking.version ?? null,
                   services: servicesToBook.map(s => ({ variation_id: s.id, name: s.name })),
-                  source: 'square'
+                  source: 'square',
+                  location_id: loc.id
               });
           }
           
-          const bookedDate = new Date(slotTime);
-          const recommendedDate = new Date(selectedVisit!.date);
-          bookedDate.setHours(0, 0, 0, 0);
-          recommendedDate.setHours(0, 0, 0, 0);
-          const offset = bookedDate.getTime() - recommendedDate.getTime();
-          
-          if (offset !== 0) {
-              const updatedAppointments = plan.appointments.map(appt => {
-                  const apptDate = new Date(appt.date);
-                  if (apptDate.getTime() >= recommendedDate.getTime()) {
-                      return { ...appt, date: new Date(apptDate.getTime() + offset) };
-                  }
-                  return appt;
-              });
-              const updatedPlan = { ...plan, appointments: updatedAppointments };
-              await savePlan(updatedPlan);
-          }
+          // A visit booked off its roadmap date re-spaces the later visits; preview before saving.
+          const bookedDate = toSalonDate(new Date(slotTime), loc.timezone);
+          const visitIndex = plan.appointments.indexOf(selectedVisit!);
+          const preview = visitIndex > -1 && localDateKey(bookedDate) !== localDateKey(selectedVisit!.date)
+              ? reflowFromBooking(plan, visitIndex, bookedDate, closureCalendar)
+              : null;
 
           setBookingSuccess(true);
-          setTimeout(() => setBookingModalOpen(false), 2000);
+          if (preview) {
+              setReflowPreview({ plan: preview, diff: diffPlans(plan, preview) });
+          } else {
+              setTimeout(() => setBookingModalOpen(false), 2000);
+          }
       } catch (e: any) {
           setFetchError(e.message);
       } finally {
@@ -347,6 +449,25 @@ const PlanSummaryStep: React.FC<PlanSummaryStepProps> = ({ plan, role, onEditPla
       }
   };
 
+  const closeReflowPreview = () => {
+      setReflowPreview(null);
+      setBookingModalOpen(false);
+  };
+
+  const handleApplyReflow = async () => {
+      if (!reflowPreview) return;
+      setIsSavingReflow(true);
+      try {
+          await savePlan(reflowPreview.plan, 'Reflowed after booking');
+          closeReflowPreview();
+      } catch (e: any) {
+          setFetchError(e.message);
+          setReflowPreview(null);
+      } finally {
+          setIsSavingReflow(false);
+      }
+  };
+
   const isMissingContact = useMemo(() => {
     if (deliveryMethod === 'sms') return !plan.client.phone;
     if (deliveryMethod === 'email') return !plan.client.email;
@@ -373,11 +494,51 @@ const PlanSummaryStep: React.FC<PlanSummaryStepProps> = ({ plan, role, onEditPla
                 <h1 className="text-2xl font-black text-gray-950 tracking-tighter leading-none mb-1">Blueprint Summary</h1>
                 <p className="text-base font-black text-gray-900 uppercase tracking-widest">{plan.client.name}</p>
             </div>
-            <span className={`text-xs font-black px-4 py-1.5 rounded-full border-2 shadow-sm ${isPlanActive ? 'bg-green-50 text-green-900 border-green-400' : 'bg-gray-100 text-gray-950 border-gray-400'}`}>
-                {isPlanActive ? 'PUBLISHED' : 'DRAFT'}
-            </span>
+            <div className="flex flex-col items-end space-y-2">
+                <span className={`text-xs font-black px-4 py-1.5 rounded-full border-2 shadow-sm ${STATUS_BADGES[plan.status].className}`}>
+                    {isPlanExpired(plan) ? STATUS_BADGES.expired.label : STATUS_BADGES[plan.status].label}
+                </span>
+                {onEditPlan && !isClient && (
+                    <button onClick={onEditPlan} className="text-[10px] font-black uppercase tracking-widest text-gray-500 underline hover:text-gray-900">
+                        Edit Roadmap{plan.revision ? ` · Rev ${plan.revision}` : ''}
+                    </button>
+                )}
+                {onViewHistory && !isClient && (
+                    <button onClick={onViewHistory} className="text-[10px] font-black uppercase tracking-widest text-gray-500 underline hover:text-gray-900">
+                        History
+                    </button>
+                )}
+            </div>
         </div>
 
+        {plan.status === 'paused' && plan.pausedAt && (
+            <div className="mb-6 p-4 bg-amber-50 text-amber-900 rounded-2xl border-2 border-amber-300">
+                <p className="font-black text-sm">Paused since {new Date(plan.pausedAt).toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' })}</p>
+                <p className="text-xs font-bold">Upcoming visits move back by the length of the pause when the roadmap resumes.</p>
+            </div>
+        )}
+
+        {plan.status === 'cancelled' && (
+            <div className="mb-6 p-4 bg-red-50 text-red-900 rounded-2xl border-2 border-red-300">
+                <p className="font-black text-sm">This roadmap was cancelled.</p>
+                {plan.statusHistory?.[plan.statusHistory.length - 1]?.reason && (
+                    <p className="text-xs font-bold">{plan.statusHistory[plan.statusHistory.length - 1].reason}</p>
+                )}
+            </div>
+        )}
+
+        {!isClient && onRenew && isNearingRenewal(plan) && (
+            <div className="mb-6 p-4 bg-white rounded-2xl border-4 border-amber-200 flex items-center justify-between">
+                <div>
+                    <p className="font-black text-sm text-gray-950">Due for Renewal</p>
+                    <p className="text-xs font-bold text-gray-500">{plan.status === 'expired' || isPlanExpired(plan) ? 'Ended' : 'Ends'} {getPlanHorizonEnd(plan).toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' })}</p>
+                </div>
+                <button onClick={handleRenew} disabled={isRenewing} className="px-4 py-2 bg-gray-950 text-white rounded-xl font-black text-xs uppercase disabled:bg-gray-300">
+                    {isRenewing ? 'Renewing...' : 'Renew'}
+                </button>
+            </div>
+        )}
+
         {isClient && isMemberOffered && (
             <div className="mb-6 p-6 rounded-[32px] shadow-xl animate-fade-in border-4" style={{ borderColor: branding.primaryColor, backgroundColor: '#FFF' }}>
                 <h2 className="text-xl font-black tracking-tighter mb-4" style={{color: branding.primaryColor}}>Membership Invitation</h2>
@@ -406,6 +567,7 @@ const PlanSummaryStep: React.FC<PlanSummaryStepProps> = ({ plan, role, onEditPla
                 <div>
                     <p className="text-sm font-black uppercase text-gray-300 mb-1 tracking-widest">Yearly Investment</p>
                     <p className="text-5xl font-black" style={{ color: branding.secondaryColor }}>{formatCurrency(plan.totalCost)}</p>
+                    {pricingLevel && <p className="text-[10px] font-black uppercase text-gray-400 mt-1 tracking-widest">{pricingLevel.name} Pricing</p>}
                 </div>
                 <div className="text-right">
                     <p className="text-xs font-black uppercase text-gray-400 mb-1 tracking-widest">Membership Tier</p>
@@ -424,8 +586,85 @@ const PlanSummaryStep: React.FC<PlanSummaryStepProps> = ({ plan, role, onEditPla
                 <span className="text-sm font-black text-white uppercase tracking-widest">Planned Visits</span>
                 <span className="text-3xl font-black text-white">{plan.totalYearlyAppointments}</span>
             </div>
+            {plan.eventDate && (
+                <div className="col-span-2 bg-white p-5 rounded-3xl border-4 border-gray-100 shadow-lg flex justify-between items-center">
+                    <span className="text-sm font-black uppercase text-gray-900 tracking-widest">Ready By</span>
+                    <span className="text-xl font-black text-gray-950">{parseLocalDateKey(plan.eventDate).toLocaleDateString([], { month: 'long', day: 'numeric', year: 'numeric' })}</span>
+                </div>
+            )}
+            {!!plan.tripsSaved && (
+                <div className="col-span-2 bg-white p-5 rounded-3xl border-4 border-gray-100 shadow-lg flex justify-between items-center">
+                    <span className="text-sm font-black uppercase text-gray-900 tracking-widest">Trips Saved</span>
+                    <span className="text-3xl font-black text-gray-950">{plan.tripsSaved}</span>
+                </div>
+            )}
         </div>
 
+        {adherence && (
+            <div className="bg-white p-6 rounded-[32px] border-4 border-gray-100 mb-8 shadow-sm">
+                <div className="flex justify-between items-start mb-4">
+                    <div>
+                        <h3 className="text-sm font-black uppercase text-gray-900 tracking-widest">Roadmap Adherence</h3>
+                        <p className="text-[10px] font-black text-gray-400 uppercase">Planned visits vs. actual bookings</p>
+                    </div>
+                    <span className="text-3xl font-black text-gray-950">{adherence.score === null ? '—' : `${adherence.score}%`}</span>
+                </div>
+                <div className="flex flex-wrap gap-2 mb-4">
+                    {(Object.keys(ADHERENCE_STYLES) as AdherenceStatus[]).filter(k => adherence.counts[k] > 0).map(k => (
+                        <span key={k} className={`text-[10px] font-black uppercase px-2 py-0.5 rounded-full border-2 ${ADHERENCE_STYLES[k].className}`}>{adherence.counts[k]} {ADHERENCE_STYLES[k].label}</span>
+                    ))}
+                </div>
+                <div className="space-y-2">
+                    {adherence.visits.filter(v => v.status !== 'upcoming').map((v, i) => (
+                        <div key={i} className="flex justify-between items-center text-sm border-b-2 border-gray-50 pb-2">
+                            <span className="font-black text-gray-950">{v.visit.date.toLocaleDateString([], { month: 'short', day: 'numeric' })}</span>
+                            <span className="flex items-center space-x-2">
+                                {v.booking && v.offsetDays !== 0 && (
+                                    <span className="text-[10px] font-bold text-gray-500">{new Date(v.booking.start).toLocaleDateString([], { month: 'short', day: 'numeric' })}</span>
+                                )}
+                                <span className={`text-[10px] font-black uppercase px-2 py-0.5 rounded-full border-2 ${ADHERENCE_STYLES[v.status].className}`}>{ADHERENCE_STYLES[v.status].label}</span>
+                            </span>
+                        </div>
+                    ))}
+                </div>
+                {adherenceError && <p className="mt-3 text-xs font-black text-red-600">{adherenceError}</p>}
+                {!isClient && (
+                    <button onClick={handleCheckSquare} disabled={isCheckingSquare} className="mt-4 text-[10px] font-black uppercase tracking-widest text-gray-500 underline disabled:opacity-50">
+                        {isCheckingSquare ? 'Checking Square...' : squareBookings ? 'Square bookings included · Refresh' : 'Include Square bookings'}
+                    </button>
+                )}
+            </div>
+        )}
+
+        {movedVisits.length > 0 && (
+            <div className="bg-white p-6 rounded-[32px] border-4 border-gray-100 mb-8 shadow-sm">
+                <h3 className="text-sm font-black uppercase text-gray-900 tracking-widest mb-1">Moved for Closures</h3>
+                <p className="text-[10px] font-black text-gray-400 uppercase mb-4">The salon is closed on the original dates</p>
+                <div className="space-y-3">
+                    {movedVisits.map((visit, i) => (
+                        <div key={i} className="flex justify-between items-center text-sm border-b-2 border-gray-50 pb-2">
+                            <span className="font-black text-gray-950">{visit.date.toLocaleDateString([], { month: 'short', day: 'numeric' })}</span>
+                            <span className="font-bold text-gray-500">was {parseLocalDateKey(visit.shiftedFrom!).toLocaleDateString([], { month: 'short', day: 'numeric' })}</span>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        )}
+
+        {clusteredVisits.length > 0 && (
+            <div className="bg-white p-6 rounded-[32px] border-4 border-gray-100 mb-8 shadow-sm">
+                <h3 className="text-sm font-black uppercase text-gray-900 tracking-widest mb-4">Combined Visits</h3>
+                <div className="space-y-3">
+                    {clusteredVisits.map((visit, i) => (
+                        <div key={i} className="flex justify-between items-center text-sm border-b-2 border-gray-50 pb-2">
+                            <span className="font-black text-gray-950">{visit.date.toLocaleDateString([], { month: 'short', day: 'numeric' })}</span>
+                            <span className="font-bold text-gray-600 truncate max-w-[200px]">{visit.services.map(s => s.name).join(' + ')}</span>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        )}
+
         <div className="bg-white p-6 rounded-[32px] border-4 border-gray-100 mb-8 shadow-sm overflow-hidden">
             <div className="flex justify-between items-center mb-6">
                 <h3 className="text-sm font-black uppercase text-gray-900 tracking-widest">Visit Value Forecast</h3>
@@ -476,13 +715,39 @@ const PlanSummaryStep: React.FC<PlanSummaryStepProps> = ({ plan, role, onEditPla
         </div>
         
         <div className="mt-8 pt-8 border-t-4 border-gray-100 flex flex-col space-y-4">
-            {!isClient && !isPlanActive && (
+            {!isClient && plan.status === 'draft' && (
                 <button onClick={handlePublish} disabled={isPublishing} className="w-full bg-gray-950 text-white py-5 rounded-2xl font-black text-lg shadow-xl flex items-center justify-center space-x-3 active:scale-95 transition-all border-b-4 border-gray-800">
                     {isPublishing ? <RefreshIcon className="w-6 h-6 animate-spin" /> : <GlobeIcon className="w-6 h-6" />}
                     <span>PUBLISH TO CLIENT</span>
                 </button>
             )}
             
+            {!isClient && plan.status !== 'draft' && plan.status !== 'cancelled' && (
+                <div className="bg-white p-4 rounded-2xl border-4 border-gray-100">
+                    <div className="flex space-x-2">
+                        {canTransition(plan.status, 'paused') && (
+                            <button onClick={() => setPendingStatus('paused')} className={`flex-1 py-2 rounded-xl border-4 font-black text-xs uppercase ${pendingStatus === 'paused' ? 'border-brand-primary text-brand-primary' : 'border-gray-50 text-gray-500'}`}>Pause</button>
+                        )}
+                        {plan.status === 'paused' && (
+                            <button onClick={() => setPendingStatus('active')} className={`flex-1 py-2 rounded-xl border-4 font-black text-xs uppercase ${pendingStatus === 'active' ? 'border-brand-primary text-brand-primary' : 'border-gray-50 text-gray-500'}`}>Resume</button>
+                        )}
+                        <button onClick={() => setPendingStatus('cancelled')} className={`flex-1 py-2 rounded-xl border-4 font-black text-xs uppercase ${pendingStatus === 'cancelled' ? 'border-red-500 text-red-600' : 'border-gray-50 text-gray-500'}`}>Cancel Plan</button>
+                    </div>
+                    {pendingStatus && (
+                        <div className="mt-3 space-y-2">
+                            <input type="text" value={statusReason} onChange={e => setStatusReason(e.target.value)} placeholder="Reason (optional)" className="w-full p-3 border-4 border-gray-100 rounded-xl font-bold text-sm outline-none focus:border-brand-accent" />
+                            {statusError && <p className="text-xs font-black text-red-600">{statusError}</p>}
+                            <div className="flex space-x-2">
+                                <button onClick={() => { setPendingStatus(null); setStatusReason(''); setStatusError(null); }} className="flex-1 py-2 rounded-xl bg-gray-100 font-black text-xs uppercase text-gray-600">Back</button>
+                                <button onClick={handleChangeStatus} disabled={isChangingStatus} className="flex-1 py-2 rounded-xl bg-gray-950 text-white font-black text-xs uppercase disabled:bg-gray-300">
+                                    {isChangingStatus ? 'Saving...' : 'Confirm'}
+                                </button>
+                            </div>
+                        </div>
+                    )}
+                </div>
+            )}
+
             {!isClient && (
                 <button 
                     onClick={() => setMembershipModalOpen(true)}
@@ -502,6 +767,16 @@ const PlanSummaryStep: React.FC<PlanSummaryStepProps> = ({ plan, role, onEditPla
                 <CalendarIcon className={`w-6 h-6 ${canBook ? '' : 'text-gray-300'}`} style={canBook ? { color: branding.secondaryColor } : {}}/>
                 <span>{isClient ? 'BOOK APPOINTMENT' : canBook ? 'Book an Upcoming Appointment' : 'SYNC DISABLED'}</span>
             </button>
+
+            {!isClient && canBook && unbookedFutureVisits.length > 1 && (
+                <button
+                    onClick={() => setBatchModalOpen(true)}
+                    className="w-full py-4 rounded-2xl font-black text-sm uppercase tracking-widest bg-gray-950 text-white shadow-md active:scale-95 transition-all flex items-center justify-center space-x-3"
+                >
+                    <CalendarIcon className="w-5 h-5" />
+                    <span>Book All {unbookedFutureVisits.length} Future Visits</span>
+                </button>
+            )}
         </div>
       </div>
 
@@ -619,6 +894,18 @@ const PlanSummaryStep: React.FC<PlanSummaryStepProps> = ({ plan, role, onEditPla
         </div>
       )}
 
+      {isBatchModalOpen && bookingStylistId && (
+          <BatchBookingModal
+              plan={plan}
+              visits={unbookedFutureVisits}
+              alreadyBookedCount={futureVisits.length - unbookedFutureVisits.length}
+              teamMemberId={bookingStylistId}
+              preferredPeriod={preferredPeriod}
+              assertCanBookFor={assertCanBookFor}
+              onClose={() => setBatchModalOpen(false)}
+          />
+      )}
+
       {isBookingModalOpen && (
           <div className="fixed inset-0 bg-black/90 z-[100] flex items-center justify-center p-6 backdrop-blur-md">
               <div className="bg-white w-full max-w-sm rounded-[40px] shadow-2xl relative overflow-hidden border-4 border-gray-950 flex flex-col max-h-[90vh]">
@@ -647,6 +934,26 @@ const PlanSummaryStep: React.FC<PlanSummaryStepProps> = ({ plan, role, onEditPla
                               <CheckCircleIcon className="w-20 h-20 text-green-500 mx-auto mb-4" />
                               <p className="text-3xl font-black text-gray-950">BOOKED!</p>
                               <p className="text-lg text-gray-950 font-black mt-2">Added to Square calendar.</p>
+                              {reflowPreview && (
+                                  <div className="mt-8 text-left">
+                                      <p className="text-xs font-black uppercase tracking-widest text-gray-500 mb-3">This booking moves the roadmap</p>
+                                      <div className="space-y-2 max-h-48 overflow-y-auto mb-4">
+                                          {reflowPreview.diff.changes.map((change, i) => (
+                                              <div key={i} className="flex justify-between text-sm border-b-2 border-gray-50 pb-1">
+                                                  <span className="font-black text-gray-950 truncate">{change.serviceName}</span>
+                                                  <span className="font-bold text-gray-600 whitespace-nowrap ml-2">
+                                                      {change.kind === 'moved' && change.fromDate ? `${parseLocalDateKey(change.fromDate).toLocaleDateString([], { month: 'short', day: 'numeric' })} → ` : change.kind === 'removed' ? 'Removed ' : change.kind === 'added' ? 'Added ' : ''}
+                                                      {parseLocalDateKey(change.date).toLocaleDateString([], { month: 'short', day: 'numeric' })}
+                                                  </span>
+                                              </div>
+                                          ))}
+                                      </div>
+                                      <button onClick={handleApplyReflow} disabled={isSavingReflow} className="w-full py-4 rounded-2xl font-black uppercase shadow-xl border-b-4 border-black/20 disabled:opacity-50" style={buttonStyle}>
+                                          {isSavingReflow ? 'Saving...' : 'Update Roadmap'}
+                                      </button>
+                                      <button onClick={closeReflowPreview} className="w-full py-3 mt-2 font-black text-xs uppercase text-gray-400">Keep Current Dates</button>
+                                  </div>
+                              )}
                           </div>
                       ) : fetchError ? (
                           <div className="p-6 bg-red-50 text-red-950 rounded-3xl border-4 border-red-500 text-center">
@@ -671,8 +978,9 @@ const PlanSummaryStep: React.FC<PlanSummaryStepProps> = ({ plan, role, onEditPla
                                               <button key={i} onClick={() => handleVisitSelected(visit)} className="w-full p-5 border-4 border-gray-100 rounded-3xl text-left flex flex-col group active:scale-95 transition-all hover:border-brand-accent">
                                                   <div className="flex justify-between items-center w-full">
                                                       <div className="text-gray-950">
-                                                          <p className="text-xs font-black text-gray-400 uppercase tracking-widest mb-1">Upcoming Visit</p>
+                                                          <p className="text-xs font-black text-gray-400 uppercase tracking-widest mb-1">{visit.readyBy ? 'Event Prep' : visit.clustered ? 'Combined Visit' : 'Upcoming Visit'}</p>
                                                           <p className="text-xl font-black group-hover:text-brand-accent">{visit.date.toLocaleDateString([], {month:'long', day:'numeric'})}</p>
+                                                          {visit.shiftedFrom && <p className="text-[10px] font-black text-amber-600 uppercase tracking-widest mt-1">Moved from {parseLocalDateKey(visit.shiftedFrom).toLocaleDateString([], {month:'short', day:'numeric'})}</p>}
                                                       </div>
                                                       <ChevronRightIcon className="w-6 h-6 text-gray-300" />
                                                   </div>
@@ -681,7 +989,7 @@ const PlanSummaryStep: React.FC<PlanSummaryStepProps> = ({ plan, role, onEditPla
                                                       <p className="text-[10px] font-black text-gray-400 uppercase tracking-widest mb-1">Visit Details:</p>
                                                       <div className="flex justify-between items-center text-sm">
                                                           <span className="font-bold text-gray-600">Services:</span>
-                                                          <span className="font-black text-gray-900 truncate max-w-[150px]">{visit.services.map(s => s.name).join(' + ')}</span>
+                                                          <span className="font-black text-gray-900 truncate max-w-[150px]">{visit.services.map(s => (s.stylistName ? `${s.name} (${s.stylistName})` : s.name)).join(' + ')}</span>
                                                       </div>
                                                       <div className="flex justify-between items-center text-sm">
                                                           <span className="font-bold text-gray-600">Est. Cost:</span>
@@ -728,19 +1036,15 @@ const PlanSummaryStep: React.FC<PlanSummaryStepProps> = ({ plan, role, onEditPla
                                                 {calendarBlanks.map((_, i) => <div key={`blank-${i}`}></div>)}
                                                 {calendarDays.map(day => {
                                                     const thisDate = new Date(year, month, day);
-                                                    const dateStr = thisDate.toISOString().split('T')[0];
+                                                    const dateStr = localDateKey(thisDate);
                                                     const isAvailable = availableDates.has(dateStr);
-                                                    const isSelected = bookingDate ? bookingDate.toISOString().split('T')[0] === dateStr : false;
+                                                    const isSelected = bookingDate ? localDateKey(bookingDate) === dateStr : false;
                                                     
                                                     return (
                                                         <button 
                                                             key={day} 
                                                             disabled={!isAvailable}
-                                                            onClick={() => {
-                                                                const newDate = new Date(dateStr);
-                                                                const timezoneOffset = newDate.getTimezoneOffset() * 60000;
-                                                                setBookingDate(new Date(newDate.getTime() + timezoneOffset));
-                                                            }}
+                                                            onClick={() => setBookingDate(thisDate)}
                                                             className={`p-2 rounded-full font-black text-sm aspect-square transition-all ${
                                                                 isSelected ? 'bg-brand-primary text-white scale-110 shadow-lg' : 
                                                                 isAvailable ? 'bg-white hover:bg-blue-50 text-gray-800' : 'bg-gray-100 text-gray-400 cursor-not-allowed opacity-50'
@@ -771,6 +1075,7 @@ const PlanSummaryStep: React.FC<PlanSummaryStepProps> = ({ plan, role, onEditPla
                                           <div className="bg-blue-500 text-white p-3 rounded-2xl text-xl">🌅</div>
                                           <div>
                                               <p className="text-xl font-black text-gray-950 leading-none">Morning</p>
+                                              {preferredPeriod === 'morning' && <p className="text-[10px] font-black uppercase tracking-widest text-green-700 mt-1">Client Preferred</p>}
                                               <p className="text-xs font-black uppercase tracking-widest text-blue-900 mt-2">Before 12:00 PM</p>
                                           </div>
                                       </button>
@@ -778,6 +1083,7 @@ const PlanSummaryStep: React.FC<PlanSummaryStepProps> = ({ plan, role, onEditPla
                                           <div className="bg-orange-500 text-white p-3 rounded-2xl text-xl">☀️</div>
                                           <div>
                                               <p className="text-xl font-black text-gray-950 leading-none">Afternoon</p>
+                                              {preferredPeriod === 'afternoon' && <p className="text-[10px] font-black uppercase tracking-widest text-green-700 mt-1">Client Preferred</p>}
                                               <p className="text-xs font-black uppercase tracking-widest text-orange-900 mt-2">12:00 PM - 5:00 PM</p>
                                           </div>
                                       </button>
@@ -785,6 +1091,7 @@ const PlanSummaryStep: React.FC<PlanSummaryStepProps> = ({ plan, role, onEditPla
                                           <div className="bg-indigo-500 text-white p-3 rounded-2xl text-xl">🌙</div>
                                           <div>
                                               <p className="text-xl font-black text-gray-950 leading-none">Evening</p>
+                                              {preferredPeriod === 'evening' && <p className="text-[10px] font-black uppercase tracking-widest text-green-700 mt-1">Client Preferred</p>}
                                               <p className="text-xs font-black uppercase tracking-widest text-indigo-900 mt-2">After 5:00 PM</p>
                                           </div>
                                       </button>
@@ -799,7 +1106,7 @@ const PlanSummaryStep: React.FC<PlanSummaryStepProps> = ({ plan, role, onEditPla
                                               <div className="grid grid-cols-2 gap-2">
                                                   {(slots as string[]).map((s, i) => (
                                                       <button key={i} onClick={() => executeBooking(s)} disabled={isBooking} className="p-4 border-4 border-gray-100 rounded-2xl text-center hover:border-brand-accent hover:bg-blue-50 active:scale-95 transition-all text-gray-950">
-                                                          <span className="font-black text-base">{new Date(s).toLocaleTimeString([], {hour:'2-digit', minute:'2-digit'})}</span>
+                                                          <span className="font-black text-base">{new Date(s).toLocaleTimeString([], {hour:'2-digit', minute:'2-digit', timeZone: salonTimezone})}</span>
                                                       </button>
                                                   ))}
                                               </div>
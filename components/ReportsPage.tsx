@@ -14,9 +14,10 @@ type ReportScope = 'salon' | 'self' | string; // 'salon', 'self', or a stylist I
 const ReportsPage: React.FC<ReportsPageProps> = ({ user, onBack }) => {
   const [scope, setScope] = useState<ReportScope>(user.role === 'admin' ? 'salon' : 'self');
   const [activeReport, setActiveReport] = useState<string>('overview');
+  const [locationFilter, setLocationFilter] = useState<string>('all');
   
   const { plans } = usePlans();
-  const { stylists } = useSettings();
+  const { stylists, locations } = useSettings();
 
   const isAdmin = user.role === 'admin';
 
@@ -28,10 +29,15 @@ const ReportsPage: React.FC<ReportsPageProps> = ({ user, onBack }) => {
   }, [isAdmin, stylists]);
 
   const filteredPlans = useMemo(() => {
-    if (scope === 'salon') return plans;
+    // Plans made before locations were tracked belong to the primary location.
+    const primaryLocationId = locations[0]?.id;
+    const atLocation = locationFilter === 'all'
+      ? plans
+      : plans.filter(p => (p.locationId || primaryLocationId) === locationFilter);
+    if (scope === 'salon') return atLocation;
     const targetStylistId = scope === 'self' ? user.id : scope;
-    return plans.filter(p => p.stylistId === targetStylistId);
-  }, [plans, scope, user.id]);
+    return atLocation.filter(p => p.stylistId === targetStylistId);
+  }, [plans, scope, user.id, locations, locationFilter]);
 
   const reportData = useMemo(() => {
     const totalRevenue = filteredPlans.reduce((sum, p) => sum + p.totalCost, 0);
@@ -99,6 +105,20 @@ const ReportsPage: React.FC<ReportsPageProps> = ({ user, onBack }) => {
                 </select>
             </div>
         )}
+
+        {locations.length > 1 && (
+            <div className="mb-6">
+                <label className="text-xs font-black text-gray-500 uppercase tracking-widest mb-2 block">Location</label>
+                <select
+                    value={locationFilter}
+                    onChange={e => setLocationFilter(e.target.value)}
+                    className="w-full p-4 bg-white border-4 border-gray-100 rounded-2xl font-black text-gray-950 shadow-sm outline-none"
+                >
+                    <option value="all">All Locations</option>
+                    {locations.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+                </select>
+            </div>
+        )}
         
         {/* Placeholder for report selection */}
         <div className="border-t-2 border-gray-100 pt-6">
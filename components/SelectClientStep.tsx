@@ -38,6 +38,9 @@ const SelectClientStep: React.FC<SelectClientStepProps> = ({
       avatarUrl: c.avatar_url, // FIX
       source: 'square',        // FIX
       historicalData: [],      // Ensure required field from Client type is present
+      preferredWeekdays: c.preferredWeekdays ?? c.preferred_weekdays ?? [],
+      preferredTimePeriod: c.preferredTimePeriod ?? c.preferred_time_period ?? undefined,
+      preferredStylistId: c.preferredStylistId ?? c.preferred_stylist_id ?? undefined,
     }));
   }, [propClients]);
 
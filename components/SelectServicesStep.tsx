@@ -1,5 +1,5 @@
 import React, { useState, useMemo } from 'react';
-import type { Service } from '../types';
+import type { Service, PlanTemplate } from '../types';
 import { useSettings } from '../contexts/SettingsContext';
 import { useAuth } from '../contexts/AuthContext';
 import { PlusIcon, CheckCircleIcon } from './icons';
@@ -8,9 +8,11 @@ interface SelectServicesStepProps {
   availableServices: Service[];
   onNext: (selectedIds: string[]) => void;
   onBack: () => void;
+  templates?: PlanTemplate[];
+  onUseTemplate?: (template: PlanTemplate) => void;
 }
 
-const SelectServicesStep: React.FC<SelectServicesStepProps> = ({ availableServices, onNext, onBack }) => {
+const SelectServicesStep: React.FC<SelectServicesStepProps> = ({ availableServices, onNext, onBack, templates = [], onUseTemplate }) => {
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [searchTerm, setSearchTerm] = useState('');
   const [activeCategory, setActiveCategory] = useState<string | null>(null);
@@ -100,6 +102,26 @@ const SelectServicesStep: React.FC<SelectServicesStepProps> = ({ availableServic
       </div>
       
       <div className="flex-grow overflow-y-auto px-4 pb-48 pt-4">
+        {onUseTemplate && templates.length > 0 && (
+            <div className="mb-8">
+                <h2 className="font-black text-gray-400 text-xs uppercase tracking-widest mb-4">Start From Template</h2>
+                <div className="flex space-x-3 overflow-x-auto pb-2 scrollbar-hide">
+                    {templates.map(template => (
+                        <button
+                            key={template.id}
+                            onClick={() => onUseTemplate(template)}
+                            className="flex-shrink-0 p-4 bg-white border-4 border-gray-100 rounded-2xl text-left hover:border-brand-accent active:scale-95 transition-all"
+                        >
+                            <p className="font-black text-gray-950 text-sm whitespace-nowrap">{template.name}</p>
+                            <p className="text-[10px] font-black text-gray-400 uppercase tracking-widest">
+                                {template.scope === 'salon' ? 'Salon' : 'Mine'} · {template.services.length} services
+                            </p>
+                        </button>
+                    ))}
+                </div>
+            </div>
+        )}
+
         {linkingSuggestion && (
             <div className="mb-6 bg-brand-secondary text-white p-5 rounded-[32px] border-b-4 border-black/20 shadow-xl animate-bounce-in flex items-center justify-between">
                 <div className="pr-4 text-white">
@@ -1,9 +1,11 @@
 
 
 import React, { useState, useEffect } from 'react';
-import type { Service, PlanDetails, Client } from '../types';
+import type { Service, PlanDetails, Client, ClientSchedulingPreferences, TimePeriod } from '../types';
 import { useSettings } from '../contexts/SettingsContext';
 import { ensureAccessibleColor } from '../utils/ensureAccessibleColor';
+import { addDays, getEventLeadDays, localDateKey, parseLocalDateKey } from '../utils/planScheduler';
+import { salonToday, toSalonDate } from '../utils/salonDates';
 
 interface SetDatesStepProps {
   selectedServices: Service[];
@@ -11,41 +13,109 @@ interface SetDatesStepProps {
   client: Client;
   onNext: (details: PlanDetails) => void;
   onBack: () => void;
+  onClientUpdate?: (client: Client) => void;
 }
 
 type SelectionMode = 'today' | 'next' | 'last' | 'offset' | 'custom';
+type ScheduleMode = 'forward' | 'event';
 
-const SetDatesStep: React.FC<SetDatesStepProps> = ({ selectedServices, planDetails, client, onNext, onBack }) => {
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const TIME_PERIODS: TimePeriod[] = ['all', 'morning', 'afternoon', 'evening'];
+
+const SetDatesStep: React.FC<SetDatesStepProps> = ({ selectedServices, planDetails, client, onNext, onBack, onClientUpdate }) => {
   const [localDetails, setLocalDetails] = useState<PlanDetails>(planDetails);
   const [selections, setSelections] = useState<{[key: string]: SelectionMode | null}>({});
   const [offsets, setOffsets] = useState<{[key: string]: number}>({});
-  const { branding } = useSettings();
+  const existingEvent = Object.values(planDetails).find(d => d?.eventDate)?.eventDate;
+  const [scheduleMode, setScheduleMode] = useState<ScheduleMode>(existingEvent ? 'event' : 'forward');
+  const [eventDateInput, setEventDateInput] = useState(existingEvent ? localDateKey(existingEvent) : '');
+  const [preferences, setPreferences] = useState<ClientSchedulingPreferences>({
+    preferredWeekdays: client.preferredWeekdays || [],
+    preferredTimePeriod: client.preferredTimePeriod || 'all',
+    preferredStylistId: client.preferredStylistId,
+  });
+  const [isSavingPreferences, setIsSavingPreferences] = useState(false);
+  const [preferencesError, setPreferencesError] = useState<string | null>(null);
+  const { branding, stylists, updateClientPreferences, salonTimezone } = useSettings();
 
   useEffect(() => {
     setLocalDetails(planDetails);
   }, [planDetails]);
 
+  // `date` is already a salon calendar date (see salonDates.ts).
   const handleDateChange = (serviceId: string, date: Date | null, mode: SelectionMode | null) => {
-    let finalDate: Date | null = null;
-    if (date) {
-        const newDate = new Date(date);
-        const timezoneOffset = newDate.getTimezoneOffset() * 60000;
-        finalDate = new Date(newDate.getTime() + timezoneOffset);
-    }
-    
-    setLocalDetails(prev => ({ ...prev, [serviceId]: { ...prev[serviceId], firstDate: finalDate }}));
+    setLocalDetails(prev => ({ ...prev, [serviceId]: { ...prev[serviceId], firstDate: date }}));
     setSelections(prev => ({...prev, [serviceId]: mode}));
   };
   
   const handleOffsetChange = (serviceId: string, weeks: number) => {
       const offsetVal = Math.max(0, weeks);
       setOffsets(prev => ({...prev, [serviceId]: offsetVal}));
-      const newDate = new Date();
-      newDate.setDate(newDate.getDate() + offsetVal * 7);
-      handleDateChange(serviceId, newDate, 'offset');
+      handleDateChange(serviceId, addDays(salonToday(salonTimezone), offsetVal * 7), 'offset');
   }
 
-  const isNextDisabled = selectedServices.some(service => !localDetails[service.id]?.firstDate);
+  // "Ready by" mode: first dates become each service's last prep visit before the event.
+  const handleEventDateChange = (value: string) => {
+      setEventDateInput(value);
+      const event = value ? parseLocalDateKey(value) : null;
+      setLocalDetails(prev => {
+          const next = { ...prev };
+          selectedServices.forEach(service => {
+              const detail = prev[service.id];
+              next[service.id] = { ...detail, eventDate: event, firstDate: event ? addDays(event, -getEventLeadDays(service, detail)) : null };
+          });
+          return next;
+      });
+  };
+
+  const handleLeadDaysChange = (service: Service, days: number) => {
+      const leadDays = Math.max(0, days);
+      setLocalDetails(prev => {
+          const detail = prev[service.id];
+          const firstDate = detail?.eventDate ? addDays(detail.eventDate, -leadDays) : detail?.firstDate;
+          return { ...prev, [service.id]: { ...detail, leadDays, firstDate } };
+      });
+  };
+
+  const switchScheduleMode = (mode: ScheduleMode) => {
+      if (mode === scheduleMode) return;
+      setScheduleMode(mode);
+      setSelections({});
+      setOffsets({});
+      setEventDateInput('');
+      setLocalDetails(prev => {
+          const next = { ...prev };
+          selectedServices.forEach(service => {
+              next[service.id] = { ...prev[service.id], firstDate: null, eventDate: null, leadDays: undefined };
+          });
+          return next;
+      });
+  };
+
+  const togglePreferredWeekday = (day: number) => {
+      const current = preferences.preferredWeekdays || [];
+      const next = current.includes(day) ? current.filter(d => d !== day) : [...current, day].sort();
+      setPreferences(prev => ({ ...prev, preferredWeekdays: next }));
+  };
+
+  const savePreferences = async () => {
+      setIsSavingPreferences(true);
+      setPreferencesError(null);
+      try {
+          const updated = await updateClientPreferences(client.id, preferences);
+          onClientUpdate?.({ ...client, ...updated });
+      } catch (e: any) {
+          console.error('Failed to save client preferences:', e);
+          setPreferencesError('Could not save preferences. Please try again.');
+      } finally {
+          setIsSavingPreferences(false);
+      }
+  };
+
+  const todayKey = localDateKey(salonToday(salonTimezone));
+  const isEventInPast = !!eventDateInput && eventDateInput < todayKey;
+  const isNextDisabled = selectedServices.some(service => !localDetails[service.id]?.firstDate)
+      || (scheduleMode === 'event' && (!eventDateInput || isEventInPast));
 
   const getButtonClass = (isSelected: boolean, isDisabled: boolean) => {
       let base = "p-3 rounded-lg transition-all ";
@@ -58,24 +128,113 @@ const SetDatesStep: React.FC<SetDatesStepProps> = ({ selectedServices, planDetai
     <div className="flex flex-col h-full p-4 pb-12">
       <div className="text-center p-4">
         <div className="relative w-full h-2 bg-gray-200 mb-4 rounded-full"><div className="absolute top-0 left-0 h-2 bg-brand-secondary rounded-full" style={{width: '33%'}}></div></div>
-        <h1 className="text-2xl font-bold text-gray-900">First Service Date</h1>
+        <h1 className="text-2xl font-bold text-gray-900">{scheduleMode === 'event' ? 'Ready By Date' : 'First Service Date'}</h1>
       </div>
       
       <div className="flex-grow overflow-y-auto p-4 space-y-6">
+        <div className="p-4 rounded-xl bg-white border border-gray-200 shadow-sm">
+            <h3 className="font-bold text-lg text-gray-900 mb-1">{client.name.split(' ')[0]}'s Preferences</h3>
+            <p className="text-xs text-gray-500 mb-3">Roadmap visits snap to these days. Booking starts with this time of day.</p>
+            <div className="grid grid-cols-7 gap-1 mb-3">
+                {WEEKDAY_LABELS.map((label, day) => {
+                    const isSelected = preferences.preferredWeekdays?.includes(day);
+                    return (
+                        <button
+                            key={label}
+                            onClick={() => togglePreferredWeekday(day)}
+                            className={`py-2 rounded-lg text-xs font-bold ${isSelected ? 'shadow-md' : 'bg-white text-gray-800 border border-gray-400'}`}
+                            style={isSelected ? { backgroundColor: branding.secondaryColor, color: ensureAccessibleColor('#FFFFFF', branding.secondaryColor, '#1F2937') } : {}}
+                        >
+                            {label}
+                        </button>
+                    );
+                })}
+            </div>
+            <div className="grid grid-cols-2 gap-3 text-sm mb-3">
+                <select
+                    value={preferences.preferredTimePeriod || 'all'}
+                    onChange={e => setPreferences(prev => ({ ...prev, preferredTimePeriod: e.target.value as TimePeriod }))}
+                    className="p-3 border border-gray-400 rounded-lg font-bold bg-white text-gray-900"
+                >
+                    {TIME_PERIODS.map(p => <option key={p} value={p}>{p === 'all' ? 'Any Time' : p.charAt(0).toUpperCase() + p.slice(1)}</option>)}
+                </select>
+                <select
+                    value={preferences.preferredStylistId || ''}
+                    onChange={e => setPreferences(prev => ({ ...prev, preferredStylistId: e.target.value || undefined }))}
+                    className="p-3 border border-gray-400 rounded-lg font-bold bg-white text-gray-900"
+                >
+                    <option value="">Any Stylist</option>
+                    {stylists.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                </select>
+            </div>
+            {preferencesError && <p className="text-red-500 text-xs font-bold mb-2">{preferencesError}</p>}
+            <button onClick={savePreferences} disabled={isSavingPreferences} className="w-full p-3 rounded-lg font-bold bg-gray-100 text-gray-900 border border-gray-300 hover:bg-gray-200 disabled:opacity-50">
+                {isSavingPreferences ? 'Saving...' : 'Save Preferences'}
+            </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 text-sm font-bold">
+            {(['forward', 'event'] as ScheduleMode[]).map(mode => (
+                <button
+                    key={mode}
+                    onClick={() => switchScheduleMode(mode)}
+                    className={getButtonClass(scheduleMode === mode, false)}
+                    style={scheduleMode === mode ? { backgroundColor: branding.secondaryColor, color: ensureAccessibleColor('#FFFFFF', branding.secondaryColor, '#1F2937'), borderColor: branding.secondaryColor } : {}}
+                >
+                    {mode === 'forward' ? 'Start Dates' : 'Ready By Event'}
+                </button>
+            ))}
+        </div>
+
+        {scheduleMode === 'event' ? (
+          <div className="p-4 rounded-xl bg-gray-50 border border-gray-200 shadow-sm">
+            <label htmlFor="event-date" className="block font-bold text-gray-700 mb-1 text-xs uppercase">Event Date</label>
+            <input
+                type="date"
+                id="event-date"
+                value={eventDateInput}
+                min={todayKey}
+                onChange={e => handleEventDateChange(e.target.value)}
+                className="w-full p-3 border border-gray-400 rounded-lg font-medium shadow-sm text-gray-900 bg-white"
+            />
+            {isEventInPast && <p className="text-red-500 text-xs font-bold mt-2">The event date must be today or later.</p>}
+            <p className="text-xs text-gray-500 mt-3 mb-2">Each service's last visit lands this many days before the event. Earlier visits are scheduled backward from it, and maintenance continues afterward.</p>
+            <div className="space-y-2">
+                {selectedServices.map(service => {
+                    const detail = localDetails[service.id];
+                    return (
+                        <div key={service.id} className="flex items-center justify-between text-sm">
+                            <span className="font-bold text-gray-900">{service.name}</span>
+                            <div className="flex items-center space-x-2">
+                                <input
+                                    type="number"
+                                    value={getEventLeadDays(service, detail)}
+                                    onChange={e => handleLeadDaysChange(service, parseInt(e.target.value, 10) || 0)}
+                                    className="w-16 p-2 border border-gray-300 rounded text-black text-center font-bold"
+                                />
+                                <span className="font-bold text-gray-700">days before</span>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+          </div>
+        ) : (
+          <>
         {selectedServices.map(service => (
           <div key={service.id} className="p-4 rounded-xl bg-gray-50 border border-gray-200 shadow-sm">
             <h3 className="font-bold text-lg text-gray-900 mb-3">{service.name}</h3>
             
             <div className="grid grid-cols-2 gap-3 text-sm font-bold">
                 <button 
-                    onClick={() => handleDateChange(service.id, new Date(), 'today')} 
+                    onClick={() => handleDateChange(service.id, salonToday(salonTimezone), 'today')} 
                     className={getButtonClass(selections[service.id] === 'today', false)}
                     style={selections[service.id] === 'today' ? { backgroundColor: branding.secondaryColor, color: ensureAccessibleColor('#FFFFFF', branding.secondaryColor, '#1F2937'), borderColor: branding.secondaryColor } : {}}
                 >
                     Today
                 </button>
                 <button 
-                    onClick={() => handleDateChange(service.id, client.nextAppointmentDate || null, 'next')} 
+                    onClick={() => handleDateChange(service.id, client.nextAppointmentDate ? toSalonDate(client.nextAppointmentDate, salonTimezone) : null, 'next')} 
                     disabled={!client.nextAppointmentDate} 
                     className={getButtonClass(selections[service.id] === 'next', !client.nextAppointmentDate)}
                     style={selections[service.id] === 'next' ? { backgroundColor: branding.secondaryColor, color: ensureAccessibleColor('#FFFFFF', branding.secondaryColor, '#1F2937'), borderColor: branding.secondaryColor } : {}}
@@ -83,7 +242,7 @@ const SetDatesStep: React.FC<SetDatesStepProps> = ({ selectedServices, planDetai
                     Next Scheduled
                 </button>
                 <button 
-                    onClick={() => handleDateChange(service.id, client.lastAppointmentDate || null, 'last')} 
+                    onClick={() => handleDateChange(service.id, client.lastAppointmentDate ? toSalonDate(client.lastAppointmentDate, salonTimezone) : null, 'last')} 
                     disabled={!client.lastAppointmentDate} 
                     className={`col-span-2 ${getButtonClass(selections[service.id] === 'last', !client.lastAppointmentDate)}`}
                     style={selections[service.id] === 'last' ? { backgroundColor: branding.secondaryColor, color: ensureAccessibleColor('#FFFFFF', branding.secondaryColor, '#1F2937'), borderColor: branding.secondaryColor } : {}}
@@ -115,12 +274,14 @@ const SetDatesStep: React.FC<SetDatesStepProps> = ({ selectedServices, planDetai
                 <input 
                     type="date" 
                     id={`date-${service.id}`} 
-                    onChange={e => handleDateChange(service.id, new Date(e.target.value), 'custom')} 
+                    onChange={e => handleDateChange(service.id, e.target.value ? parseLocalDateKey(e.target.value) : null, 'custom')} 
                     className={`w-full p-3 border rounded-lg font-medium shadow-sm ${selections[service.id] === 'custom' ? 'border-brand-secondary bg-white text-gray-900' : 'border-gray-400 text-gray-900 bg-white'}`}
                 />
             </div>
           </div>
         ))}
+          </>
+        )}
       </div>
 
       <div className="p-4 mt-auto space-y-3 bg-white border-t border-gray-200">
@@ -1,24 +1,50 @@
 
 import React, { useState, useEffect } from 'react';
-import type { Service, PlanDetails } from '../types';
+import type { Service, PlanDetails, IntervalUnit, FrequencyPhase, GeneratedPlan } from '../types';
 import { useSettings } from '../contexts/SettingsContext';
 import { ensureAccessibleColor } from '../utils/ensureAccessibleColor';
+import { hasFrequency, proposeBudgetFrequencies, BudgetProposal } from '../utils/planScheduler';
 
 interface SetFrequencyStepProps {
   selectedServices: Service[];
   planDetails: PlanDetails;
   onNext: (details: PlanDetails) => void;
   onBack: () => void;
+  previewPlan?: (details: PlanDetails) => GeneratedPlan | null;
+  onCompare?: (details: PlanDetails) => void;
+  onSaveTemplate?: (name: string, details: PlanDetails) => Promise<void>;
 }
 
-const SetFrequencyStep: React.FC<SetFrequencyStepProps> = ({ selectedServices, planDetails, onNext, onBack }) => {
+const INTERVAL_UNITS: IntervalUnit[] = ['days', 'weeks', 'months'];
+
+const SetFrequencyStep: React.FC<SetFrequencyStepProps> = ({ selectedServices, planDetails, onNext, onBack, previewPlan, onCompare, onSaveTemplate }) => {
   const [localDetails, setLocalDetails] = useState<PlanDetails>(planDetails);
-  const { branding } = useSettings();
+  const [budgetInput, setBudgetInput] = useState('');
+  const [proposal, setProposal] = useState<(BudgetProposal & { currentSpend: number }) | null>(null);
+  const [templateName, setTemplateName] = useState('');
+  const [templateStatus, setTemplateStatus] = useState<string | null>(null);
+  const { branding, stylists } = useSettings();
 
    useEffect(() => {
     setLocalDetails(planDetails);
   }, [planDetails]);
 
+  // Any edit (including accepting a proposal) makes the last proposal stale.
+  useEffect(() => {
+    setProposal(null);
+  }, [localDetails]);
+
+  const formatCurrency = (val: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: 0 }).format(val || 0);
+
+  const handleProposeBudget = () => {
+    const budget = parseFloat(budgetInput);
+    if (!previewPlan || !(budget > 0)) return;
+    const current = previewPlan(localDetails);
+    if (!current) return;
+    const result = proposeBudgetFrequencies(localDetails, selectedServices, budget, details => previewPlan(details) || current);
+    setProposal({ ...result, currentSpend: current.averageMonthlySpend });
+  };
+
   const handleFrequencyChange = (serviceId: string, freq: number) => {
     const frequency = Math.max(1, freq); // Ensure frequency is at least 1
     setLocalDetails(prev => ({
@@ -26,13 +52,90 @@ const SetFrequencyStep: React.FC<SetFrequencyStepProps> = ({ selectedServices, p
       [serviceId]: { ...prev[serviceId], frequency },
     }));
   };
+
+  const handleStylistChange = (serviceId: string, stylistId: string) => {
+    setLocalDetails(prev => ({
+      ...prev,
+      [serviceId]: { ...prev[serviceId], stylistId: stylistId || undefined },
+    }));
+  };
+
+  const handleUnitChange = (serviceId: string, unit: IntervalUnit) => {
+    setLocalDetails(prev => ({
+      ...prev,
+      [serviceId]: { ...prev[serviceId], unit },
+    }));
+  };
+
+  const setPhases = (serviceId: string, update: (phases: FrequencyPhase[]) => FrequencyPhase[] | undefined) => {
+    setLocalDetails(prev => ({
+      ...prev,
+      [serviceId]: { ...prev[serviceId], phases: update(prev[serviceId]?.phases || []) },
+    }));
+  };
+
+  // Starts a ramp from the current single frequency: three visits at that pace, then half as often.
+  const togglePhased = (serviceId: string) => {
+    const detail = localDetails[serviceId];
+    const interval = detail?.frequency || 4;
+    const unit = detail?.unit || 'weeks';
+    setPhases(serviceId, phases => phases.length ? undefined : [
+      { interval, unit, visits: 3 },
+      { interval: interval * 2, unit, visits: null },
+    ]);
+  };
+
+  const updatePhase = (serviceId: string, index: number, patch: Partial<FrequencyPhase>) => {
+    setPhases(serviceId, phases => phases.map((p, i) => {
+      if (i !== index) return p;
+      const next = { ...p, ...patch };
+      return { ...next, interval: Math.max(1, next.interval || 1), visits: next.visits == null ? null : Math.max(1, next.visits) };
+    }));
+  };
+
+  const addPhase = (serviceId: string) => {
+    setPhases(serviceId, phases => {
+      const last = phases[phases.length - 1];
+      return [...phases.slice(0, -1), { interval: last.interval, unit: last.unit, visits: 1 }, last];
+    });
+  };
+
+  const removePhase = (serviceId: string, index: number) => {
+    setPhases(serviceId, phases => {
+      const next = phases.filter((_, i) => i !== index);
+      return next.length > 1 ? next : undefined;
+    });
+  };
   
   const formatDate = (date: Date | null) => {
       if (!date) return '';
       return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
   }
 
-  const isNextDisabled = selectedServices.some(service => !localDetails[service.id]?.frequency);
+  const isNextDisabled = selectedServices.some(service => !hasFrequency(localDetails[service.id]));
+
+  const handleSaveTemplate = async () => {
+    if (!onSaveTemplate || !templateName.trim()) return;
+    setTemplateStatus('Saving...');
+    try {
+      await onSaveTemplate(templateName.trim(), localDetails);
+      setTemplateName('');
+      setTemplateStatus('Template saved.');
+    } catch (e: any) {
+      console.error('Failed to save template:', e);
+      setTemplateStatus('Could not save template.');
+    }
+  };
+
+  const unitSelect = (value: IntervalUnit, onChange: (unit: IntervalUnit) => void) => (
+    <select
+        value={value}
+        onChange={(e) => onChange(e.target.value as IntervalUnit)}
+        className="p-2 border border-gray-300 rounded font-medium bg-white text-gray-900"
+    >
+        {INTERVAL_UNITS.map(u => <option key={u} value={u}>{u}</option>)}
+    </select>
+  );
 
   return (
     <div className="flex flex-col h-full p-4 pb-12">
@@ -45,25 +148,131 @@ const SetFrequencyStep: React.FC<SetFrequencyStepProps> = ({ selectedServices, p
       </div>
       
       <div className="flex-grow overflow-y-auto p-4 space-y-4">
-        {selectedServices.map(service => (
+        {previewPlan && (
+          <div className="p-4 rounded-lg bg-white border border-gray-200">
+            <h3 className="font-bold text-gray-900 mb-2">Fit a Monthly Budget</h3>
+            <div className="flex items-center space-x-2">
+                <span className="font-medium text-gray-700">$</span>
+                <input
+                    type="number"
+                    value={budgetInput}
+                    onChange={(e) => setBudgetInput(e.target.value)}
+                    className="flex-grow p-2 border border-gray-300 rounded font-bold bg-white text-gray-900"
+                    placeholder="150"
+                />
+                <span className="font-medium text-gray-700">/ mo</span>
+                <button
+                    onClick={handleProposeBudget}
+                    disabled={isNextDisabled || !(parseFloat(budgetInput) > 0)}
+                    className="px-4 py-2 rounded font-bold bg-gray-100 text-gray-900 border border-gray-300 disabled:opacity-50"
+                >
+                    Propose
+                </button>
+            </div>
+            {proposal && (
+                <div className="mt-3 text-sm">
+                    <p className="text-gray-700 mb-2">
+                        {formatCurrency(proposal.currentSpend)} / mo &rarr; <span className="font-bold">{formatCurrency(proposal.averageMonthlySpend)} / mo</span>
+                    </p>
+                    {proposal.changes.length === 0 ? (
+                        <p className="text-gray-500">The current frequencies already fit this budget.</p>
+                    ) : (
+                        <ul className="space-y-1 mb-3">
+                            {proposal.changes.map(change => (
+                                <li key={change.serviceId} className="text-gray-700">
+                                    <span className="font-bold">{change.serviceName}</span> every {change.to.interval} {change.to.unit} instead of {change.from.interval}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                    {!proposal.withinBudget && (
+                        <p className="text-red-500 text-xs font-bold mb-2">Even at the longest sensible intervals this plan stays over budget. Consider removing a service.</p>
+                    )}
+                    {proposal.changes.length > 0 && (
+                        <button onClick={() => setLocalDetails(proposal.details)} className="w-full p-2 rounded font-bold bg-gray-900 text-white">
+                            Accept Proposal
+                        </button>
+                    )}
+                </div>
+            )}
+          </div>
+        )}
+        {selectedServices.map(service => {
+          const detail = localDetails[service.id];
+          const phases = detail?.phases || [];
+          const isPhased = phases.length > 0;
+          return (
           <div key={service.id} className="p-4 rounded-lg bg-gray-50 border border-gray-200">
             <div className="flex justify-between items-baseline">
                 <h3 className="font-bold text-lg text-gray-900 mb-3">{service.name}</h3>
-                <span className="text-xs text-gray-500">Starts: {formatDate(localDetails[service.id]?.firstDate)}</span>
-            </div>
-            <div className="flex items-center space-x-2">
-                <span className="font-medium text-gray-700">Every</span>
-                 <input 
-                    type="number" 
-                    value={localDetails[service.id]?.frequency || ''} 
-                    onChange={(e) => handleFrequencyChange(service.id, parseInt(e.target.value, 10))}
-                    className="w-20 p-2 border border-gray-300 rounded text-center font-bold text-lg bg-white text-gray-900"
-                    placeholder="Wks"
-                />
-                <span className="font-medium text-gray-700">weeks</span>
+                <span className="text-xs text-gray-500">{detail?.eventDate ? `Ready by: ${formatDate(detail.eventDate)}` : `Starts: ${formatDate(detail?.firstDate)}`}</span>
             </div>
+            {isPhased ? (
+                <div className="space-y-2">
+                    {phases.map((phase, index) => {
+                        const isLast = index === phases.length - 1;
+                        return (
+                            <div key={index} className="flex items-center space-x-2 text-sm">
+                                <span className="font-medium text-gray-700 w-20">{index === 0 ? 'Every' : isLast ? 'Then every' : 'Then'}</span>
+                                <input
+                                    type="number"
+                                    value={phase.interval || ''}
+                                    onChange={(e) => updatePhase(service.id, index, { interval: parseInt(e.target.value, 10) })}
+                                    className="w-16 p-2 border border-gray-300 rounded text-center font-bold bg-white text-gray-900"
+                                />
+                                {unitSelect(phase.unit, unit => updatePhase(service.id, index, { unit }))}
+                                {!isLast && (
+                                    <>
+                                        <span className="font-medium text-gray-700">x</span>
+                                        <input
+                                            type="number"
+                                            value={phase.visits ?? ''}
+                                            onChange={(e) => updatePhase(service.id, index, { visits: parseInt(e.target.value, 10) || 1 })}
+                                            className="w-14 p-2 border border-gray-300 rounded text-center font-bold bg-white text-gray-900"
+                                        />
+                                        <button onClick={() => removePhase(service.id, index)} className="text-gray-400 font-bold px-1">&times;</button>
+                                    </>
+                                )}
+                            </div>
+                        );
+                    })}
+                    <div className="flex justify-between pt-1">
+                        <button onClick={() => addPhase(service.id)} className="text-xs font-bold text-gray-700 underline">Add Phase</button>
+                        <button onClick={() => togglePhased(service.id)} className="text-xs font-bold text-gray-500 underline">Use Single Frequency</button>
+                    </div>
+                </div>
+            ) : (
+                <>
+                    <div className="flex items-center space-x-2">
+                        <span className="font-medium text-gray-700">Every</span>
+                         <input 
+                            type="number" 
+                            value={detail?.frequency || ''} 
+                            onChange={(e) => handleFrequencyChange(service.id, parseInt(e.target.value, 10))}
+                            className="w-20 p-2 border border-gray-300 rounded text-center font-bold text-lg bg-white text-gray-900"
+                            placeholder="#"
+                        />
+                        {unitSelect(detail?.unit || 'weeks', unit => handleUnitChange(service.id, unit))}
+                    </div>
+                    <button onClick={() => togglePhased(service.id)} className="mt-3 text-xs font-bold text-gray-500 underline">Ramp Up With Phases</button>
+                </>
+            )}
+            {stylists.length > 0 && (
+                <div className="mt-3 flex items-center space-x-2 text-sm">
+                    <span className="font-medium text-gray-700">Performed by</span>
+                    <select
+                        value={detail?.stylistId || ''}
+                        onChange={e => handleStylistChange(service.id, e.target.value)}
+                        className="flex-grow p-2 border border-gray-300 rounded font-bold bg-white text-gray-900"
+                    >
+                        <option value="">Roadmap Stylist</option>
+                        {stylists.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                    </select>
+                </div>
+            )}
           </div>
-        ))}
+          );
+        })}
       </div>
 
       <div className="p-4 mt-auto space-y-2">
@@ -75,6 +284,33 @@ const SetFrequencyStep: React.FC<SetFrequencyStepProps> = ({ selectedServices, p
         >
           Create Maintenance Roadmap
         </button>
+        {onSaveTemplate && (
+          <div className="flex items-center space-x-2">
+            <input
+              value={templateName}
+              onChange={(e) => setTemplateName(e.target.value)}
+              placeholder="Template name"
+              className="flex-grow p-2 border border-gray-300 rounded font-medium bg-white text-gray-900"
+            />
+            <button
+              onClick={handleSaveTemplate}
+              disabled={isNextDisabled || !templateName.trim()}
+              className="px-4 py-2 rounded font-bold bg-gray-100 text-gray-900 border border-gray-300 disabled:opacity-50"
+            >
+              Save as Template
+            </button>
+          </div>
+        )}
+        {templateStatus && <p className="text-xs text-gray-500 text-center">{templateStatus}</p>}
+        {onCompare && (
+          <button
+            onClick={() => onCompare(localDetails)}
+            disabled={isNextDisabled}
+            className="w-full font-bold py-3 px-4 rounded-full border-2 border-gray-300 text-gray-800 bg-white disabled:text-gray-400 disabled:cursor-not-allowed"
+          >
+            Compare Options
+          </button>
+        )}
         <button
           onClick={onBack}
           className="w-full bg-transparent text-gray-600 font-semibold py-2 px-4"
@@ -1,9 +1,47 @@
 import { useEffect, useRef, useState } from 'react';
 import { supabase } from '../lib/supabase';
+import { SquareIntegrationService } from '../services/squareIntegration';
+
+// What the salon sees for each way a connect can be refused.
+const CALLBACK_ERRORS: { [code: string]: { title: string; message: string } } = {
+  state_missing: {
+    title: 'Connect request missing',
+    message: 'Square sent you back without the request this app started. Start the connection again from the app.',
+  },
+  state_invalid: {
+    title: 'Connect request not recognised',
+    message: 'This link was not started by this app, so it was not used. Start the connection again from the app.',
+  },
+  state_expired: {
+    title: 'Connect request expired',
+    message: 'Square took longer than 10 minutes to respond. Start the connection again to get a fresh request.',
+  },
+  state_used: {
+    title: 'Link already used',
+    message: 'This Square link has already connected once and cannot be used again.',
+  },
+  state_mismatch: {
+    title: 'Different browser or account',
+    message: 'The connection was started in another browser or while signed in as someone else. Start it again here.',
+  },
+  merchant_linked: {
+    title: 'Square account already connected',
+    message: 'This Square account is connected to a different login. Sign in with that login, or connect another Square account.',
+  },
+  access_denied: {
+    title: 'Connection cancelled',
+    message: 'Square access was not granted. You can try again whenever you are ready.',
+  },
+};
+
+const GENERIC_ERROR = {
+  title: 'Square login failed',
+  message: 'Please return to the app and try connecting again.',
+};
 
 export default function SquareCallback() {
   const hasRun = useRef(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<{ title: string; message: string } | null>(null);
 
   useEffect(() => {
     if (hasRun.current) return;
@@ -11,21 +49,41 @@ export default function SquareCallback() {
 
     const params = new URLSearchParams(window.location.search);
     const code = params.get('code');
+    const state = params.get('state');
+
+    if (params.get('error')) {
+      setError(CALLBACK_ERRORS.access_denied);
+      return;
+    }
 
     if (!code) {
-      setError('Missing authorization code from Square.');
+      setError({ ...GENERIC_ERROR, message: 'Missing authorization code from Square.' });
       return;
     }
 
-    fetch('/api/square/oauth/token', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ code }),
-    })
+    if (!state) {
+      setError(CALLBACK_ERRORS.state_missing);
+      return;
+    }
+
+    // A reconnect is bound to the signed-in user, so send the session along when there is one.
+    supabase.auth
+      .getSession()
+      .then(({ data: existing }) => {
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (existing?.session?.access_token) {
+          headers.Authorization = `Bearer ${existing.session.access_token}`;
+        }
+        return fetch('/api/square/oauth/token', {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({ code, state }),
+        });
+      })
       .then(async (res) => {
         const data = await res.json();
         if (!res.ok) {
-          throw new Error(data?.message || 'Square login failed');
+          throw Object.assign(new Error(data?.message || 'Square login failed'), { code: data?.code });
         }
         return data;
       })
@@ -35,22 +93,22 @@ export default function SquareCallback() {
         }
 
         const squareToken = data.access_token;
-        const merchantId = data.merchant_id;
-
-        if (merchantId) {
-          const email = `${merchantId}@square-oauth.blueprint`;
-          const password = merchantId;
-          const { error: signInError } = await supabase.auth.signInWithPassword({
-            email,
-            password,
-          });
-
-          if (signInError) {
-            throw new Error(
-              signInError.message ||
-                'Failed to establish a session after Square OAuth.'
-            );
-          }
+
+        // The server signs the salon in and hands back the session; no password is involved.
+        if (!data.session?.access_token || !data.session?.refresh_token) {
+          throw new Error('Square login did not return a session.');
+        }
+
+        const { error: setSessionError } = await supabase.auth.setSession({
+          access_token: data.session.access_token,
+          refresh_token: data.session.refresh_token,
+        });
+
+        if (setSessionError) {
+          throw new Error(
+            setSessionError.message ||
+              'Failed to establish a session after Square OAuth.'
+          );
         }
 
         const { data: sessionData, error: sessionError } =
@@ -89,20 +147,30 @@ export default function SquareCallback() {
       .catch((err) => {
         console.error('Square OAuth callback failed:', err);
         setError(
-          'Square login failed. Please return to the app and try connecting again.'
+          (err?.code && CALLBACK_ERRORS[err.code]) || GENERIC_ERROR
         );
       });
   }, []);
 
+  if (error) {
+    return (
+      <div style={{ padding: 24 }}>
+        <h2>{error.title}</h2>
+        <p style={{ marginTop: 16 }}>{error.message}</p>
+        <button
+          onClick={() => SquareIntegrationService.startConnect().catch(() => window.location.replace('/'))}
+          style={{ marginTop: 16, fontWeight: 700, textDecoration: 'underline' }}
+        >
+          Start again
+        </button>
+      </div>
+    );
+  }
+
   return (
     <div style={{ padding: 24 }}>
       <h2>Connecting Square…</h2>
       <p>Please wait. This may take a moment.</p>
-      {error && (
-        <p style={{ color: 'red', marginTop: 16 }}>
-          {error}
-        </p>
-      )}
     </div>
   );
 }
@@ -1,20 +1,28 @@
 import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
-import type { Step, Service, PlanDetails, GeneratedPlan, PlanAppointment, Client, UserRole } from '../types';
+import type { Step, Service, PlanDetails, GeneratedPlan, Client, UserRole, PlanTemplate } from '../types';
 import SelectClientStep from './SelectClientStep';
 import SelectServicesStep from './SelectServicesStep';
 import SetDatesStep from './SetDatesStep';
 import SetFrequencyStep from './SetFrequencyStep';
+import CompareScenariosStep from './CompareScenariosStep';
 import LoadingStep from './LoadingStep';
 import PlanSummaryStep from './PlanSummaryStep';
+import PlanEditor from './PlanEditor';
+import PlanRevisionHistory from './PlanRevisionHistory';
 import { useSettings } from '../contexts/SettingsContext';
 import { useAuth } from '../contexts/AuthContext';
 import { usePlans } from '../contexts/PlanContext';
 import { RefreshIcon, DocumentTextIcon, PlusIcon, CalendarIcon, ChevronRightIcon, UsersIcon, ClipboardIcon } from './icons';
 import AccountSettings from './AccountSettings';
+import LocationPicker from './LocationPicker';
 import AdminDashboard from './AdminDashboard';
 import StylistReports from './StylistReports';
 import { ensureAccessibleColor } from '../utils/ensureAccessibleColor';
+import { generatePlan as buildPlan, getPlanHorizonEnd, PlanHorizonMonths, PlanSchedulingOptions } from '../utils/planScheduler';
+import { buildRenewalDetails, isNearingRenewal } from '../utils/planLifecycle';
+import { salonToday, toSalonDate } from '../utils/salonDates';
+import { applyTemplate, templateServicesFromDetails } from '../utils/planTemplates';
 // FIX: Import BottomNav and Tab to resolve "Cannot find name" errors in the template.
 import BottomNav, { Tab } from './BottomNav';
 
@@ -43,9 +51,9 @@ const StylistDashboard: React.FC<StylistDashboardProps> = ({ onLogout, role: pro
     _setStep(newStep);
   };
   
-  const { services: availableServices, clients: globalClients, branding } = useSettings(); 
+  const { services: availableServices, clients: globalClients, stylists, schedulingConfig, closureCalendar, branding, salonTimezone, activeLocationId } = useSettings(); 
   const { user } = useAuth();
-  const { savePlan, getPlanForClient, getClientHistory, plans } = usePlans();
+  const { savePlan, getPlanForClient, getClientHistory, plans, templates, saveTemplate } = usePlans();
 
   const [activeClient, setActiveClient] = useState<Client | null>(propClient || null);
   const [selectedServiceIds, setSelectedServiceIds] = useState<string[]>([]);
@@ -55,7 +63,12 @@ const StylistDashboard: React.FC<StylistDashboardProps> = ({ onLogout, role: pro
   const [viewingHistory, setViewingHistory] = useState(false);
   const [selectedHistoryPlan, setSelectedHistoryPlan] = useState<GeneratedPlan | null>(null);
   
-  const currentPlan = selectedHistoryPlan || propPlan || (activeClient ? getPlanForClient(activeClient.id) : null);
+  const [isEditingPlan, setIsEditingPlan] = useState(false);
+  const [isViewingRevisions, setIsViewingRevisions] = useState(false);
+  
+  // Prefer the latest saved copy so edits and status changes show up immediately.
+  const selectedPlan = selectedHistoryPlan || propPlan;
+  const currentPlan = (selectedPlan && plans.find(p => p.id === selectedPlan.id)) || selectedPlan || (activeClient ? getPlanForClient(activeClient.id) : null);
 
   useEffect(() => {
       if (initialStep) {
@@ -77,6 +90,8 @@ const StylistDashboard: React.FC<StylistDashboardProps> = ({ onLogout, role: pro
       return plans.filter(p => p.stylistId === user.id);
   }, [plans, user]);
 
+  const renewalsDue = useMemo(() => myPlans.filter(p => isNearingRenewal(p)), [myPlans]);
+
   const myStats = useMemo(() => {
       const myPipeline = myPlans.reduce((sum, p) => sum + p.totalCost, 0);
       const myActivePlansCount = myPlans.filter(p => p.status === 'active').length;
@@ -111,48 +126,96 @@ const StylistDashboard: React.FC<StylistDashboardProps> = ({ onLogout, role: pro
     setPlanDetails({});
     setViewingHistory(false);
     setSelectedHistoryPlan(null);
+    setIsEditingPlan(false);
+    setIsViewingRevisions(false);
     setWizardCompleted(false);
     setStep('idle');
   };
 
+  const schedulingOptions: Partial<PlanSchedulingOptions> = {
+    mergePolicy: schedulingConfig.clusteringEnabled ? 'cluster' : 'same-day',
+    clusterWindowDays: schedulingConfig.clusterWindowDays,
+    maxChairMinutes: schedulingConfig.maxChairMinutes,
+    horizonMonths: schedulingConfig.horizonMonths,
+    startDatePolicy: schedulingConfig.rollForwardPastDates ? 'roll-forward' : 'as-selected',
+    closures: closureCalendar,
+    now: salonToday(salonTimezone),
+  };
+
+  // Same options for the budget optimizer's previews and the saved plan.
+  const draftPlan = (details: PlanDetails) => {
+    if (!user || !user.id || !activeClient) return null;
+    const levelId = user.stylistData?.levelId || stylists.find(s => s.id === user.id.toString())?.levelId;
+    const plan = buildPlan({
+        details,
+        services: availableServices,
+        client: activeClient,
+        stylist: { id: user.id.toString(), name: user.name || 'Stylist', levelId },
+        team: stylists,
+    }, schedulingOptions);
+    // Scheduling runs from the salon's calendar day; the record keeps the real creation time.
+    return { ...plan, createdAt: new Date().toISOString(), locationId: activeLocationId || undefined };
+  };
+
+  // The next period starts where this plan's horizon ends, with the same services and cadence.
+  const renewPlan = async (plan: GeneratedPlan) => {
+    const start = toSalonDate(getPlanHorizonEnd(plan), salonTimezone);
+    const levelId = stylists.find(s => s.id === plan.stylistId)?.levelId || plan.stylistLevelId;
+    const renewal = buildPlan({
+        details: buildRenewalDetails(plan),
+        services: availableServices,
+        client: plan.client,
+        stylist: { id: plan.stylistId, name: plan.stylistName, levelId },
+        team: stylists,
+    }, { ...schedulingOptions, horizonMonths: (plan.horizonMonths || 12) as PlanHorizonMonths, now: start });
+    const saved = await savePlan({
+        ...renewal,
+        createdAt: new Date().toISOString(),
+        startDate: start.toISOString(),
+        renewedFromPlanId: plan.id,
+        locationId: plan.locationId || activeLocationId || undefined,
+    }, 'Renewal');
+    await savePlan({ ...plan, renewedToPlanId: saved.id }, 'Renewed');
+    setSelectedHistoryPlan(saved);
+  };
+
+  const openPlan = (plan: GeneratedPlan) => {
+    setActiveClient(plan.client);
+    setSelectedHistoryPlan(plan);
+    setActiveTab('plans');
+    setWizardCompleted(true);
+    setStep('summary');
+  };
+
   const generatePlan = async (details: PlanDetails) => {
-    if (!user || !user.id || !activeClient) return;
-    const planEndDate = new Date();
-    planEndDate.setFullYear(planEndDate.getFullYear() + 1);
-    const appointments: PlanAppointment[] = [];
-    let totalCost = 0;
-    const finalSelectedServices = availableServices.filter(s => details[s.id]?.firstDate && details[s.id]?.frequency);
-    finalSelectedServices.forEach(service => {
-        const detail = details[service.id];
-        if (!detail || !detail.firstDate || !detail.frequency) return;
-        let currentDate = new Date(detail.firstDate.getTime());
-        while (currentDate <= planEndDate) {
-            // FIX: Replaced 's.cost' with 'service.cost' to reference the correct variable within the forEach loop's scope, resolving a "Cannot find name 's'" error.
-            appointments.push({ date: new Date(currentDate.getTime()), services: [{ ...service, cost: service.cost }] });
-            totalCost += service.cost;
-            currentDate.setDate(currentDate.getDate() + detail.frequency * 7);
-        }
-    });
-    const merged: { [key: string]: PlanAppointment } = {};
-    appointments.forEach(a => {
-        const k = a.date.toISOString().split('T')[0];
-        if (merged[k]) merged[k].services.push(...a.services);
-        else merged[k] = a;
-    });
-    const mergedList = Object.values(merged).sort((a, b) => a.date.getTime() - b.date.getTime());
-    const newPlan: GeneratedPlan = {
-        id: `plan_${Date.now()}`, status: 'draft', membershipStatus: 'none', createdAt: new Date().toISOString(),
-        stylistId: user.id.toString(), stylistName: user.name || 'Stylist', client: activeClient,
-        appointments: mergedList, totalYearlyAppointments: mergedList.length,
-        averageAppointmentCost: mergedList.length ? totalCost / mergedList.length : 0,
-        averageMonthlySpend: totalCost / 12, totalCost
-    };
+    const newPlan = draftPlan(details);
+    if (!newPlan) return;
     const saved = await savePlan(newPlan);
     setSelectedHistoryPlan(saved);
     setStep('summary');
     setWizardCompleted(true);
   };
 
+  const startFromTemplate = (template: PlanTemplate) => {
+    const { serviceIds, details } = applyTemplate(template, availableServices, salonToday(salonTimezone));
+    if (serviceIds.length === 0) return;
+    setSelectedServiceIds(serviceIds);
+    setPlanDetails(details);
+    setStep('loading');
+    setTimeout(() => generatePlan(details), 1500);
+  };
+
+  const saveAsTemplate = async (name: string, details: PlanDetails) => {
+    if (!user) return;
+    await saveTemplate({
+        id: `template_${Date.now()}`,
+        name,
+        scope: 'stylist',
+        stylistId: user.id.toString(),
+        services: templateServicesFromDetails(selectedServiceIds, details, salonToday(salonTimezone)),
+    });
+  };
+
   const renderHome = () => {
     const safeAccentColor = ensureAccessibleColor(branding.accentColor, '#F8F9FA', '#1E3A8A');
     return (
@@ -166,6 +229,7 @@ const StylistDashboard: React.FC<StylistDashboardProps> = ({ onLogout, role: pro
                     {user?.name?.[0] || 'S'}
                 </div>
             </div>
+            <LocationPicker className="mb-6" />
             <div className="grid grid-cols-3 gap-4 mb-6">
                 <div className="col-span-3 bg-gray-950 text-white p-6 rounded-[32px] shadow-2xl border-4 border-gray-900">
                     <p className="text-sm font-black uppercase text-gray-400 mb-1 tracking-widest">My Pipeline</p>
@@ -193,6 +257,19 @@ const StylistDashboard: React.FC<StylistDashboardProps> = ({ onLogout, role: pro
                     </ResponsiveContainer>
                 </div>
             </div>
+            {renewalsDue.length > 0 && (
+                <div className="bg-white p-5 rounded-3xl border-4 border-amber-200 shadow-sm mb-6">
+                    <h3 className="text-sm font-black text-gray-900 uppercase tracking-widest mb-4">Due for Renewal</h3>
+                    <div className="space-y-2">
+                        {renewalsDue.map(p => (
+                            <button key={p.id} onClick={() => openPlan(p)} className="w-full flex justify-between items-center p-3 bg-gray-50 rounded-2xl text-left">
+                                <span className="font-black text-sm text-gray-950">{p.client.name}</span>
+                                <span className="text-[10px] font-black uppercase text-gray-500">Ends {getPlanHorizonEnd(p).toLocaleDateString([], { month: 'short', day: 'numeric' })}</span>
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
             <div className="my-6 space-y-3">
                 <button onClick={() => { setActiveTab('plans'); setStep('select-client'); }} className="w-full bg-brand-accent text-white font-black py-4 px-4 rounded-2xl shadow-xl flex items-center justify-center space-x-3 active:scale-95 transition-all">
                     <PlusIcon className="w-6 h-6" />
@@ -237,11 +314,14 @@ const StylistDashboard: React.FC<StylistDashboardProps> = ({ onLogout, role: pro
           case 'settings': return <AdminDashboard role="admin" />;
           case 'plans': 
               if (_step === 'select-client') return <SelectClientStep clients={globalClients} onSelect={(c) => { setActiveClient(c); setStep('select-services'); }} onBack={() => { setStep('idle'); setActiveTab('dashboard'); }} />;
-              if (_step === 'select-services') return <SelectServicesStep availableServices={availableServices} onNext={(ids) => { setSelectedServiceIds(ids); setStep('set-dates'); }} onBack={() => setStep('idle')} />;
-              if (_step === 'set-dates') return <SetDatesStep client={activeClient!} selectedServices={selectedServices} onNext={(d) => { setPlanDetails(d); setStep('set-frequency'); }} planDetails={planDetails} onBack={() => setStep('select-services')} />;
-              if (_step === 'set-frequency') return <SetFrequencyStep selectedServices={selectedServices} onNext={(d) => { setStep('loading'); setTimeout(() => generatePlan(d), 1500); }} planDetails={planDetails} onBack={() => setStep('set-dates')} />;
+              if (_step === 'select-services') return <SelectServicesStep availableServices={availableServices} templates={templates} onUseTemplate={startFromTemplate} onNext={(ids) => { setSelectedServiceIds(ids); setStep('set-dates'); }} onBack={() => setStep('idle')} />;
+              if (_step === 'set-dates') return <SetDatesStep client={activeClient!} selectedServices={selectedServices} onNext={(d) => { setPlanDetails(d); setStep('set-frequency'); }} planDetails={planDetails} onBack={() => setStep('select-services')} onClientUpdate={setActiveClient} />;
+              if (_step === 'set-frequency') return <SetFrequencyStep selectedServices={selectedServices} onNext={(d) => { setStep('loading'); setTimeout(() => generatePlan(d), 1500); }} planDetails={planDetails} onBack={() => setStep('set-dates')} previewPlan={draftPlan} onCompare={(d) => { setPlanDetails(d); setStep('compare-scenarios'); }} onSaveTemplate={saveAsTemplate} />;
+              if (_step === 'compare-scenarios') return <CompareScenariosStep selectedServices={selectedServices} planDetails={planDetails} previewPlan={draftPlan} onSelect={(d) => { setPlanDetails(d); setStep('loading'); setTimeout(() => generatePlan(d), 1500); }} onBack={() => setStep('set-frequency')} />;
               if (_step === 'loading') return <LoadingStep />;
-              if (_step === 'summary' && currentPlan) return <PlanSummaryStep plan={currentPlan} role={propRole || 'stylist'} />;
+              if (_step === 'summary' && currentPlan && isEditingPlan) return <PlanEditor plan={currentPlan} onClose={() => setIsEditingPlan(false)} onSaved={setSelectedHistoryPlan} />;
+              if (_step === 'summary' && currentPlan && isViewingRevisions) return <PlanRevisionHistory plan={currentPlan} onClose={() => setIsViewingRevisions(false)} onRestored={setSelectedHistoryPlan} />;
+              if (_step === 'summary' && currentPlan) return <PlanSummaryStep plan={currentPlan} role={propRole || 'stylist'} onEditPlan={() => setIsEditingPlan(true)} onViewHistory={() => setIsViewingRevisions(true)} onRenew={renewPlan} />;
               return renderHome();
           default: return renderHome();
       }
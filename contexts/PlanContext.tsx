@@ -1,9 +1,13 @@
 
 
 import React, { createContext, useContext, useState, ReactNode, useEffect } from 'react';
-import type { GeneratedPlan, PlanAppointment } from '../types';
+import type { GeneratedPlan, PlanAppointment, PlanDetails, PlanRevision, PlanTemplate } from '../types';
 import { supabase } from '../lib/supabase';
 import { useAuth } from './AuthContext';
+import { useSettings } from './SettingsContext';
+import { localDateKey } from '../utils/planScheduler';
+import { PLAN_DATE_FORMAT, reviveCalendarDate } from '../utils/salonDates';
+import { expireIfDue } from '../utils/planLifecycle';
 
 interface BookingRecord {
     id: string;
@@ -14,28 +18,119 @@ interface BookingRecord {
     status: string;
     services: { variation_id: string; name: string }[];
     source: string;
+    location_id?: string | null; // Square location; older rows have none
+    version?: number | null; // Square booking version; webhook updates only apply newer ones
 }
 
 interface PlanContextType {
     plans: GeneratedPlan[];
     bookings: BookingRecord[];
-    savePlan: (plan: GeneratedPlan) => Promise<GeneratedPlan>; // Returns the confirmed plan
+    templates: PlanTemplate[];
+    savePlan: (plan: GeneratedPlan, reason?: string) => Promise<GeneratedPlan>; // Returns the confirmed plan
     saveBooking: (booking: Omit<BookingRecord, 'id'> & { id?: string }) => Promise<{ data: any, error: any }>;
     getPlanForClient: (clientId: string) => GeneratedPlan | null; // Gets latest
     getClientHistory: (clientId: string) => GeneratedPlan[]; // Gets all
     getClientBookings: (clientId: string) => BookingRecord[];
     getStats: () => { totalRevenue: number, activePlansCount: number };
+    getPlanRevisions: (planId: string) => Promise<PlanRevision[]>; // Newest first
+    restoreRevision: (revision: PlanRevision) => Promise<GeneratedPlan>;
+    saveTemplate: (template: PlanTemplate) => Promise<PlanTemplate>;
+    deleteTemplate: (templateId: string) => Promise<void>;
+}
+
+// A `plans` table row. `plan_data` is the serialized plan; see `serializePlanBlob`.
+interface PlanRow {
+    id: string;
+    client_id: string;
+    created_at: string;
+    plan_data: { dateFormat?: string; [key: string]: any } | null;
 }
 
 const PlanContext = createContext<PlanContextType | undefined>(undefined);
 
 const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
+// JSON round-trips turn the wizard's dates into strings.
+// Plan dates are stored as salon calendar keys; blobs saved before that hold ISO timestamps.
+const reviveDetails = (details: PlanDetails | undefined, timeZone: string): PlanDetails | undefined => {
+    if (!details) return details;
+    const revived: PlanDetails = {};
+    Object.entries(details).forEach(([id, d]: [string, any]) => {
+        revived[id] = {
+            ...d,
+            firstDate: reviveCalendarDate(d.firstDate, timeZone),
+            eventDate: d.eventDate ? reviveCalendarDate(d.eventDate, timeZone) : d.eventDate,
+        };
+    });
+    return revived;
+};
+
+const revivePlanBlob = (blob: any, id: string, timeZone: string): GeneratedPlan => {
+    const { dateFormat: _, ...plan } = blob;
+    return {
+        ...plan,
+        id,
+        appointments: (blob.appointments || []).map((a: any) => ({
+            ...a,
+            date: reviveCalendarDate(a.date, timeZone)
+        })),
+        details: reviveDetails(blob.details, timeZone)
+    };
+};
+
+const serializeDetails = (details?: PlanDetails) => {
+    if (!details) return details;
+    const stored: { [serviceId: string]: any } = {};
+    Object.entries(details).forEach(([id, d]) => {
+        stored[id] = {
+            ...d,
+            firstDate: d.firstDate ? localDateKey(d.firstDate) : null,
+            eventDate: d.eventDate ? localDateKey(d.eventDate) : d.eventDate,
+        };
+    });
+    return stored;
+};
+
+// The `plan_data` shape: every roadmap date as its 'YYYY-MM-DD' calendar key.
+const serializePlanBlob = (plan: Omit<GeneratedPlan, 'id'>) => ({
+    ...plan,
+    appointments: plan.appointments.map(a => ({ ...a, date: localDateKey(a.date) })),
+    details: serializeDetails(plan.details),
+    dateFormat: PLAN_DATE_FORMAT,
+});
+
+const mapRevisionRow = (row: any, timeZone: string): PlanRevision => ({
+    id: row.id,
+    planId: row.plan_id,
+    revision: row.revision,
+    plan: revivePlanBlob(row.plan_data, row.plan_id, timeZone),
+    authorId: row.author_id,
+    authorName: row.author_name,
+    reason: row.reason,
+    createdAt: row.created_at,
+});
+
+const mapTemplateRow = (row: any): PlanTemplate => ({
+    id: row.id,
+    name: row.name,
+    scope: row.scope,
+    stylistId: row.stylist_id,
+    services: row.template_data?.services || [],
+    createdAt: row.created_at,
+});
+
 export const PlanProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
     const [plans, setPlans] = useState<GeneratedPlan[]>([]);
     const [bookings, setBookings] = useState<BookingRecord[]>([]);
+    const [templates, setTemplates] = useState<PlanTemplate[]>([]);
     const [loading, setLoading] = useState(true);
     const { user } = useAuth();
+    const { salonTimezone, salonTimezoneLoaded, locations } = useSettings();
+
+    // Older blobs hold instants: read them in the timezone of the location the plan was made
+    // for, and the active location's for plans from before locations were tagged.
+    const planTimezone = (blob: any) =>
+        locations.find(l => l.id === blob?.locationId)?.timezone || salonTimezone;
 
     useEffect(() => {
         const fetchData = async () => {
@@ -62,14 +157,25 @@ export const PlanProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                 }
 
 
-                const [pRes, bRes] = await Promise.all([plansQuery, bookingsQuery]);
+                // Stylists see the salon's templates plus their own; clients never build plans.
+                let templatesQuery = supabase.from('plan_templates').select('*');
+                if (user?.role === 'stylist' && user.id) {
+                    templatesQuery = templatesQuery.or(`scope.eq.salon,stylist_id.eq.${user.id}`);
+                }
+
+                const [pRes, bRes, tRes] = await Promise.all([
+                    plansQuery,
+                    bookingsQuery,
+                    user?.role === 'client' ? Promise.resolve({ data: [], error: null }) : templatesQuery,
+                ]);
 
                 if (pRes.error) {
                     console.error("Error fetching plans:", pRes.error.message || pRes.error);
                     setPlans([]);
                 } else if (pRes.data) {
-                    const formattedPlans = pRes.data
-                        .map((dbPlan: any) => {
+                    const rows = pRes.data as PlanRow[];
+                    const formattedPlans = rows
+                        .map(dbPlan => {
                             const blob = dbPlan.plan_data;
                             if (!blob || !blob.client) {
                                 console.warn('Skipping malformed plan from DB:', dbPlan.id);
@@ -77,18 +183,23 @@ export const PlanProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                             }
                             // Reconstruct plan prioritizing the data blob but ensuring ID consistency
                             return {
-                                ...blob,
-                                id: dbPlan.id,
+                                ...revivePlanBlob(blob, dbPlan.id, planTimezone(blob)),
                                 createdAt: blob.createdAt || dbPlan.created_at,
-                                appointments: (blob.appointments || []).map((a: any) => ({
-                                    ...a,
-                                    date: new Date(a.date)
-                                }))
                             };
                         })
                         .filter((p): p is GeneratedPlan => p !== null);
                     
                     setPlans(formattedPlans);
+
+                    // Rewrite older timestamp blobs with calendar keys once location timezones are known.
+                    // Only salon staff write plans back; a client session never changes them.
+                    if (salonTimezoneLoaded && (user?.role === 'admin' || user?.role === 'stylist')) {
+                        const legacy = formattedPlans.filter(p => {
+                            const row = rows.find(r => r.id === p.id);
+                            return row?.plan_data && row.plan_data.dateFormat !== PLAN_DATE_FORMAT;
+                        });
+                        void migratePlanDates(legacy).then(() => expireDuePlans(formattedPlans));
+                    }
                 }
 
                 if (bRes.error) {
@@ -102,6 +213,18 @@ export const PlanProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                 } else if (bRes.data) {
                     setBookings(bRes.data);
                 }
+
+                if (tRes.error) {
+                    const isMissingTable = tRes.error.code === '42P01' || tRes.error.message?.includes('schema cache');
+                    if (isMissingTable) {
+                        console.warn("Plan templates table not found in Supabase.");
+                    } else {
+                        console.error("Error fetching plan templates:", tRes.error.message || JSON.stringify(tRes.error));
+                    }
+                    setTemplates([]);
+                } else if (tRes.data) {
+                    setTemplates(tRes.data.map(mapTemplateRow));
+                }
             } catch (err: any) {
                 if (err?.name === 'AbortError') {
                     console.warn('PlanProvider fetch aborted during auth initialization (safe to ignore)');
@@ -114,9 +237,59 @@ export const PlanProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         };
 
         fetchData();
-    }, [user]);
+    }, [user, salonTimezone, salonTimezoneLoaded, locations]);
+
+    // A storage format change only: no new revision is recorded. Plans from before revision
+    // history get their current content as a baseline, so the next save has one to diff against.
+    const migratePlanDates = async (legacyPlans: GeneratedPlan[]) => {
+        if (!supabase) return;
+        for (const plan of legacyPlans) {
+            const { id, ...rest } = plan;
+            const planData = serializePlanBlob(rest);
+            const { error } = await supabase
+                .from('plans')
+                // FIX: Cast payload to `any` to resolve Supabase type inference issue.
+                .update({ plan_data: planData } as any)
+                .eq('id', id);
+            if (error) {
+                console.warn(`Could not migrate dates for plan ${id}:`, error.message);
+                continue;
+            }
+
+            const { data: existing, error: findError } = await supabase
+                .from('plan_revisions')
+                .select('id')
+                .eq('plan_id', id)
+                .limit(1);
+            if (findError || (existing && existing.length > 0)) continue;
+            const { error: baselineError } = await supabase.from('plan_revisions').insert({
+                plan_id: id,
+                revision: plan.revision || 1,
+                plan_data: planData,
+                author_id: null,
+                author_name: null,
+                reason: 'Baseline',
+            } as any);
+            if (baselineError) {
+                console.warn(`Could not record a baseline revision for plan ${id}:`, baselineError.message);
+            }
+        }
+    };
+
+    // Records the expired transition for active plans whose horizon has passed.
+    const expireDuePlans = async (loadedPlans: GeneratedPlan[]) => {
+        for (const plan of loadedPlans) {
+            const expired = expireIfDue(plan);
+            if (!expired) continue;
+            try {
+                await savePlan(expired, 'Expired');
+            } catch (e: any) {
+                console.warn(`Could not record expiry for plan ${plan.id}:`, e.message);
+            }
+        }
+    };
 
-    const savePlan = async (newPlan: GeneratedPlan): Promise<GeneratedPlan> => {
+    const savePlan = async (newPlan: GeneratedPlan, reason?: string): Promise<GeneratedPlan> => {
         if (!supabase) {
             throw new Error("Supabase client not available.");
         }
@@ -129,13 +302,16 @@ export const PlanProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         }
 
         const isNewPlan = newPlan.id.startsWith('plan_');
+        // Callers may hold an older copy; number the revision after the newest one we know of.
+        const knownRevision = plans.find(p => p.id === newPlan.id)?.revision || 1;
+        const revision = isNewPlan ? 1 : Math.max(newPlan.revision || 1, knownRevision) + 1;
         
-        const { id: _, ...planDataForBlob } = newPlan;
+        const { id: _, ...planDataForBlob } = { ...newPlan, revision };
 
         const payloadBase = {
             client_id: newPlan.client.id,
             plan_data: {
-                ...planDataForBlob,
+                ...serializePlanBlob(planDataForBlob),
                 status: newPlan.status,
                 membershipStatus: newPlan.membershipStatus,
                 updatedAt: new Date().toISOString()
@@ -161,6 +337,19 @@ export const PlanProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
         const dbRow = data[0];
 
+        // The plan itself is saved; a missing history row must not fail the save.
+        const { error: revisionError } = await supabase.from('plan_revisions').insert({
+            plan_id: (dbRow as any).id,
+            revision,
+            plan_data: (dbRow as any).plan_data,
+            author_id: user?.id?.toString() || null,
+            author_name: user?.name || null,
+            reason: reason || (isNewPlan ? 'Created' : null),
+        } as any);
+        if (revisionError) {
+            console.warn("Plan saved, but its revision could not be recorded:", revisionError.message);
+        }
+
         // After a successful DB write, we must not throw an error.
         // We will try to normalize the data for the UI, but if it fails,
         // we'll log a warning and return the raw data, which the UI can handle.
@@ -171,14 +360,7 @@ export const PlanProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                 throw new Error("plan_data from DB is missing or not an object.");
             }
 
-            const formattedPlan: GeneratedPlan = {
-                ...blob,
-                id: (dbRow as any).id,
-                appointments: (blob.appointments || []).map((a: any) => ({
-                    ...a,
-                    date: new Date(a.date)
-                }))
-            };
+            const formattedPlan = revivePlanBlob(blob, (dbRow as any).id, planTimezone(blob));
 
             setPlans(prev => {
                 const existingIndex = prev.findIndex(p => p.id === formattedPlan.id);
@@ -223,6 +405,87 @@ export const PlanProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         return { data, error };
     };
 
+    const getPlanRevisions = async (planId: string): Promise<PlanRevision[]> => {
+        if (!supabase) return [];
+        const { data, error } = await supabase
+            .from('plan_revisions')
+            .select('*')
+            .eq('plan_id', planId)
+            .order('revision', { ascending: false });
+        if (error) {
+            console.error("Error fetching plan revisions:", error.message);
+            return [];
+        }
+        return (data || []).map((row: any) => mapRevisionRow(row, planTimezone(row.plan_data)));
+    };
+
+    // Restores the roadmap content of an earlier revision as a new revision. Status, lifecycle
+    // and membership stay as they are now, so a restore never un-publishes a plan.
+    const restoreRevision = async (target: PlanRevision): Promise<GeneratedPlan> => {
+        const current = plans.find(p => p.id === target.planId);
+        const restored: GeneratedPlan = current
+            ? {
+                ...target.plan,
+                status: current.status,
+                membershipStatus: current.membershipStatus,
+                membershipOfferSentAt: current.membershipOfferSentAt,
+                membershipOfferAcceptedAt: current.membershipOfferAcceptedAt,
+                statusHistory: current.statusHistory,
+                pausedAt: current.pausedAt,
+                startDate: current.startDate,
+                renewedFromPlanId: current.renewedFromPlanId,
+                renewedToPlanId: current.renewedToPlanId,
+                revision: current.revision,
+            }
+            : target.plan;
+        return savePlan(restored, `Restored revision ${target.revision}`);
+    };
+
+    const saveTemplate = async (template: PlanTemplate): Promise<PlanTemplate> => {
+        if (!supabase) {
+            throw new Error("Supabase client not available.");
+        }
+
+        const isNewTemplate = template.id.startsWith('template_');
+        const payloadBase = {
+            name: template.name,
+            scope: template.scope,
+            stylist_id: template.scope === 'stylist' ? template.stylistId : null,
+            template_data: { services: template.services },
+        };
+        const payload = isNewTemplate ? payloadBase : { ...payloadBase, id: template.id };
+
+        // FIX: Cast payload to `any` to resolve Supabase type inference issue.
+        const { data, error } = await supabase.from('plan_templates').upsert(payload as any, { onConflict: 'id' }).select().single();
+        if (error || !data) {
+            console.error("Supabase Persistence Error:", error?.message);
+            throw new Error(`Template Save Failed: ${error?.message || 'No data returned from server.'}`);
+        }
+
+        const saved = mapTemplateRow(data);
+        setTemplates(prev => {
+            const index = prev.findIndex(t => t.id === saved.id);
+            if (index > -1) {
+                const next = [...prev];
+                next[index] = saved;
+                return next;
+            }
+            return [...prev, saved];
+        });
+        return saved;
+    };
+
+    const deleteTemplate = async (templateId: string) => {
+        if (!supabase) {
+            throw new Error("Supabase client not available.");
+        }
+        const { error } = await supabase.from('plan_templates').delete().eq('id', templateId);
+        if (error) {
+            throw new Error(`Template Delete Failed: ${error.message}`);
+        }
+        setTemplates(prev => prev.filter(t => t.id !== templateId));
+    };
+
     const getPlanForClient = (clientId: string) => {
         const clientPlans = plans.filter(p => p.client.id === clientId);
         if (clientPlans.length === 0) return null;
@@ -249,7 +512,7 @@ export const PlanProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     };
 
     return (
-        <PlanContext.Provider value={{ plans, bookings, savePlan, saveBooking, getPlanForClient, getClientHistory, getClientBookings, getStats }}>
+        <PlanContext.Provider value={{ plans, bookings, templates, savePlan, saveBooking, getPlanForClient, getClientHistory, getClientBookings, getStats, getPlanRevisions, restoreRevision, saveTemplate, deleteTemplate }}>
             {children}
         </PlanContext.Provider>
     );
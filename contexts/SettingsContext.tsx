@@ -14,13 +14,21 @@ import type {
   Stylist,
   Client,
   ServiceLinkingConfig,
+  SchedulingConfig,
+  ClosureCalendar,
   BrandingSettings,
   MembershipConfig,
   AppTextSize,
+  ClientSchedulingPreferences,
+  SalonLocation,
 } from '../types';
 
 import { ALL_SERVICES, STYLIST_LEVELS } from '../data/mockData';
 import { supabase } from '../lib/supabase';
+import { SquareIntegrationService } from '../services/squareIntegration';
+import { getBrowserTimezone } from '../utils/salonDates';
+import type { SquareConnectionHealth } from '../square/oauth';
+import type { CustomerSyncSummary } from '../square/customerSync';
 
 type IntegrationProvider = 'square' | 'vagaro' | 'mindbody';
 type IntegrationEnvironment = 'sandbox' | 'production';
@@ -40,6 +48,18 @@ interface SettingsContextType {
   branding: BrandingSettings;
   integration: IntegrationSettings;
   linkingConfig: ServiceLinkingConfig;
+  schedulingConfig: SchedulingConfig;
+  closureCalendar: ClosureCalendar;
+  // IANA timezone of the active Square location; roadmap dates are calendar days in this zone.
+  salonTimezone: string;
+  salonTimezoneLoaded: boolean;
+  locations: SalonLocation[];
+  // Location this device books into and tags new plans with; null until locations load.
+  activeLocationId: string | null;
+  // When the services last matched Square's catalog; null until a catalog sync is applied.
+  catalogSyncedAt: string | null;
+  // When Square last reported a catalog change (via webhook); newer than `catalogSyncedAt` means the menu is stale.
+  catalogChangedAt: string | null;
   textSize: AppTextSize;
   pushAlertsEnabled: boolean;
   pinnedReports: { [userId: string]: string[] };
@@ -47,6 +67,8 @@ interface SettingsContextType {
   loadingTeam: boolean;
   teamError: string | null;
   needsSquareConnect: boolean;
+  // Null until checked; `needsSquareConnect` is only set once a refresh has really failed.
+  squareConnection: SquareConnectionHealth | null;
 
   updateServices: (services: Service[]) => void;
   updateLevels: (levels: StylistLevel[]) => void;
@@ -57,6 +79,10 @@ interface SettingsContextType {
   updateBranding: (branding: BrandingSettings) => void;
   updateIntegration: (integration: IntegrationSettings) => void;
   updateLinkingConfig: (config: ServiceLinkingConfig) => void;
+  updateSchedulingConfig: (config: SchedulingConfig) => void;
+  updateClosureCalendar: (calendar: ClosureCalendar) => void;
+  updateActiveLocation: (locationId: string) => void;
+  applyCatalogSync: (services: Service[], syncedAt: string) => void;
 
   updateTextSize: (size: AppTextSize) => void;
   updatePushAlertsEnabled: (enabled: boolean) => void;
@@ -67,10 +93,35 @@ interface SettingsContextType {
     externalId: string,
     clientDetails: { name: string; email?: string; phone?: string; avatarUrl?: string }
   ) => Promise<Client>;
+  updateClientPreferences: (clientId: string, preferences: ClientSchedulingPreferences) => Promise<Client>;
+  // Runs the server-side Square customer sync to completion, then reloads `clients`.
+  syncSquareClients: () => Promise<CustomerSyncSummary>;
 
   saveAll: () => Promise<void>;
 }
 
+// Maps a `clients` table row to the UI shape.
+const mapClientRow = (row: any, defaultSource: string): Client => ({
+  id: row.id,
+  externalId: row.external_id,
+  name: row.name,
+  email: row.email,
+  phone: row.phone,
+  avatarUrl: row.avatar_url,
+  historicalData: [],
+  source: row.source || defaultSource,
+  preferredWeekdays: row.preferred_weekdays || [],
+  preferredTimePeriod: row.preferred_time_period || undefined,
+  preferredStylistId: row.preferred_stylist_id || undefined,
+});
+
+// The `merchant_settings` columns read on load.
+interface MerchantSettingsRow {
+  square_access_token: string | null;
+  square_token_expires_at: string | null;
+  square_catalog_updated_at: string | null; // set by the Square webhook on catalog changes
+}
+
 const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
 
 export const useSettings = () => {
@@ -81,7 +132,23 @@ export const useSettings = () => {
 
 export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   // Core settings state (single instance)
-  const [services, setServices] = useState<Service[]>(() => ALL_SERVICES);
+  // A synced menu is kept with its watermark, so the next sync can ask Square for changes only.
+  const [services, setServices] = useState<Service[]>(() => {
+    try {
+      const stored = localStorage.getItem('admin_catalog_synced_at') && localStorage.getItem('admin_services');
+      return stored ? JSON.parse(stored) : ALL_SERVICES;
+    } catch {
+      return ALL_SERVICES;
+    }
+  });
+  const [catalogSyncedAt, setCatalogSyncedAt] = useState<string | null>(() => {
+    try {
+      return localStorage.getItem('admin_catalog_synced_at');
+    } catch {
+      return null;
+    }
+  });
+  const [catalogChangedAt, setCatalogChangedAt] = useState<string | null>(null);
   const [levels, setLevels] = useState<StylistLevel[]>(() => STYLIST_LEVELS);
   const [stylists, setStylists] = useState<Stylist[]>([]);
   const [clients, setClients] = useState<Client[]>([]);
@@ -112,6 +179,63 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
     linkedServiceId: '',
   });
 
+  const [schedulingConfig, setSchedulingConfig] = useState<SchedulingConfig>(() => {
+    const defaults: SchedulingConfig = {
+      clusteringEnabled: true,
+      clusterWindowDays: 7,
+      maxChairMinutes: 240,
+      horizonMonths: 12,
+      rollForwardPastDates: false,
+    };
+    try {
+      const stored = localStorage.getItem('admin_scheduling_config');
+      return stored ? { ...defaults, ...JSON.parse(stored) } : defaults;
+    } catch {
+      return defaults;
+    }
+  });
+
+  const [closureCalendar, setClosureCalendar] = useState<ClosureCalendar>(() => {
+    const defaults: ClosureCalendar = {
+      closedWeekdays: [],
+      holidays: [
+        { date: '01-01', name: "New Year's Day" },
+        { date: '12-25', name: 'Christmas Day' },
+      ],
+      closures: [],
+    };
+    try {
+      const stored = localStorage.getItem('admin_closure_calendar');
+      return stored ? { ...defaults, ...JSON.parse(stored) } : defaults;
+    } catch {
+      return defaults;
+    }
+  });
+
+  const [salonTimezone, setSalonTimezone] = useState<string>(() => {
+    try {
+      return localStorage.getItem('admin_salon_timezone') || getBrowserTimezone();
+    } catch {
+      return getBrowserTimezone();
+    }
+  });
+  const [salonTimezoneLoaded, setSalonTimezoneLoaded] = useState<boolean>(() => {
+    try {
+      return !!localStorage.getItem('admin_salon_timezone');
+    } catch {
+      return false;
+    }
+  });
+
+  const [locations, setLocations] = useState<SalonLocation[]>([]);
+  const [activeLocationId, setActiveLocationId] = useState<string | null>(() => {
+    try {
+      return localStorage.getItem('active_location_id');
+    } catch {
+      return null;
+    }
+  });
+
   const [textSize, setTextSize] = useState<AppTextSize>('M');
   const [pushAlertsEnabled, setPushAlertsEnabled] = useState(false);
   const [pinnedReports, setPinnedReports] = useState<{ [userId: string]: string[] }>({});
@@ -119,6 +243,7 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
   const [loadingTeam, setLoadingTeam] = useState(false);
   const [teamError, setTeamError] = useState<string | null>(null);
   const [needsSquareConnect, setNeedsSquareConnect] = useState<boolean>(false);
+  const [squareConnection, setSquareConnection] = useState<SquareConnectionHealth | null>(null);
 
   // Load data once per auth session; no loops, no state that triggers re-subscribe.
   useEffect(() => {
@@ -138,19 +263,70 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
       }
 
       // --- Check Square Connection Status ---
-      const { data: merchantSettings, error: msError } = await supabase
+      const { data, error: msError } = await supabase
         .from('merchant_settings')
-        .select('square_access_token')
+        .select('square_access_token, square_token_expires_at, square_catalog_updated_at')
         .eq('supabase_user_id', user.id)
         .maybeSingle();
+      const merchantSettings = data as MerchantSettingsRow | null;
 
       if (cancelled) return;
 
       if (msError) {
         console.error('[Settings] Failed to load merchant settings:', msError);
         setNeedsSquareConnect(true); // Fail-safe
+      } else if (!merchantSettings?.square_access_token) {
+        setCatalogChangedAt(null);
+        setSquareConnection({ status: 'disconnected', expiresAt: null });
+        setNeedsSquareConnect(true);
       } else {
-        setNeedsSquareConnect(!merchantSettings?.square_access_token);
+        setCatalogChangedAt(merchantSettings.square_catalog_updated_at);
+        // The server refreshes a token close to expiry; only a failed refresh means reconnect.
+        let health: SquareConnectionHealth;
+        try {
+          health = await SquareIntegrationService.refreshConnection();
+        } catch (e: any) {
+          console.warn('[Settings] Square connection check failed:', e?.message || e);
+          const expiresAt = merchantSettings.square_token_expires_at || null;
+          const expired = !!expiresAt && new Date(expiresAt).getTime() <= Date.now();
+          health = { status: expired ? 'disconnected' : 'connected', expiresAt };
+        }
+        if (cancelled) return;
+        setSquareConnection(health);
+        setNeedsSquareConnect(health.status === 'disconnected');
+      }
+
+      // ---- Locations and salon timezone: do NOT block app (falls back to the browser's zone)
+      if (merchantSettings?.square_access_token) {
+        try {
+          const squareLocations = await SquareIntegrationService.fetchLocations();
+          if (cancelled) return;
+          const mapped: SalonLocation[] = squareLocations.map(loc => ({
+            id: loc.id,
+            name: loc.name || loc.business_name,
+            timezone: loc.timezone,
+            address: [loc.address?.address_line_1, loc.address?.locality].filter(Boolean).join(', ') || undefined,
+          }));
+          setLocations(mapped);
+
+          // Keep this device's choice while that location is still active.
+          const stored = localStorage.getItem('active_location_id');
+          const active = mapped.find(l => l.id === stored) || mapped[0];
+          if (active) {
+            setActiveLocationId(active.id);
+            localStorage.setItem('active_location_id', active.id);
+          }
+          if (active?.timezone) {
+            setSalonTimezone(active.timezone);
+            localStorage.setItem('admin_salon_timezone', active.timezone);
+          }
+        } catch (e: any) {
+          console.warn('[Settings] Salon locations not available:', e?.message || e);
+        } finally {
+          if (!cancelled) setSalonTimezoneLoaded(true);
+        }
+      } else {
+        setSalonTimezoneLoaded(true);
       }
 
       // ---- Clients: scoped by supabase_user_id (avoids loading everyone)
@@ -167,16 +343,7 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
           console.error('[Settings] Failed to load clients:', error);
           setClients([]);
         } else {
-          const mapped: Client[] = (data || []).map((row: any) => ({
-            id: row.id,
-            externalId: row.external_id,
-            name: row.name,
-            email: row.email,
-            phone: row.phone,
-            avatarUrl: row.avatar_url,
-            historicalData: [],
-            source: row.source || 'manual',
-          }));
+          const mapped: Client[] = (data || []).map((row: any) => mapClientRow(row, 'manual'));
           setClients(mapped);
         }
       } catch (e) {
@@ -263,6 +430,30 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
   const updateBranding = (v: BrandingSettings) => setBranding(v);
   const updateIntegration = (v: IntegrationSettings) => setIntegration(v);
   const updateLinkingConfig = (v: ServiceLinkingConfig) => setLinkingConfig(v);
+  const updateSchedulingConfig = (v: SchedulingConfig) => setSchedulingConfig(v);
+  const updateClosureCalendar = (v: ClosureCalendar) => setClosureCalendar(v);
+
+  const updateActiveLocation = (locationId: string) => {
+    const location = locations.find(l => l.id === locationId);
+    if (!location) return;
+    setActiveLocationId(location.id);
+    localStorage.setItem('active_location_id', location.id);
+    if (location.timezone) {
+      setSalonTimezone(location.timezone);
+      localStorage.setItem('admin_salon_timezone', location.timezone);
+    }
+  };
+
+  const applyCatalogSync = (v: Service[], syncedAt: string) => {
+    setServices(v);
+    setCatalogSyncedAt(syncedAt);
+    try {
+      localStorage.setItem('admin_services', JSON.stringify(v));
+      localStorage.setItem('admin_catalog_synced_at', syncedAt);
+    } catch (e) {
+      console.error('[Settings] Failed to save catalog sync locally:', e);
+    }
+  };
 
   const updateTextSize = (size: AppTextSize) => setTextSize(size);
   const updatePushAlertsEnabled = (enabled: boolean) => setPushAlertsEnabled(enabled);
@@ -271,6 +462,26 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
     setPinnedReports((prev) => ({ ...prev, [String(userId)]: reportIds }));
   };
 
+  const syncSquareClients = async (): Promise<CustomerSyncSummary> => {
+    if (!supabase) throw new Error('Supabase not initialized');
+
+    const summary = await SquareIntegrationService.syncCustomers();
+
+    // FIX: Cast to 'any' to bypass Supabase auth method type errors, likely from an environment configuration issue.
+    const { data: userResp } = await (supabase.auth as any).getUser();
+    const user = userResp?.user;
+    if (!user) throw new Error('Not authenticated');
+
+    const { data, error } = await supabase
+      .from('clients')
+      .select('*')
+      .eq('supabase_user_id', user.id)
+      .order('created_at', { ascending: true });
+    if (error) throw error;
+    setClients((data || []).map((row: any) => mapClientRow(row, 'square')));
+    return summary;
+  };
+
   // Minimal createClient (manual clients only). Keeps API surface intact.
   const createClient = async (clientData: { name: string; email: string }) => {
     if (!supabase) throw new Error('Supabase not initialized');
@@ -301,16 +512,7 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
     if (error || !data) throw error || new Error('Failed to create client');
 
     const row = data as any;
-    const newClient: Client = {
-      id: row.id,
-      externalId: row.external_id,
-      name: row.name,
-      email: row.email,
-      phone: row.phone,
-      avatarUrl: row.avatar_url,
-      historicalData: [],
-      source: row.source || 'manual',
-    };
+    const newClient = mapClientRow(row, 'manual');
 
     setClients((prev) => [...prev, newClient]);
     return newClient;
@@ -342,16 +544,7 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
 
     if (existing) {
       const row = existing as any;
-      const client: Client = {
-        id: row.id,
-        externalId: row.external_id,
-        name: row.name,
-        email: row.email,
-        phone: row.phone,
-        avatarUrl: row.avatar_url,
-        historicalData: [],
-        source: row.source || 'square',
-      };
+      const client = mapClientRow(row, 'square');
       setClients((prev) => [...prev.filter((c) => c.id !== client.id), client]);
       return client;
     }
@@ -381,21 +574,38 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
     if (error || !data) throw error || new Error('Failed to create client');
 
     const row = data as any;
-    const newClient: Client = {
-      id: row.id,
-      externalId: row.external_id,
-      name: row.name,
-      email: row.email,
-      phone: row.phone,
-      avatarUrl: row.avatar_url,
-      historicalData: [],
-      source: row.source || 'square',
-    };
+    const newClient = mapClientRow(row, 'square');
 
     setClients((prev) => [...prev, newClient]);
     return newClient;
   };
 
+  const updateClientPreferences = async (
+    clientId: string,
+    preferences: ClientSchedulingPreferences
+  ): Promise<Client> => {
+    if (!supabase) throw new Error('Supabase not initialized');
+
+    const { data, error } = await supabase
+      .from('clients')
+      .update(
+        {
+          preferred_weekdays: preferences.preferredWeekdays || [],
+          preferred_time_period: preferences.preferredTimePeriod || null,
+          preferred_stylist_id: preferences.preferredStylistId || null,
+        } as any
+      )
+      .eq('id', clientId)
+      .select()
+      .single();
+
+    if (error || !data) throw error || new Error('Failed to update client preferences');
+
+    const updated = mapClientRow(data, 'manual');
+    setClients((prev) => prev.map((c) => (c.id === updated.id ? { ...c, ...updated } : c)));
+    return updated;
+  };
+
   // Keep settings save non-blocking for now; persistence will be implemented once app is stable.
   const saveAll = async () => {
     try {
@@ -405,6 +615,8 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
       localStorage.setItem('admin_integration', JSON.stringify(integration));
       localStorage.setItem('admin_branding', JSON.stringify(branding));
       localStorage.setItem('admin_linking_config', JSON.stringify(linkingConfig));
+      localStorage.setItem('admin_scheduling_config', JSON.stringify(schedulingConfig));
+      localStorage.setItem('admin_closure_calendar', JSON.stringify(closureCalendar));
       localStorage.setItem('admin_text_size', String(textSize));
       localStorage.setItem('admin_push_alerts_enabled', String(pushAlertsEnabled));
       localStorage.setItem('admin_pinned_reports', JSON.stringify(pinnedReports));
@@ -423,12 +635,21 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
       branding,
       integration,
       linkingConfig,
+      schedulingConfig,
+      closureCalendar,
+      salonTimezone,
+      salonTimezoneLoaded,
+      locations,
+      activeLocationId,
+      catalogSyncedAt,
+      catalogChangedAt,
       textSize,
       pushAlertsEnabled,
       pinnedReports,
       loadingTeam,
       teamError,
       needsSquareConnect,
+      squareConnection,
       updateServices,
       updateLevels,
       updateStylists,
@@ -437,11 +658,17 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
       updateBranding,
       updateIntegration,
       updateLinkingConfig,
+      updateSchedulingConfig,
+      updateClosureCalendar,
+      updateActiveLocation,
+      applyCatalogSync,
       updateTextSize,
       updatePushAlertsEnabled,
       updatePinnedReports,
       createClient,
       resolveClientByExternalId,
+      updateClientPreferences,
+      syncSquareClients,
       saveAll,
     }),
     [
@@ -453,12 +680,21 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
       branding,
       integration,
       linkingConfig,
+      schedulingConfig,
+      closureCalendar,
+      salonTimezone,
+      salonTimezoneLoaded,
+      locations,
+      activeLocationId,
+      catalogSyncedAt,
+      catalogChangedAt,
       textSize,
       pushAlertsEnabled,
       pinnedReports,
       loadingTeam,
       teamError,
       needsSquareConnect,
+      squareConnection,
     ]
   );
 
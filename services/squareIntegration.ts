@@ -1,4 +1,8 @@
-import { Service, Stylist, Client, PlanAppointment } from '../types';
+import { Service, Stylist, Client, PlanAppointment, PlanService } from '../types';
+import type { SquareConnectionHealth } from '../square/oauth';
+import type { CustomerSyncSummary } from '../square/customerSync';
+import { supabase } from '../lib/supabase';
+import { CatalogSyncPreview, diffCatalog, parseCatalogObjects } from '../utils/catalogSync';
 
 // Square API Types (Simplified)
 interface SquareLocation {
@@ -7,6 +11,7 @@ interface SquareLocation {
     business_name: string;
     timezone: string;
     status: string;
+    address?: { address_line_1?: string; locality?: string };
 }
 
 const TOKEN_STORAGE_KEY = 'square_access_token';
@@ -34,7 +39,45 @@ const baseUrl = SQUARE_ENV === 'sandbox'
     ? 'https://connect.squareupsandbox.com'
     : 'https://connect.squareup.com';
 
-async function squareApiFetch<T>(path: string, options: { method?: string, body?: any } = {}): Promise<T> {
+// Calls to the customer sync endpoint per sync; each covers up to MAX_PAGES_PER_RUN pages.
+const MAX_CUSTOMER_SYNC_CALLS = 50;
+
+// Longest start_at range Square accepts when listing bookings.
+const BOOKING_LIST_WINDOW_MS = 31 * 24 * 60 * 60 * 1000;
+
+// Asks the server for the salon's connection health, refreshing the Square token there when
+// it is close to expiring (or always, with `force`), and keeps this browser's copy current.
+async function refreshSquareConnection(force = false): Promise<SquareConnectionHealth> {
+    const { data: sessionData } = await supabase.auth.getSession();
+    const sessionToken = sessionData?.session?.access_token;
+    if (!sessionToken) {
+        throw new Error('Missing Supabase session token.');
+    }
+
+    const res = await fetch('/api/square/oauth/refresh', {
+        method: 'POST',
+        headers: {
+            Authorization: `Bearer ${sessionToken}`,
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ force }),
+    });
+    const health = await res.json();
+    if (!res.ok) {
+        throw new Error(health?.message || 'Square connection check failed');
+    }
+
+    if (health.accessToken) {
+        try {
+            window.localStorage.setItem(TOKEN_STORAGE_KEY, health.accessToken);
+        } catch {
+            // ignore
+        }
+    }
+    return { status: health.status, expiresAt: health.expiresAt ?? null, error: health.error };
+}
+
+async function squareApiFetch<T>(path: string, options: { method?: string, body?: any } = {}, isRetry = false): Promise<T> {
     const { method = 'GET', body } = options;
     
     const token = getSquareAccessToken();
@@ -52,6 +95,14 @@ async function squareApiFetch<T>(path: string, options: { method?: string, body?
         },
         body: body ? JSON.stringify(body) : undefined,
     });
+
+    // The stored token was refreshed elsewhere or has expired: refresh once and retry.
+    if (response.status === 401 && !isRetry) {
+        const health = await refreshSquareConnection(true).catch(() => null);
+        if (health && health.status !== 'disconnected') {
+            return squareApiFetch<T>(path, options, true);
+        }
+    }
     
     const text = await response.text();
     let data;
@@ -70,6 +121,41 @@ async function squareApiFetch<T>(path: string, options: { method?: string, body?
 }
 
 
+// Every page of `/v2/catalog/list` for the given object types.
+async function listCatalogObjects(types: string): Promise<any[]> {
+    const objects: any[] = [];
+    let cursor: string | undefined;
+    do {
+        const query = `types=${types}${cursor ? `&cursor=${encodeURIComponent(cursor)}` : ''}`;
+        const data: any = await squareApiFetch(`/v2/catalog/list?${query}`);
+        objects.push(...(data.objects || []));
+        cursor = data.cursor;
+    } while (cursor);
+    return objects;
+}
+
+// Catalog objects changed since `beginTime`, deletions included, with Square's watermark for the next search.
+async function searchCatalogChanges(beginTime: string): Promise<{ objects: any[]; latestTime: string | null }> {
+    const objects: any[] = [];
+    let latestTime: string | null = null;
+    let cursor: string | undefined;
+    do {
+        const data: any = await squareApiFetch('/v2/catalog/search', {
+            method: 'POST',
+            body: {
+                object_types: ['ITEM', 'ITEM_VARIATION', 'CATEGORY'],
+                include_deleted_objects: true,
+                begin_time: beginTime,
+                cursor,
+            },
+        });
+        objects.push(...(data.objects || []));
+        latestTime = data.latest_time || latestTime;
+        cursor = data.cursor;
+    } while (cursor);
+    return { objects, latestTime };
+}
+
 export const SquareIntegrationService = {
   formatDate(date: Date, timezone: string = 'UTC') {
     if (!date || isNaN(date.getTime())) {
@@ -85,7 +171,7 @@ export const SquareIntegrationService = {
             hour: '2-digit',
             minute: '2-digit',
             second: '2-digit',
-            hour12: false,
+            hourCycle: 'h23', // hour12: false renders midnight as 24:00 in some engines
             timeZoneName: 'shortOffset'
         });
 
@@ -121,11 +207,39 @@ export const SquareIntegrationService = {
     }
   },
   
-  fetchLocation: async (): Promise<SquareLocation> => {
+  refreshConnection: refreshSquareConnection,
+
+  // Sends the browser to Square with a server-issued state, bound to the signed-in user if any.
+  startConnect: async (): Promise<void> => {
+      const { data: sessionData } = await supabase.auth.getSession();
+      const sessionToken = sessionData?.session?.access_token;
+      if (!sessionToken) {
+          window.location.href = '/api/square/oauth/start';
+          return;
+      }
+
+      const res = await fetch('/api/square/oauth/start', {
+          method: 'POST',
+          headers: { Authorization: `Bearer ${sessionToken}` },
+      });
+      const data = await res.json();
+      if (!res.ok || !data.url) {
+          throw new Error(data?.message || 'Could not start Square connect.');
+      }
+      window.location.href = data.url;
+  },
+
+  fetchLocations: async (): Promise<SquareLocation[]> => {
       const data: any = await squareApiFetch('/v2/locations');
-      const activeLocation = data.locations?.find((loc: any) => loc.status === 'ACTIVE');
-      if (!activeLocation) throw new Error("No active location found.");
-      return activeLocation;
+      return (data.locations || []).filter((loc: any) => loc.status === 'ACTIVE');
+  },
+
+  // The given location, or the first active one when none is given (single-location salons).
+  fetchLocation: async (locationId?: string | null): Promise<SquareLocation> => {
+      const locations = await SquareIntegrationService.fetchLocations();
+      const location = locationId ? locations.find(loc => loc.id === locationId) : locations[0];
+      if (!location) throw new Error(locationId ? "This location is no longer active in Square." : "No active location found.");
+      return location;
   },
 
   fetchBusinessDetails: async (): Promise<string> => {
@@ -141,32 +255,46 @@ export const SquareIntegrationService = {
   },
 
   fetchCatalog: async (): Promise<Service[]> => {
-    const data: any = await squareApiFetch('/v2/catalog/list?types=ITEM,ITEM_VARIATION,CATEGORY');
-    const objects = data.objects || [];
-    const items = objects.filter((o: any) => o.type === 'ITEM');
-    const variations = objects.filter((o: any) => o.type === 'ITEM_VARIATION');
-    const categories = objects.filter((o: any) => o.type === 'CATEGORY');
-
-    const services: Service[] = [];
-
-    variations.forEach((variation: any) => {
-        const item = items.find((i: any) => i.id === variation.item_variation_data.item_id);
-        if (item) {
-            const categoryObj = categories.find((c: any) => c.id === item.item_data.category_id);
-            const priceMoney = variation.item_variation_data.price_money;
-            const durationMs = variation.item_variation_data.service_duration;
-
-            services.push({
-                id: variation.id,
-                version: variation.version,
-                name: `${item.item_data.name}${variation.item_variation_data.name !== 'Regular' ? ` - ${variation.item_variation_data.name}` : ''}`.trim(),
-                category: categoryObj?.category_data?.name || 'Uncategorized',
-                cost: priceMoney ? Number(priceMoney.amount) / 100 : 0,
-                duration: durationMs ? durationMs / 1000 / 60 : 0,
-            });
-        }
-    });
-    return services;
+    const objects = await listCatalogObjects('ITEM,ITEM_VARIATION,CATEGORY');
+    return parseCatalogObjects(objects, new Map()).services;
+  },
+
+  /**
+   * What a sync would change in `current`, for the admin to review. With a watermark from
+   * the last applied sync only objects changed since then are fetched; without one the whole
+   * catalog is listed.
+   */
+  fetchCatalogChanges: async (current: Service[], since: string | null): Promise<CatalogSyncPreview> => {
+    const startedAt = new Date().toISOString();
+    if (!since) {
+      const objects = await listCatalogObjects('ITEM,ITEM_VARIATION,CATEGORY');
+      const changes = diffCatalog(current, parseCatalogObjects(objects, new Map()), 'full');
+      return { mode: 'full', changes, syncedAt: startedAt };
+    }
+
+    const { objects, latestTime } = await searchCatalogChanges(since);
+    const categories = await listCatalogObjects('CATEGORY');
+    const categoryNames = new Map<string, string>(categories.map((c: any) => [c.id, c.category_data?.name]));
+
+    // Changed variations whose item did not change still need the item for names and categories.
+    const present = new Set(objects.filter((o: any) => o.type === 'ITEM').map((o: any) => o.id));
+    const missing = [...new Set<string>(
+      objects
+        .filter((o: any) => o.type === 'ITEM_VARIATION' && !o.is_deleted)
+        .map((o: any) => o.item_variation_data?.item_id)
+        .filter((id: string) => id && !present.has(id))
+    )];
+    const items = new Map<string, any>();
+    if (missing.length > 0) {
+      const data: any = await squareApiFetch('/v2/catalog/batch-retrieve', {
+        method: 'POST',
+        body: { object_ids: missing },
+      });
+      (data.objects || []).forEach((o: any) => items.set(o.id, o));
+    }
+
+    const changes = diffCatalog(current, parseCatalogObjects(objects, categoryNames, items), 'incremental');
+    return { mode: 'incremental', changes, syncedAt: latestTime || startedAt };
   },
 
   fetchTeam: async (): Promise<Stylist[]> => {
@@ -232,6 +360,42 @@ export const SquareIntegrationService = {
       }));
   },
 
+  // Server-side sync into `clients`, called until the server reports the run complete. Stops
+  // with an error after MAX_CUSTOMER_SYNC_CALLS, or when a call leaves the run where it was.
+  syncCustomers: async (): Promise<CustomerSyncSummary> => {
+      const { data: sessionData } = await supabase.auth.getSession();
+      const sessionToken = sessionData?.session?.access_token;
+      if (!sessionToken) {
+          throw new Error('Missing Supabase session token.');
+      }
+
+      const total: CustomerSyncSummary = { created: 0, updated: 0, unchanged: 0, complete: false, cursor: null, syncedAt: null };
+      for (let call = 0; !total.complete; call++) {
+          if (call >= MAX_CUSTOMER_SYNC_CALLS) {
+              throw new Error('Square customer sync did not finish; run it again to continue.');
+          }
+          const res = await fetch('/api/square/clients', {
+              method: 'POST',
+              headers: { Authorization: `Bearer ${sessionToken}` },
+          });
+          const data = await res.json();
+          if (!res.ok) {
+              throw new Error(data?.message || 'Square customer sync failed');
+          }
+          const processed = data.created + data.updated + data.unchanged;
+          if (!data.complete && (processed === 0 || data.cursor === total.cursor)) {
+              throw new Error('Square customer sync stopped making progress.');
+          }
+          total.created += data.created;
+          total.updated += data.updated;
+          total.unchanged += data.unchanged;
+          total.complete = data.complete;
+          total.cursor = data.cursor;
+          total.syncedAt = data.syncedAt;
+      }
+      return total;
+  },
+
   searchCustomer: async (name: string): Promise<string | null> => {
       const nameParts = name.trim().split(/\s+/);
       const firstName = nameParts[0];
@@ -309,18 +473,26 @@ export const SquareIntegrationService = {
       return slots;
   },
 
-  fetchAllBookings: async (locationId: string): Promise<any[]> => {
-    let cursor: string | undefined = undefined;
+  // Bookings starting in [start, end). Square lists at most 31 days per query (now to +31
+  // days when no range is given), so longer ranges are fetched window by window.
+  fetchAllBookings: async (locationId: string, range: { start: Date; end: Date }): Promise<any[]> => {
     const allBookings: any[] = [];
-    
-    do {
-        const path = `/v2/bookings?location_id=${locationId}${cursor ? `&cursor=${cursor}` : ''}`;
-        const data: any = await squareApiFetch(path);
-        if (data.bookings) {
-            allBookings.push(...data.bookings);
-        }
-        cursor = data.cursor;
-    } while (cursor);
+
+    for (let windowStart = range.start.getTime(); windowStart < range.end.getTime(); windowStart += BOOKING_LIST_WINDOW_MS) {
+        const windowEnd = Math.min(windowStart + BOOKING_LIST_WINDOW_MS, range.end.getTime());
+        const query = `location_id=${locationId}`
+            + `&start_at_min=${encodeURIComponent(new Date(windowStart).toISOString())}`
+            + `&start_at_max=${encodeURIComponent(new Date(windowEnd).toISOString())}`;
+        let cursor: string | undefined = undefined;
+        do {
+            const path = `/v2/bookings?${query}${cursor ? `&cursor=${cursor}` : ''}`;
+            const data: any = await squareApiFetch(path);
+            if (data.bookings) {
+                allBookings.push(...data.bookings);
+            }
+            cursor = data.cursor;
+        } while (cursor);
+    }
 
     return allBookings;
   },
@@ -329,18 +501,19 @@ export const SquareIntegrationService = {
       locationId: string;
       startAt: string; 
       customerId: string;
-      teamMemberId: string;
-      services: Service[];
+      teamMemberId: string; // for services without their own `stylistId`
+      services: PlanService[];
+      idempotencyKey?: string; // Square returns the original booking when a key is reused
   }): Promise<any> => {
-      const { locationId, startAt, customerId, teamMemberId, services } = bookingDetails;
+      const { locationId, startAt, customerId, teamMemberId, services, idempotencyKey } = bookingDetails;
       
       if (!locationId) throw new Error("Location ID is required for booking.");
       if (!customerId) throw new Error("Customer ID is required for booking.");
 
+      const isInvalidTeamMemberId = (id?: string) => !id || id.startsWith('TM-') || id === 'admin';
       let resolvedTeamMemberId = teamMemberId;
-      const isInvalidTeamMemberId = !teamMemberId || teamMemberId.startsWith('TM-') || teamMemberId === 'admin';
 
-      if (isInvalidTeamMemberId) {
+      if (isInvalidTeamMemberId(teamMemberId) && services.some(s => isInvalidTeamMemberId(s.stylistId))) {
           const teamMembers = await SquareIntegrationService.fetchTeam();
           if (!teamMembers || teamMembers.length === 0) {
               throw new Error("No bookable team members found in Square to assign this appointment to.");
@@ -356,12 +529,13 @@ export const SquareIntegrationService = {
       });
 
       const body = {
+          idempotency_key: idempotencyKey,
           booking: {
               location_id: locationId,
               start_at: startAt,
               customer_id: customerId,
               appointment_segments: services.map(service => ({
-                  team_member_id: resolvedTeamMemberId,
+                  team_member_id: isInvalidTeamMemberId(service.stylistId) ? resolvedTeamMemberId : service.stylistId,
                   service_variation_id: service.id,
                   service_variation_version: serviceVersionMap.get(service.id) || undefined
               }))
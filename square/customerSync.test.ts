@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { CustomerSyncState, CustomerSyncStore, ExistingClient, syncCustomers } from './customerSync';
+import { WebhookClientRow } from './webhooks';
+
+const OWNER_ID = 'owner-1';
+
+const customer = (id: string, email: string) => ({ id, given_name: 'Client', family_name: id, email_address: email });
+
+// Pages of two over `customers`; cursors are the index of the next page.
+const memoryStore = (customers: any[]) => {
+  let state: CustomerSyncState = { cursor: null, runStartedAt: null, syncedAt: null };
+  const clients = new Map<string, ExistingClient>();
+  const store: CustomerSyncStore = {
+    loadState: async () => ({ ...state }),
+    saveState: async (_ownerId, next) => void (state = { ...next }),
+    findClients: async (_ownerId, ids) => new Map(ids.filter(id => clients.has(id)).map(id => [id, clients.get(id)!])),
+    upsertClients: async (rows: WebhookClientRow[]) =>
+      rows.forEach(row => clients.set(row.external_id, { ...row, id: clients.get(row.external_id)?.id || `client-${row.external_id}` })),
+    fetchPage: async cursor => {
+      const start = Number(cursor || 0);
+      const next = start + 2 < customers.length ? String(start + 2) : null;
+      return { customers: customers.slice(start, start + 2), cursor: next };
+    },
+  };
+  return { store, clients, state: () => state };
+};
+
+describe('syncCustomers', () => {
+  const customers = ['A', 'B', 'C', 'D', 'E'].map(id => customer(id, `${id.toLowerCase()}@example.com`));
+
+  it('stops at the page budget with the cursor to continue from', async () => {
+    const { store, state } = memoryStore(customers);
+    const first = await syncCustomers(OWNER_ID, store, 2);
+    expect(first).toMatchObject({ created: 4, complete: false, cursor: '4', syncedAt: null });
+    expect(state().cursor).toBe('4');
+
+    const second = await syncCustomers(OWNER_ID, store, 2);
+    expect(second).toMatchObject({ created: 1, complete: true, cursor: null });
+    expect(second.syncedAt).toBe(state().syncedAt);
+    expect(state().runStartedAt).toBeNull();
+  });
+
+  it('only writes customers that changed', async () => {
+    const current = [...customers];
+    const { store, clients } = memoryStore(current);
+    await syncCustomers(OWNER_ID, store);
+    current[1] = customer('B', 'b.new@example.com');
+    const summary = await syncCustomers(OWNER_ID, store);
+    expect(summary).toMatchObject({ created: 0, updated: 1, unchanged: 4, complete: true });
+    expect(clients.get('B')).toMatchObject({ id: 'client-B', email: 'b.new@example.com' });
+  });
+});
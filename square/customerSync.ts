@@ -0,0 +1,97 @@
+/**
+ * Square customer sync, kept free of HTTP and Supabase like the webhook handling so it can
+ * run against an in-memory store. A run pages through customers updated since the last
+ * completed run; the cursor is stored after every page, so a run cut short by the function
+ * time limit resumes where it stopped.
+ */
+
+import { toClientRow, WebhookClientRow } from './webhooks';
+
+export interface CustomerSyncState {
+  cursor: string | null; // Next page of the run in progress
+  runStartedAt: string | null; // When the run in progress began; becomes the watermark
+  syncedAt: string | null; // Watermark: customers updated before this are already synced
+}
+
+export interface ExistingClient extends WebhookClientRow {
+  id: string;
+}
+
+export interface CustomerPage {
+  customers: any[];
+  cursor: string | null;
+}
+
+export interface CustomerSyncStore {
+  loadState(ownerId: string): Promise<CustomerSyncState>;
+  saveState(ownerId: string, state: CustomerSyncState): Promise<void>;
+  // The salon's clients with these Square customer IDs, keyed by customer ID.
+  findClients(ownerId: string, customerIds: string[]): Promise<Map<string, ExistingClient>>;
+  // Upserts on (supabase_user_id, external_id): salons can share Square customer IDs.
+  upsertClients(rows: WebhookClientRow[]): Promise<void>;
+  // One page of Square customers updated at or after `since` (all customers when null).
+  fetchPage(cursor: string | null, since: string | null): Promise<CustomerPage>;
+}
+
+export interface CustomerSyncSummary {
+  created: number;
+  updated: number;
+  unchanged: number;
+  complete: boolean; // False when the page budget ran out; call again to continue
+  cursor: string | null; // Where the next call continues; null once complete
+  syncedAt: string | null;
+}
+
+// Pages per call, to stay inside the serverless time limit; later calls pick up the cursor.
+export const MAX_PAGES_PER_RUN = 20;
+
+const SYNCED_FIELDS: (keyof WebhookClientRow)[] = ['name', 'email', 'phone'];
+
+export async function syncCustomers(
+  ownerId: string,
+  store: CustomerSyncStore,
+  maxPages = MAX_PAGES_PER_RUN
+): Promise<CustomerSyncSummary> {
+  const summary: CustomerSyncSummary = { created: 0, updated: 0, unchanged: 0, complete: false, cursor: null, syncedAt: null };
+  const saved = await store.loadState(ownerId);
+  const state: CustomerSyncState = saved.cursor
+    ? saved
+    : { ...saved, runStartedAt: new Date().toISOString() };
+
+  for (let page = 0; page < maxPages; page++) {
+    const { customers, cursor } = await store.fetchPage(state.cursor, state.syncedAt);
+    const existing = await store.findClients(ownerId, customers.map(c => c.id));
+
+    const changed: WebhookClientRow[] = [];
+    customers.forEach(customer => {
+      const row = toClientRow(ownerId, customer);
+      const known = existing.get(customer.id);
+      if (!known) {
+        summary.created++;
+        changed.push(row);
+      } else if (SYNCED_FIELDS.some(f => (known[f] || null) !== row[f])) {
+        summary.updated++;
+        changed.push({ ...row, avatar_url: known.avatar_url || row.avatar_url });
+      } else {
+        summary.unchanged++;
+      }
+    });
+    if (changed.length > 0) await store.upsertClients(changed);
+
+    if (!cursor) {
+      // Customers edited during the run are fetched again next time and count as unchanged.
+      state.syncedAt = state.runStartedAt;
+      state.cursor = null;
+      state.runStartedAt = null;
+      await store.saveState(ownerId, state);
+      summary.complete = true;
+      break;
+    }
+    state.cursor = cursor;
+    await store.saveState(ownerId, state);
+  }
+
+  summary.cursor = state.cursor;
+  summary.syncedAt = state.syncedAt;
+  return summary;
+}
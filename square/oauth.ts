@@ -0,0 +1,241 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { constantTimeEqual, fromBase64Url, hmacSha256Base64, toBase64Url } from './signing';
+
+/**
+ * Square OAuth tokens for the API routes. Access tokens expire after 30 days, so every route
+ * that calls Square on a merchant's behalf goes through `getMerchantAccessToken`, which
+ * refreshes ahead of expiry and records a failed refresh so the app can ask the salon to
+ * reconnect only when the connection is really gone.
+ */
+
+// Refresh once a token is this close to expiring. Square suggests refreshing at least weekly.
+export const TOKEN_REFRESH_WINDOW_DAYS = 7;
+
+// 'expiring' still works but could not be refreshed; 'disconnected' needs a new OAuth grant.
+export type SquareConnectionStatus = 'connected' | 'expiring' | 'disconnected';
+
+export interface SquareConnectionHealth {
+  status: SquareConnectionStatus;
+  expiresAt: string | null;
+  accessToken?: string; // Only for the browser, which calls Square directly
+  error?: string;
+}
+
+export const squareBaseUrl = () =>
+  (process.env.VITE_SQUARE_ENV || 'production').toLowerCase() === 'sandbox'
+    ? 'https://connect.squareupsandbox.com'
+    : 'https://connect.squareup.com';
+
+// merchant_settings columns for a token response from /oauth2/token.
+export const tokenColumns = (tokenData: any) => ({
+  square_access_token: tokenData.access_token,
+  // Square only returns a new refresh token on the authorization_code grant.
+  ...(tokenData.refresh_token ? { square_refresh_token: tokenData.refresh_token } : {}),
+  square_token_expires_at: tokenData.expires_at || null,
+  square_refresh_failed_at: null,
+  square_refresh_error: null,
+});
+
+const isExpired = (expiresAt: string | null, withinDays = 0) =>
+  !!expiresAt && new Date(expiresAt).getTime() - withinDays * 86400000 <= Date.now();
+
+export async function exchangeRefreshToken(refreshToken: string) {
+  const tokenRes = await fetch(`${squareBaseUrl()}/oauth2/token`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Square-Version': '2023-10-20',
+    },
+    body: JSON.stringify({
+      client_id: process.env.VITE_SQUARE_APPLICATION_ID,
+      client_secret: process.env.VITE_SQUARE_APPLICATION_SECRET,
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken,
+    }),
+  });
+
+  const tokenData = await tokenRes.json();
+  if (!tokenRes.ok) {
+    throw new Error(tokenData?.errors?.[0]?.detail || tokenData?.message || 'Square token refresh failed');
+  }
+  return tokenData;
+}
+
+/**
+ * The merchant's Square token, refreshed first when it is within TOKEN_REFRESH_WINDOW_DAYS of
+ * expiring (or always, with `forceRefresh`). A failed refresh is recorded on
+ * merchant_settings; the old token is still returned while it has not expired.
+ */
+export async function getMerchantConnection(
+  supabaseAdmin: SupabaseClient,
+  supabaseUserId: string,
+  options: { forceRefresh?: boolean } = {}
+): Promise<SquareConnectionHealth> {
+  const { data: ms, error } = await supabaseAdmin
+    .from('merchant_settings')
+    .select('square_access_token, square_refresh_token, square_token_expires_at')
+    .eq('supabase_user_id', supabaseUserId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!ms?.square_access_token) {
+    return { status: 'disconnected', expiresAt: null, error: 'Square is not connected.' };
+  }
+
+  const expiresAt: string | null = ms.square_token_expires_at || null;
+  if (!options.forceRefresh && !isExpired(expiresAt, TOKEN_REFRESH_WINDOW_DAYS)) {
+    return { status: 'connected', expiresAt, accessToken: ms.square_access_token };
+  }
+
+  if (!ms.square_refresh_token) {
+    // Connected before refresh tokens were kept: usable until it expires, then reconnect.
+    return isExpired(expiresAt)
+      ? { status: 'disconnected', expiresAt, error: 'Square connection expired.' }
+      : { status: 'expiring', expiresAt, accessToken: ms.square_access_token, error: 'No refresh token stored.' };
+  }
+
+  try {
+    const tokenData = await exchangeRefreshToken(ms.square_refresh_token);
+    const columns = tokenColumns(tokenData);
+    const { error: saveErr } = await supabaseAdmin
+      .from('merchant_settings')
+      .update(columns as any)
+      .eq('supabase_user_id', supabaseUserId);
+    if (saveErr) console.error('[Square OAuth] Failed to store refreshed token:', saveErr);
+    return { status: 'connected', expiresAt: columns.square_token_expires_at, accessToken: columns.square_access_token };
+  } catch (e: any) {
+    console.error('[Square OAuth] Token refresh failed:', e);
+    await supabaseAdmin
+      .from('merchant_settings')
+      .update({ square_refresh_failed_at: new Date().toISOString(), square_refresh_error: e.message } as any)
+      .eq('supabase_user_id', supabaseUserId);
+    return isExpired(expiresAt)
+      ? { status: 'disconnected', expiresAt, error: e.message }
+      : { status: 'expiring', expiresAt, accessToken: ms.square_access_token, error: e.message };
+  }
+}
+
+// Just the token, for routes that only need to call Square.
+export async function getMerchantAccessToken(
+  supabaseAdmin: SupabaseClient,
+  supabaseUserId: string,
+  options: { forceRefresh?: boolean } = {}
+): Promise<string | null> {
+  const connection = await getMerchantConnection(supabaseAdmin, supabaseUserId, options);
+  return connection.accessToken || null;
+}
+
+/*
+ * OAuth `state`: a signed, short-lived token naming a nonce, the Supabase user who started
+ * the connect (if signed in) and an expiry. The nonce is also set as an HttpOnly cookie on
+ * the starting browser and recorded in `square_oauth_states`, so a state only completes in
+ * the browser that started it, for the user who started it, and only once.
+ */
+
+export const OAUTH_STATE_TTL_MINUTES = 10;
+
+export const OAUTH_NONCE_COOKIE = 'square_oauth_nonce';
+
+export type OAuthStateErrorCode = 'state_missing' | 'state_invalid' | 'state_expired' | 'state_used' | 'state_mismatch';
+
+export const OAUTH_STATE_ERRORS: Record<OAuthStateErrorCode, string> = {
+  state_missing: 'The Square response did not include a connect request.',
+  state_invalid: 'The connect request was not issued by this app.',
+  state_expired: 'The connect request expired before Square responded.',
+  state_used: 'This connect request has already been used.',
+  state_mismatch: 'The connect request was started in a different browser or account.',
+};
+
+export type OAuthStateResult =
+  | { ok: true; userId: string | null }
+  | { ok: false; code: OAuthStateErrorCode; message: string };
+
+const stateSecret = () => process.env.SQUARE_OAUTH_STATE_SECRET || process.env.VITE_SQUARE_APPLICATION_SECRET || '';
+
+const stateError = (code: OAuthStateErrorCode): OAuthStateResult => ({ ok: false, code, message: OAUTH_STATE_ERRORS[code] });
+
+export const oauthScopes = () =>
+  process.env.VITE_SQUARE_OAUTH_SCOPES ||
+  'MERCHANT_PROFILE_READ EMPLOYEES_READ ITEMS_READ CUSTOMERS_READ CUSTOMERS_WRITE APPOINTMENTS_READ APPOINTMENTS_ALL_READ APPOINTMENTS_WRITE SUBSCRIPTIONS_READ SUBSCRIPTIONS_WRITE';
+
+export const buildAuthorizeUrl = (appId: string, redirectUri: string, state: string) =>
+  `${squareBaseUrl()}/oauth2/authorize` +
+  `?client_id=${encodeURIComponent(appId)}` +
+  `&response_type=code` +
+  `&scope=${encodeURIComponent(oauthScopes())}` +
+  `&redirect_uri=${encodeURIComponent(redirectUri)}` +
+  `&state=${encodeURIComponent(state)}` +
+  `&session=false`;
+
+// Scoped to the OAuth routes; Lax so it survives the top-level redirect back from Square.
+export const oauthNonceCookie = (nonce: string, maxAgeSeconds = OAUTH_STATE_TTL_MINUTES * 60) =>
+  `${OAUTH_NONCE_COOKIE}=${nonce}; Path=/api/square/oauth; Max-Age=${maxAgeSeconds}; HttpOnly; Secure; SameSite=Lax`;
+
+export const readCookie = (req: any, name: string): string | undefined => {
+  if (req.cookies?.[name]) return req.cookies[name];
+  const header = typeof req.headers?.cookie === 'string' ? req.headers.cookie : '';
+  const match = header.split(';').map((c: string) => c.trim()).find((c: string) => c.startsWith(`${name}=`));
+  return match ? decodeURIComponent(match.slice(name.length + 1)) : undefined;
+};
+
+export async function createOAuthState(
+  supabaseAdmin: SupabaseClient,
+  userId: string | null
+): Promise<{ state: string; nonce: string }> {
+  const secret = stateSecret();
+  if (!secret) throw new Error('Square OAuth state secret is not configured on the server.');
+
+  const nonce = crypto.randomUUID();
+  const expiresAt = new Date(Date.now() + OAUTH_STATE_TTL_MINUTES * 60000);
+  const payload = toBase64Url(btoa(JSON.stringify({ n: nonce, u: userId, e: expiresAt.getTime() })));
+  const signature = toBase64Url(await hmacSha256Base64(secret, payload));
+
+  const { error } = await supabaseAdmin
+    .from('square_oauth_states')
+    .insert({ nonce, supabase_user_id: userId, expires_at: expiresAt.toISOString() } as any);
+  if (error) throw error;
+
+  return { state: `${payload}.${signature}`, nonce };
+}
+
+/**
+ * Checks a state returned by Square against the nonce cookie and the signed-in user, then
+ * marks it used. Checks run cheapest first; only a state that passes all of them is consumed.
+ */
+export async function consumeOAuthState(
+  supabaseAdmin: SupabaseClient,
+  state: string | undefined,
+  cookieNonce: string | undefined,
+  requestUserId: string | null
+): Promise<OAuthStateResult> {
+  if (!state) return stateError('state_missing');
+
+  const [payload, signature] = state.split('.');
+  const secret = stateSecret();
+  if (!payload || !signature || !secret) return stateError('state_invalid');
+  const expected = toBase64Url(await hmacSha256Base64(secret, payload));
+  if (!constantTimeEqual(expected, signature)) return stateError('state_invalid');
+
+  let claims: { n: string; u: string | null; e: number };
+  try {
+    claims = JSON.parse(fromBase64Url(payload));
+  } catch {
+    return stateError('state_invalid');
+  }
+
+  if (!claims.e || claims.e < Date.now()) return stateError('state_expired');
+  if (!cookieNonce || !constantTimeEqual(cookieNonce, claims.n)) return stateError('state_mismatch');
+  if (claims.u && claims.u !== requestUserId) return stateError('state_mismatch');
+
+  // Single use: only the first request to flip used_at gets the row back.
+  const { data, error } = await supabaseAdmin
+    .from('square_oauth_states')
+    .update({ used_at: new Date().toISOString() } as any)
+    .eq('nonce', claims.n)
+    .is('used_at', null)
+    .select('nonce');
+  if (error) throw error;
+  if (!data || data.length === 0) return stateError('state_used');
+
+  return { ok: true, userId: claims.u };
+}
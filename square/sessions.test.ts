@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { merchantEmail, resolveSalonUser, retireLegacyPassword } from './sessions';
+
+// Just enough of a service-role client for the account lookups and password changes here.
+const fakeAdmin = (users: any[], linkedUserId: string | null = null) => {
+  const updates: { id: string; attributes: any }[] = [];
+  const client: any = {
+    from: () => ({
+      select: () => ({
+        eq: () => ({ maybeSingle: async () => ({ data: linkedUserId ? { supabase_user_id: linkedUserId } : null, error: null }) }),
+      }),
+    }),
+    auth: {
+      admin: {
+        getUserById: async (id: string) => ({ data: { user: users.find(u => u.id === id) || null }, error: null }),
+        updateUserById: async (id: string, attributes: any) => {
+          updates.push({ id, attributes });
+          return { data: {}, error: null };
+        },
+      },
+    },
+  };
+  return { client, updates };
+};
+
+describe('retireLegacyPassword', () => {
+  it('replaces the password of a merchant account from the old flow once', async () => {
+    const user = { id: 'u1', email: merchantEmail('M1'), app_metadata: {} };
+    const { client, updates } = fakeAdmin([user]);
+    expect(await retireLegacyPassword(client, user)).toBe(true);
+    expect(updates).toHaveLength(1);
+    expect(updates[0].attributes.app_metadata).toEqual({ password_retired: true });
+    expect(await retireLegacyPassword(client, { ...user, app_metadata: { password_retired: true } })).toBe(false);
+    expect(updates).toHaveLength(1);
+  });
+
+  it('keeps the password of a signed-in user who connects Square to their own account', async () => {
+    const owner = { id: 'u2', email: 'owner@salon.example.com', app_metadata: {} };
+    const { client, updates } = fakeAdmin([owner]);
+    const result = await resolveSalonUser(client, 'M2', owner.id, { business_name: 'Salon' });
+    expect(result).toEqual({ ok: true, user: owner });
+    expect(await retireLegacyPassword(client, owner)).toBe(false);
+    expect(updates).toEqual([]);
+  });
+});
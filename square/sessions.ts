@@ -0,0 +1,110 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { toBase64Url } from './signing';
+
+/**
+ * Supabase accounts for salons that sign in with Square. The OAuth token route finds or
+ * creates the salon's user and mints a session for it server-side, so the browser never
+ * holds a password. Accounts from the old flow had the merchant ID as their password;
+ * `retireLegacyPassword` replaces it with a random one nobody knows.
+ */
+
+export const MERCHANT_EMAIL_DOMAIN = 'square-oauth.blueprint';
+
+export const merchantEmail = (merchantId: string) => `${merchantId}@${MERCHANT_EMAIL_DOMAIN}`;
+
+export type SalonUserResult =
+  | { ok: true; user: any }
+  | { ok: false; code: 'merchant_linked'; message: string };
+
+// FIX: Cast to 'any' to bypass Supabase auth method type errors, likely from an environment configuration issue.
+const adminAuth = (supabaseAdmin: SupabaseClient) => (supabaseAdmin.auth as any).admin;
+
+const randomPassword = () => {
+  const bytes = new Uint8Array(48);
+  crypto.getRandomValues(bytes);
+  let binary = '';
+  bytes.forEach(b => (binary += String.fromCharCode(b)));
+  return toBase64Url(btoa(binary));
+};
+
+/**
+ * The Supabase user a Square merchant signs in as. A merchant already connected keeps its
+ * user; a reconnect started by a signed-in user links the merchant to them; otherwise a user
+ * is created for the merchant. One merchant can't be linked to two users.
+ */
+export async function resolveSalonUser(
+  supabaseAdmin: SupabaseClient,
+  merchantId: string,
+  initiatingUserId: string | null,
+  metadata: { business_name: string }
+): Promise<SalonUserResult> {
+  const { data: linked, error } = await supabaseAdmin
+    .from('merchant_settings')
+    .select('supabase_user_id')
+    .eq('square_merchant_id', merchantId)
+    .maybeSingle();
+  if (error) throw error;
+
+  const linkedUserId: string | null = linked?.supabase_user_id || null;
+  if (linkedUserId && initiatingUserId && linkedUserId !== initiatingUserId) {
+    return { ok: false, code: 'merchant_linked', message: 'This Square account is already connected to another login.' };
+  }
+
+  const existingId = linkedUserId || initiatingUserId;
+  if (existingId) {
+    const { data, error: getErr } = await adminAuth(supabaseAdmin).getUserById(existingId);
+    if (getErr || !data?.user) throw getErr || new Error('Linked Supabase user not found');
+    return { ok: true, user: data.user };
+  }
+
+  const { data: created, error: createErr } = await adminAuth(supabaseAdmin).createUser({
+    email: merchantEmail(merchantId),
+    email_confirm: true,
+    user_metadata: { merchant_id: merchantId, business_name: metadata.business_name, role: 'admin' },
+    app_metadata: { merchant_id: merchantId, password_retired: true },
+  });
+  if (created?.user) return { ok: true, user: created.user };
+
+  // Signed up under the old flow but never stored merchant_settings: find it by its email.
+  const { data: link, error: linkErr } = await adminAuth(supabaseAdmin).generateLink({
+    type: 'magiclink',
+    email: merchantEmail(merchantId),
+  });
+  if (linkErr || !link?.user) throw createErr || linkErr || new Error('Supabase user creation failed');
+  return { ok: true, user: link.user };
+}
+
+export const isMerchantAccount = (user: any) => String(user?.email || '').endsWith(`@${MERCHANT_EMAIL_DOMAIN}`);
+
+// Replaces the merchant-ID password of an account from the old flow, once. Accounts with
+// their own email sign in with their own password and are never touched.
+export async function retireLegacyPassword(supabaseAdmin: SupabaseClient, user: any): Promise<boolean> {
+  if (!isMerchantAccount(user) || user.app_metadata?.password_retired) return false;
+  const { error } = await adminAuth(supabaseAdmin).updateUserById(user.id, {
+    password: randomPassword(),
+    app_metadata: { ...(user.app_metadata || {}), password_retired: true },
+  });
+  if (error) throw error;
+  return true;
+}
+
+/**
+ * A session for the user, minted with a one-time magic-link token that is verified here and
+ * never sent anywhere. Needs an anon-key client: verifying signs that client in.
+ */
+export async function mintSession(
+  supabaseAdmin: SupabaseClient,
+  supabaseAnon: SupabaseClient,
+  email: string
+): Promise<{ access_token: string; refresh_token: string; expires_at?: number }> {
+  const { data: link, error: linkErr } = await adminAuth(supabaseAdmin).generateLink({ type: 'magiclink', email });
+  const tokenHash = link?.properties?.hashed_token;
+  if (linkErr || !tokenHash) throw linkErr || new Error('Could not issue a sign-in token');
+
+  // FIX: Cast to 'any' to bypass Supabase auth method type errors, likely from an environment configuration issue.
+  const { data, error } = await (supabaseAnon.auth as any).verifyOtp({ token_hash: tokenHash, type: 'magiclink' });
+  if (error || !data?.session) throw error || new Error('Could not establish a session');
+
+  const { access_token, refresh_token, expires_at } = data.session;
+  return { access_token, refresh_token, expires_at };
+}
@@ -0,0 +1,33 @@
+// HMAC helpers shared by webhook verification and OAuth state, on Web Crypto so they run anywhere.
+
+const toBase64 = (bytes: ArrayBuffer) => {
+  let binary = '';
+  new Uint8Array(bytes).forEach(b => (binary += String.fromCharCode(b)));
+  return btoa(binary);
+};
+
+export const toBase64Url = (base64: string) =>
+  base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+export const fromBase64Url = (value: string) =>
+  atob(value.replace(/-/g, '+').replace(/_/g, '/') + '==='.slice((value.length + 3) % 4));
+
+export async function hmacSha256Base64(key: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(key),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  return toBase64(await crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(message)));
+}
+
+// Compares every character so the time taken does not reveal how much of a guess was right.
+export const constantTimeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
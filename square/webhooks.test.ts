@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import bookingCreated from './fixtures/webhooks/booking.created.json';
+import bookingCancelled from './fixtures/webhooks/booking.updated.cancelled.json';
+import bookingNoShow from './fixtures/webhooks/booking.updated.no-show.json';
+import catalogUpdated from './fixtures/webhooks/catalog.version.updated.json';
+import customerCreated from './fixtures/webhooks/customer.created.json';
+import customerUpdated from './fixtures/webhooks/customer.updated.json';
+import {
+  SquareWebhookEvent,
+  WebhookBookingRow,
+  WebhookClientRow,
+  WebhookStore,
+  processWebhookEvent,
+  verifySquareSignature,
+} from './webhooks';
+
+// The fixtures are request bodies as Square sent them, signed with this key for this URL.
+const SIGNATURE_KEY = 'test-signature-key';
+const NOTIFICATION_URL = 'https://salon.example.com/api/square/webhooks';
+const OWNER_ID = 'owner-1';
+
+interface Fixture {
+  signature: string;
+  body: string;
+}
+
+const memoryStore = (customers: Record<string, any> = {}) => {
+  const events = new Map<string, string>();
+  const clients = new Map<string, WebhookClientRow & { id: string }>();
+  const bookings = new Map<string, WebhookBookingRow>();
+  const catalogChanges: string[] = [];
+  const store: WebhookStore = {
+    hasProcessedEvent: async id => events.has(id),
+    recordEvent: async (event, outcome) => void events.set(event.event_id, outcome),
+    findMerchantOwner: async merchantId => (merchantId === 'ML1M1RCH4NT' ? OWNER_ID : null),
+    findClientId: async (ownerId, customerId) => clients.get(`${ownerId}/${customerId}`)?.id || null,
+    upsertClient: async row => {
+      const key = `${row.supabase_user_id}/${row.external_id}`;
+      const known = clients.get(key);
+      const id = known?.id || `client-${clients.size + 1}`;
+      clients.set(key, { ...known, ...row, id } as WebhookClientRow & { id: string });
+      return id;
+    },
+    fetchCustomer: async (_ownerId, customerId) => customers[customerId] || null,
+    findBooking: async id => bookings.get(id) || null,
+    upsertBooking: async row => void bookings.set(row.id, row),
+    markCatalogChanged: async (_ownerId, updatedAt) => void catalogChanges.push(updatedAt),
+  };
+  return { store, events, clients, bookings, catalogChanges };
+};
+
+// Verifies a fixture the way the endpoint does, then applies it.
+const deliver = async (fixture: Fixture, store: WebhookStore) => {
+  if (!(await verifySquareSignature(fixture.body, fixture.signature, NOTIFICATION_URL, SIGNATURE_KEY))) {
+    throw new Error('Invalid signature');
+  }
+  return processWebhookEvent(JSON.parse(fixture.body) as SquareWebhookEvent, store);
+};
+
+describe('Square webhook fixtures', () => {
+  it('accepts the signature of every recorded body', async () => {
+    for (const fixture of [bookingCreated, bookingCancelled, bookingNoShow, customerCreated, customerUpdated, catalogUpdated]) {
+      expect(await verifySquareSignature(fixture.body, fixture.signature, NOTIFICATION_URL, SIGNATURE_KEY)).toBe(true);
+    }
+  });
+
+  it('rejects a tampered body, a signature for another URL and a missing signature', async () => {
+    const tampered = bookingCreated.body.replace('ACCEPTED', 'CANCELLED_BY_SELLER');
+    expect(await verifySquareSignature(tampered, bookingCreated.signature, NOTIFICATION_URL, SIGNATURE_KEY)).toBe(false);
+    expect(await verifySquareSignature(bookingCreated.body, bookingCreated.signature, 'https://other.example.com/hook', SIGNATURE_KEY)).toBe(false);
+    expect(await verifySquareSignature(bookingCreated.body, undefined, NOTIFICATION_URL, SIGNATURE_KEY)).toBe(false);
+    await expect(deliver({ ...bookingCreated, body: tampered }, memoryStore().store)).rejects.toThrow('Invalid signature');
+  });
+});
+
+describe('processWebhookEvent', () => {
+  const customer = JSON.parse(customerCreated.body).data.object.customer;
+
+  it('creates the client and the booking for a booking made in Square', async () => {
+    const { store, clients, bookings } = memoryStore({ [customer.id]: customer });
+    expect(await deliver(bookingCreated, store)).toBe('processed');
+    expect([...clients.values()]).toMatchObject([{ id: 'client-1', supabase_user_id: OWNER_ID, name: 'Maya Okafor', external_id: customer.id }]);
+    expect(bookings.get('bkg-7h3n2k')).toMatchObject({
+      client_id: 'client-1',
+      stylist_id: 'TM-ANNA',
+      start_time: '2025-01-20T17:00:00Z',
+      end_time: '2025-01-20T18:30:00.000Z',
+      status: 'ACCEPTED',
+      location_id: 'L8LOC4T10N',
+    });
+  });
+
+  it('updates the booking status for a cancellation and a no-show', async () => {
+    const { store, bookings } = memoryStore({ [customer.id]: customer });
+    await deliver(bookingCreated, store);
+    bookings.set('bkg-7h3n2k', {
+      ...bookings.get('bkg-7h3n2k')!,
+      services: [{ variation_id: 'VAR-CUT', name: 'Cut' }, { variation_id: 'VAR-GLOSS', name: 'Gloss' }],
+    });
+
+    await deliver(bookingCancelled, store);
+    expect(bookings.get('bkg-7h3n2k')!.status).toBe('CANCELLED_BY_SELLER');
+    await deliver(bookingNoShow, store);
+    expect(bookings.get('bkg-7h3n2k')!.status).toBe('NO_SHOW');
+    expect(bookings.get('bkg-7h3n2k')!.services.map(s => s.name)).toEqual(['Cut', 'Gloss']);
+  });
+
+  it('upserts customers on their Square ID, keeping the stored avatar', async () => {
+    const { store, clients } = memoryStore();
+    await deliver(customerCreated, store);
+    const key = `${OWNER_ID}/${customer.id}`;
+    clients.set(key, { ...clients.get(key)!, avatar_url: 'https://cdn.example.com/maya.jpg' });
+    await deliver(customerUpdated, store);
+    expect([...clients.values()]).toMatchObject([
+      { id: 'client-1', email: 'maya.okafor@example.com', avatar_url: 'https://cdn.example.com/maya.jpg' },
+    ]);
+  });
+
+  it('records catalog changes for the connected salon', async () => {
+    const { store, catalogChanges } = memoryStore();
+    expect(await deliver(catalogUpdated, store)).toBe('processed');
+    expect(catalogChanges).toEqual(['2025-01-09T16:00:00.412Z']);
+  });
+
+  it('keeps the newest booking version when deliveries arrive out of order', async () => {
+    const { store, bookings } = memoryStore({ [customer.id]: customer });
+    await deliver(bookingCreated, store);
+    await deliver(bookingNoShow, store);
+    expect(await deliver(bookingCancelled, store)).toBe('ignored');
+    expect(bookings.get('bkg-7h3n2k')).toMatchObject({ status: 'NO_SHOW', version: 2 });
+    expect(await deliver(bookingCreated, store)).toBe('duplicate');
+  });
+
+  it('applies a redelivered event only once', async () => {
+    const { store, events, bookings } = memoryStore({ [customer.id]: customer });
+    await deliver(bookingCreated, store);
+    await deliver(bookingCancelled, store);
+    expect(await deliver(bookingCancelled, store)).toBe('duplicate');
+    expect(await deliver(bookingCreated, store)).toBe('duplicate');
+    expect(bookings.get('bkg-7h3n2k')!.status).toBe('CANCELLED_BY_SELLER');
+    expect(events.size).toBe(2);
+  });
+
+  it('fails the delivery when events cannot be de-duplicated, so Square retries', async () => {
+    const { store, bookings } = memoryStore({ [customer.id]: customer });
+    const broken = { ...store, hasProcessedEvent: async () => { throw new Error('square_webhook_events missing'); } };
+    await expect(deliver(bookingCreated, broken)).rejects.toThrow('square_webhook_events missing');
+    expect(bookings.size).toBe(0);
+  });
+
+  it('ignores events for merchants no salon has connected', async () => {
+    const { store, events, clients } = memoryStore();
+    const event = { ...JSON.parse(customerCreated.body), merchant_id: 'UNKNOWN' };
+    expect(await processWebhookEvent(event, store)).toBe('ignored');
+    expect(clients.size).toBe(0);
+    expect(events.get(event.event_id)).toBe('ignored');
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Square webhook handling, kept free of HTTP and Supabase so recorded event payloads can be
+ * replayed against an in-memory `WebhookStore`. `api/square/webhooks.ts` wires it to the
+ * request and the database.
+ */
+
+import { constantTimeEqual, hmacSha256Base64 } from './signing';
+
+export interface SquareWebhookEvent {
+  merchant_id: string;
+  type: string;
+  event_id: string;
+  created_at?: string;
+  data?: {
+    type?: string;
+    id?: string;
+    object?: any;
+  };
+}
+
+export interface WebhookBookingRow {
+  id: string;
+  client_id: string;
+  stylist_id: string | null;
+  start_time: string;
+  end_time: string | null;
+  status: string;
+  services: { variation_id: string; name: string }[];
+  source: string;
+  location_id: string | null;
+  version: number | null; // Square's booking version; deliveries can arrive out of order
+}
+
+export interface WebhookClientRow {
+  supabase_user_id: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  avatar_url: string;
+  external_id: string;
+}
+
+// A client row for a customer the salon already has: the stored avatar is kept.
+export type WebhookClientUpdate = Omit<WebhookClientRow, 'avatar_url'>;
+
+// Everything event handling reads or writes, so fixtures can run without a database.
+export interface WebhookStore {
+  hasProcessedEvent(eventId: string): Promise<boolean>;
+  recordEvent(event: SquareWebhookEvent, outcome: WebhookOutcome): Promise<void>;
+  // Supabase user that connected this Square merchant, or null when none has.
+  findMerchantOwner(merchantId: string): Promise<string | null>;
+  findClientId(ownerId: string, customerId: string): Promise<string | null>;
+  upsertClient(row: WebhookClientRow | WebhookClientUpdate): Promise<string>; // Returns the client ID
+  // Customer details from Square, for bookings made for clients we have not seen yet.
+  fetchCustomer(ownerId: string, customerId: string): Promise<any | null>;
+  findBooking(bookingId: string): Promise<WebhookBookingRow | null>;
+  upsertBooking(row: WebhookBookingRow): Promise<void>;
+  // The admin catalog shows as stale until it is synced past `updatedAt`.
+  markCatalogChanged(ownerId: string, updatedAt: string): Promise<void>;
+}
+
+export type WebhookOutcome = 'processed' | 'duplicate' | 'ignored';
+
+export const SIGNATURE_HEADER = 'x-square-hmacsha256-signature';
+
+/**
+ * Square signs the notification URL followed by the raw request body with the
+ * subscription's signature key (HMAC-SHA256, base64). The URL must be exactly the one
+ * registered with Square, and the body must be the bytes received, not re-serialized JSON.
+ */
+export async function verifySquareSignature(
+  rawBody: string,
+  signature: string | undefined,
+  notificationUrl: string,
+  signatureKey: string
+): Promise<boolean> {
+  if (!signature || !signatureKey) return false;
+  const digest = await hmacSha256Base64(signatureKey, notificationUrl + rawBody);
+  return constantTimeEqual(digest, signature);
+}
+
+export const toClientRow = (ownerId: string, customer: any): WebhookClientRow => {
+  const name = [customer.given_name, customer.family_name].filter(Boolean).join(' ') || 'Client';
+  return {
+    supabase_user_id: ownerId,
+    name,
+    email: customer.email_address || null,
+    phone: customer.phone_number || null,
+    avatar_url: `https://ui-avatars.com/api/?name=${encodeURIComponent(name)}&background=random`,
+    external_id: customer.id,
+  };
+};
+
+// An update older than (or the same as) the stored booking, e.g. delivered after a later one.
+const isStaleBooking = (booking: any, existing: WebhookBookingRow | null) =>
+  typeof booking.version === 'number' && existing?.version != null && booking.version <= existing.version;
+
+/**
+ * Square booking payloads carry no service names, so names are kept from the row being
+ * replaced where the variation is unchanged.
+ */
+export const toBookingRow = (
+  booking: any,
+  clientId: string,
+  existing: WebhookBookingRow | null
+): WebhookBookingRow => {
+  const segments: any[] = booking.appointment_segments || [];
+  const knownNames = new Map((existing?.services || []).map(s => [s.variation_id, s.name]));
+  const minutes = segments.reduce((sum, s) => sum + (Number(s.duration_minutes) || 0), 0);
+  const start = new Date(booking.start_at);
+  return {
+    id: booking.id,
+    client_id: clientId,
+    stylist_id: segments[0]?.team_member_id || existing?.stylist_id || null,
+    start_time: booking.start_at,
+    end_time: minutes > 0 && !isNaN(start.getTime()) ? new Date(start.getTime() + minutes * 60000).toISOString() : existing?.end_time || null,
+    status: booking.status,
+    services: segments
+      .filter(s => s.service_variation_id)
+      .map(s => ({ variation_id: s.service_variation_id, name: knownNames.get(s.service_variation_id) || 'Square service' })),
+    source: 'square',
+    location_id: booking.location_id || existing?.location_id || null,
+    version: typeof booking.version === 'number' ? booking.version : null,
+  };
+};
+
+const resolveClient = async (store: WebhookStore, ownerId: string, customerId: string) => {
+  const known = await store.findClientId(ownerId, customerId);
+  if (known) return known;
+  const customer = await store.fetchCustomer(ownerId, customerId);
+  return customer ? store.upsertClient(toClientRow(ownerId, customer)) : null;
+};
+
+async function handleEvent(event: SquareWebhookEvent, ownerId: string, store: WebhookStore): Promise<WebhookOutcome> {
+  const object = event.data?.object || {};
+  switch (event.type) {
+    case 'booking.created':
+    case 'booking.updated': {
+      const booking = object.booking;
+      if (!booking?.id || !booking.customer_id) return 'ignored';
+      const clientId = await resolveClient(store, ownerId, booking.customer_id);
+      if (!clientId) {
+        console.warn('[Square Webhook] No client for customer', booking.customer_id);
+        return 'ignored';
+      }
+      const existing = await store.findBooking(booking.id);
+      if (isStaleBooking(booking, existing)) return 'ignored';
+      await store.upsertBooking(toBookingRow(booking, clientId, existing));
+      return 'processed';
+    }
+    case 'customer.created':
+    case 'customer.updated': {
+      const customer = object.customer;
+      if (!customer?.id) return 'ignored';
+      const row = toClientRow(ownerId, customer);
+      if (await store.findClientId(ownerId, customer.id)) {
+        const { avatar_url: _, ...update } = row;
+        await store.upsertClient(update);
+      } else {
+        await store.upsertClient(row);
+      }
+      return 'processed';
+    }
+    case 'catalog.version.updated': {
+      const updatedAt = object.catalog_version?.updated_at || event.created_at;
+      if (!updatedAt) return 'ignored';
+      await store.markCatalogChanged(ownerId, updatedAt);
+      return 'processed';
+    }
+    default:
+      // customer.deleted among others: clients keep their plans and history.
+      return 'ignored';
+  }
+}
+
+/**
+ * Applies one verified event. Square delivers at least once and retries on failure, so an
+ * event already recorded is skipped, and an event is only recorded once it has been applied.
+ * Throws when the store fails, so the caller answers with an error and Square retries.
+ */
+export async function processWebhookEvent(event: SquareWebhookEvent, store: WebhookStore): Promise<WebhookOutcome> {
+  if (!event?.event_id || !event.type) return 'ignored';
+  if (await store.hasProcessedEvent(event.event_id)) return 'duplicate';
+
+  const ownerId = await store.findMerchantOwner(event.merchant_id);
+  const outcome = ownerId ? await handleEvent(event, ownerId, store) : 'ignored';
+  if (!ownerId) console.warn('[Square Webhook] No salon connected for merchant', event.merchant_id);
+
+  await store.recordEvent(event, outcome);
+  return outcome;
+}
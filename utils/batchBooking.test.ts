@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_SLIP_DAYS, SEARCH_DAYS_BEFORE, pickBestSlot } from './batchBooking';
+
+const PLANNED = new Date(2025, 0, 15);
+
+describe('pickBestSlot', () => {
+  it('takes the planned day, in the preferred period when it can', () => {
+    const slots = ['2025-01-15T09:00:00Z', '2025-01-15T18:00:00Z', '2025-01-16T09:00:00Z'];
+    expect(pickBestSlot(slots, PLANNED, 'evening', 'UTC')).toBe('2025-01-15T18:00:00Z');
+  });
+
+  it('slips to the nearest day, the later one on ties', () => {
+    expect(pickBestSlot(['2025-01-13T09:00:00Z', '2025-01-17T09:00:00Z'], PLANNED, 'all', 'UTC')).toBe('2025-01-17T09:00:00Z');
+    expect(pickBestSlot(['2025-01-05T09:00:00Z', '2025-01-26T09:00:00Z'], PLANNED, 'all', 'UTC')).toBe('2025-01-05T09:00:00Z');
+  });
+
+  it('searches as far before the planned day as a visit may slip', () => {
+    expect(SEARCH_DAYS_BEFORE).toBe(MAX_SLIP_DAYS);
+    expect(pickBestSlot(['2025-01-01T09:00:00Z'], PLANNED, 'all', 'UTC')).toBe('2025-01-01T09:00:00Z');
+    expect(pickBestSlot(['2024-12-31T09:00:00Z', '2025-01-30T09:00:00Z'], PLANNED, 'all', 'UTC')).toBeNull();
+  });
+});
@@ -0,0 +1,55 @@
+import type { PlanAppointment, TimePeriod } from '../types';
+import { daysBetween, localDateKey } from './planScheduler';
+import { isSlotInPeriod, toSalonDate } from './salonDates';
+
+/*
+ * Slot choice for booking a whole roadmap at once. Each visit takes the open slot closest
+ * to its planned day, preferring the client's time of day; a visit that cannot be booked
+ * on its planned day "slips" to the nearest one that can.
+ */
+
+export type BatchOutcome = 'booked' | 'slipped' | 'failed';
+
+export interface BatchResult {
+  visit: PlanAppointment;
+  outcome: BatchOutcome;
+  slot?: string; // ISO start of the created booking
+  slipDays?: number; // booked day minus planned day
+  error?: string;
+}
+
+// Slots further than this from the planned day are not used; the visit fails instead.
+export const MAX_SLIP_DAYS = 14;
+
+// How far before the planned day the availability search starts, so early slots can slip
+// as far as late ones. The search runs 30 days, which covers MAX_SLIP_DAYS either side.
+export const SEARCH_DAYS_BEFORE = MAX_SLIP_DAYS;
+
+/**
+ * Best slot for a visit: the closest day to the planned one (ties go to the later day, so
+ * maintenance intervals never shrink), a slot in the preferred period over one outside
+ * it on the same day, then the earliest time. Null when nothing is within MAX_SLIP_DAYS.
+ */
+export const pickBestSlot = (
+  slots: string[],
+  plannedDate: Date,
+  period: TimePeriod,
+  timeZone: string
+): string | null => {
+  const ranked = slots
+    .map(slot => {
+      const offset = daysBetween(plannedDate, toSalonDate(new Date(slot), timeZone));
+      return { slot, offset, outOfPeriod: isSlotInPeriod(slot, period, timeZone) ? 0 : 1 };
+    })
+    .filter(s => Math.abs(s.offset) <= MAX_SLIP_DAYS)
+    .sort((a, b) =>
+      Math.abs(a.offset) - Math.abs(b.offset)
+      || b.offset - a.offset
+      || a.outOfPeriod - b.outOfPeriod
+      || new Date(a.slot).getTime() - new Date(b.slot).getTime());
+  return ranked[0]?.slot || null;
+};
+
+// The same visit always gets the same key, so re-running a batch cannot book it twice.
+export const batchIdempotencyKey = (planId: string, visit: PlanAppointment) =>
+  `roadmap-${planId}-${localDateKey(visit.date)}`.slice(0, 128);
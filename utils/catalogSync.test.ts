@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import type { Service } from '../types';
+import { applyCatalogChanges, diffCatalog, parseCatalogObjects } from './catalogSync';
+
+const variation = (id: string, itemId: string, name: string, cents: number, version: number, extra: any = {}) => ({
+  type: 'ITEM_VARIATION',
+  id,
+  version,
+  item_variation_data: { item_id: itemId, name, price_money: { amount: cents, currency: 'USD' }, service_duration: 60 * 60 * 1000 },
+  ...extra,
+});
+
+const objects = [
+  { type: 'CATEGORY', id: 'CAT-COLOR', category_data: { name: 'Color' } },
+  {
+    type: 'ITEM',
+    id: 'ITEM-COLOR',
+    item_data: {
+      name: 'Color',
+      category_id: 'CAT-COLOR',
+      variations: [
+        variation('V-REGULAR', 'ITEM-COLOR', 'Regular', 15000, 1),
+        variation('V-LONG', 'ITEM-COLOR', 'Long', 18000, 2),
+        variation('V-BUMPED', 'ITEM-COLOR', 'Short', 12000, 3),
+        variation('V-NEW', 'ITEM-COLOR', 'Gloss', 4000, 1),
+      ],
+    },
+  },
+  { type: 'ITEM', id: 'ITEM-OLD', item_data: { name: 'Perm', is_archived: true, variations: [variation('V-ARCHIVED', 'ITEM-OLD', 'Regular', 9000, 1)] } },
+  variation('V-DELETED', 'ITEM-COLOR', 'Toner', 3000, 4, { is_deleted: true }),
+  { type: 'ITEM', id: 'ITEM-GONE', is_deleted: true, item_data: { name: 'Gone', variations: [] } },
+];
+
+const service = (id: string, name: string, cost: number, version: number, extra: Partial<Service> = {}): Service => ({
+  id, itemId: 'ITEM-COLOR', version, name, category: 'Color', cost, duration: 60, ...extra,
+});
+
+const current: Service[] = [
+  service('V-REGULAR', 'Color', 150, 1),
+  service('V-LONG', 'Color - Long', 170, 1, { tierPrices: { senior: 190 } }),
+  service('V-BUMPED', 'Color - Short', 120, 2),
+  service('V-ARCHIVED', 'Perm', 90, 1, { itemId: 'ITEM-OLD' }),
+  service('V-DELETED', 'Color - Toner', 30, 3),
+  service('V-ORPHAN', 'Gone', 50, 1, { itemId: 'ITEM-GONE' }),
+  service('V-UNLISTED', 'Old Cut', 60, 1, { itemId: 'ITEM-CUT' }),
+];
+
+const parsed = parseCatalogObjects(objects, new Map());
+const kinds = (changes: ReturnType<typeof diffCatalog>) => changes.map(c => [c.kind, c.service.id]);
+
+describe('parseCatalogObjects', () => {
+  it('turns live variations into services named after their item', () => {
+    expect(parsed.services.find(s => s.id === 'V-LONG')).toEqual({
+      id: 'V-LONG', itemId: 'ITEM-COLOR', version: 2, name: 'Color - Long', category: 'Color', cost: 180, duration: 60,
+    });
+    expect(parsed.services.find(s => s.id === 'V-REGULAR')!.name).toBe('Color');
+    expect([...parsed.archivedIds]).toEqual(['V-ARCHIVED']);
+    expect([...parsed.deletedIds]).toEqual(['V-DELETED']);
+    expect([...parsed.deletedItemIds]).toEqual(['ITEM-GONE']);
+  });
+});
+
+describe('diffCatalog', () => {
+  it('classifies a full sync, deleting what Square no longer lists', () => {
+    expect(kinds(diffCatalog(current, parsed, 'full'))).toEqual([
+      ['changed', 'V-LONG'],
+      ['changed', 'V-BUMPED'],
+      ['added', 'V-NEW'],
+      ['archived', 'V-ARCHIVED'],
+      ['deleted', 'V-DELETED'],
+      ['deleted', 'V-ORPHAN'],
+      ['deleted', 'V-UNLISTED'],
+    ]);
+  });
+
+  it('only deletes what Square reports in an incremental sync', () => {
+    expect(kinds(diffCatalog(current, parsed, 'incremental'))).not.toContainEqual(['deleted', 'V-UNLISTED']);
+  });
+
+  it('names the changed fields, with a version bump alone as just the version', () => {
+    const changes = diffCatalog(current, parsed, 'incremental');
+    expect(changes.find(c => c.service.id === 'V-LONG')!.fields).toEqual(['cost', 'version']);
+    expect(changes.find(c => c.service.id === 'V-BUMPED')!.fields).toEqual(['version']);
+    expect(changes.some(c => c.service.id === 'V-REGULAR')).toBe(false);
+  });
+});
+
+describe('applyCatalogChanges', () => {
+  it('updates, removes and adds services, keeping what Square does not know about', () => {
+    const menu = applyCatalogChanges(current, diffCatalog(current, parsed, 'full'));
+    expect(menu.map(s => s.id)).toEqual(['V-REGULAR', 'V-LONG', 'V-BUMPED', 'V-NEW']);
+    expect(menu.find(s => s.id === 'V-LONG')).toMatchObject({ cost: 180, version: 2, tierPrices: { senior: 190 } });
+  });
+});
@@ -0,0 +1,152 @@
+import type { Service } from '../types';
+
+/*
+ * Catalog sync with Square. Square catalog objects are turned into services (one per item
+ * variation) and compared with the menu the salon has now, so an admin can review what a
+ * sync would add, change, archive or delete before it is applied.
+ */
+
+export type CatalogChangeKind = 'added' | 'changed' | 'archived' | 'deleted';
+
+export type CatalogSyncMode = 'full' | 'incremental';
+
+export interface CatalogChange {
+  kind: CatalogChangeKind;
+  service: Service; // From Square for added/changed; the current entry for archived/deleted
+  previous?: Service; // changed: the current entry
+  fields?: (keyof Service)[]; // changed: what differs ('version' alone for a version bump)
+}
+
+export interface CatalogSyncPreview {
+  mode: CatalogSyncMode;
+  changes: CatalogChange[];
+  syncedAt: string; // Watermark for the next incremental sync
+}
+
+export interface ParsedCatalog {
+  services: Service[]; // Variations of live items
+  archivedIds: Set<string>; // Variations of archived items
+  deletedIds: Set<string>; // Deleted variations
+  deletedItemIds: Set<string>; // Deleted items, whose variations may not be listed
+}
+
+const COMPARED_FIELDS: (keyof Service)[] = ['name', 'category', 'cost', 'duration', 'version'];
+
+const categoryIdOf = (item: any): string | undefined =>
+  item.item_data?.category_id || item.item_data?.categories?.[0]?.id;
+
+const variationName = (itemName: string, variationName: string) =>
+  `${itemName}${variationName && variationName !== 'Regular' ? ` - ${variationName}` : ''}`.trim();
+
+/**
+ * Services from Square catalog objects. Variations may come nested in their item or as
+ * objects of their own; `items` and `categoryNames` supply parents that were not among
+ * `objects` (incremental searches only return what changed).
+ */
+export function parseCatalogObjects(
+  objects: any[],
+  categoryNames: Map<string, string>,
+  items: Map<string, any> = new Map()
+): ParsedCatalog {
+  const itemsById = new Map(items);
+  const variations = new Map<string, any>();
+  const deletedIds = new Set<string>();
+  const deletedItemIds = new Set<string>();
+  const names = new Map(categoryNames);
+
+  const addVariation = (variation: any) => {
+    if (variation.is_deleted) {
+      deletedIds.add(variation.id);
+      return;
+    }
+    const known = variations.get(variation.id);
+    if (!known || (variation.version || 0) >= (known.version || 0)) variations.set(variation.id, variation);
+  };
+
+  objects.forEach(o => {
+    if (o.type === 'CATEGORY' && !o.is_deleted) names.set(o.id, o.category_data?.name);
+    if (o.type === 'ITEM_VARIATION') addVariation(o);
+    if (o.type === 'ITEM') {
+      if (o.is_deleted) {
+        deletedItemIds.add(o.id);
+        (o.item_data?.variations || []).forEach((v: any) => deletedIds.add(v.id));
+        return;
+      }
+      itemsById.set(o.id, o);
+      (o.item_data?.variations || []).forEach(addVariation);
+    }
+  });
+
+  const services: Service[] = [];
+  const archivedIds = new Set<string>();
+  variations.forEach(variation => {
+    const data = variation.item_variation_data || {};
+    const item = itemsById.get(data.item_id);
+    if (!item || deletedItemIds.has(data.item_id)) return;
+    if (item.item_data?.is_archived) {
+      archivedIds.add(variation.id);
+      return;
+    }
+    const categoryId = categoryIdOf(item);
+    services.push({
+      id: variation.id,
+      itemId: item.id,
+      version: variation.version,
+      name: variationName(item.item_data?.name || '', data.name),
+      category: (categoryId && names.get(categoryId)) || 'Uncategorized',
+      cost: data.price_money ? Number(data.price_money.amount) / 100 : 0,
+      duration: data.service_duration ? data.service_duration / 1000 / 60 : 0,
+    });
+  });
+
+  return { services, archivedIds, deletedIds, deletedItemIds };
+}
+
+/**
+ * What applying `parsed` would do to `current`. A full sync lists the whole catalog, so a
+ * current service it no longer contains has been deleted; an incremental one only knows
+ * about deletions Square reports.
+ */
+export function diffCatalog(current: Service[], parsed: ParsedCatalog, mode: CatalogSyncMode): CatalogChange[] {
+  const currentById = new Map(current.map(s => [s.id, s]));
+  const changes: CatalogChange[] = [];
+
+  parsed.services.forEach(service => {
+    const previous = currentById.get(service.id);
+    if (!previous) {
+      changes.push({ kind: 'added', service });
+      return;
+    }
+    const fields = COMPARED_FIELDS.filter(f => service[f] !== undefined && service[f] !== previous[f]);
+    if (fields.length > 0) changes.push({ kind: 'changed', service, previous, fields });
+  });
+
+  const listed = new Set(parsed.services.map(s => s.id));
+  current.forEach(service => {
+    if (parsed.archivedIds.has(service.id)) {
+      changes.push({ kind: 'archived', service });
+    } else if (
+      parsed.deletedIds.has(service.id) ||
+      (service.itemId && parsed.deletedItemIds.has(service.itemId)) ||
+      (mode === 'full' && !listed.has(service.id))
+    ) {
+      changes.push({ kind: 'deleted', service });
+    }
+  });
+
+  return changes;
+}
+
+// The menu after a reviewed sync. Changed services keep what Square doesn't know about, such as tier prices.
+export function applyCatalogChanges(current: Service[], changes: CatalogChange[]): Service[] {
+  const removed = new Set(changes.filter(c => c.kind === 'archived' || c.kind === 'deleted').map(c => c.service.id));
+  const updated = new Map(changes.filter(c => c.kind === 'changed').map(c => [c.service.id, c.service]));
+  const added = changes.filter(c => c.kind === 'added').map(c => c.service);
+
+  return [
+    ...current
+      .filter(s => !removed.has(s.id))
+      .map(s => (updated.has(s.id) ? { ...s, ...updated.get(s.id) } : s)),
+    ...added,
+  ];
+}
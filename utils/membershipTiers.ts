@@ -0,0 +1,7 @@
+import type { MembershipTier } from '../types';
+
+// Highest tier whose minimum the plan's monthly spend reaches; the entry tier otherwise.
+export const getQualifyingTier = (averageMonthlySpend: number, tiers: MembershipTier[]) => {
+  const sortedTiers = [...tiers].sort((a, b) => b.minSpend - a.minSpend);
+  return sortedTiers.find(t => averageMonthlySpend >= t.minSpend) || sortedTiers[sortedTiers.length - 1];
+};
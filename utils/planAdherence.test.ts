@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import type { Client, GeneratedPlan, Service } from '../types';
+import { generatePlan, localDateKey } from './planScheduler';
+import { bookingRangeFor, computeAdherence, ObservedBooking } from './planAdherence';
+
+const NOW = new Date(2025, 0, 6);
+
+const cut: Service = { id: 'cut', name: 'Cut', category: 'Styling', cost: 80, duration: 60 };
+const client: Client = { id: 'c1', name: 'Client', avatarUrl: '', historicalData: [] };
+
+const plan: GeneratedPlan = {
+  ...generatePlan(
+    { details: { cut: { firstDate: NOW, frequency: 4, unit: 'weeks' } }, services: [cut], client, stylist: { id: 's1', name: 'Stylist' } },
+    { now: NOW, horizonMonths: 3 }
+  ),
+  status: 'active',
+}; // 2025-01-06, 02-03, 03-03, 03-31
+
+let nextId = 0;
+const booking = (month: number, day: number, overrides: Partial<ObservedBooking> = {}): ObservedBooking => ({
+  id: `b${++nextId}`,
+  start: new Date(2025, month, day, 10).toISOString(),
+  status: 'ACCEPTED',
+  serviceIds: ['cut'],
+  source: 'square',
+  ...overrides,
+});
+
+const statuses = (bookings: ObservedBooking[], now: Date, p: GeneratedPlan = plan) =>
+  computeAdherence(p, bookings, { now }).visits.map(v => v.status);
+
+describe('computeAdherence', () => {
+  it('classifies past visits and scores the ones that are due', () => {
+    const result = computeAdherence(plan, [booking(0, 8), booking(1, 14)], { now: new Date(2025, 2, 20) });
+    expect(result.visits.map(v => [v.status, v.offsetDays])).toEqual([
+      ['completed', 2], ['late', 11], ['missed', undefined], ['upcoming', undefined],
+    ]);
+    expect(result.counts).toMatchObject({ completed: 1, late: 1, missed: 1, upcoming: 1 });
+    expect(result.score).toBe(50);
+  });
+
+  it('counts bookings within seven days either side as on time', () => {
+    const now = new Date(2025, 3, 20);
+    expect(statuses([booking(0, 13), booking(1, 11), booking(1, 23), booking(2, 24)], now)).toEqual(['completed', 'late', 'early', 'completed']);
+  });
+
+  it('pairs closest-first, so a booking goes to the visit it is nearest to', () => {
+    const result = computeAdherence(plan, [booking(1, 20)], { now: new Date(2025, 2, 20) });
+    expect(result.visits.map(v => v.status).slice(1, 3)).toEqual(['missed', 'early']);
+    expect(result.visits[2].offsetDays).toBe(-11);
+  });
+
+  it('does not match bookings more than 35 days from any visit', () => {
+    const far = booking(2, 8); // 36 days before 2025-04-13
+    const late = { ...plan, appointments: [{ date: new Date(2025, 3, 13), services: plan.appointments[0].services }] };
+    expect(statuses([far], new Date(2025, 4, 1), late)).toEqual(['missed']);
+    expect(statuses([{ ...far, start: new Date(2025, 2, 9, 10).toISOString() }], new Date(2025, 4, 1), late)).toEqual(['early']);
+  });
+
+  it('ignores cancelled bookings and bookings for other services, and counts no-shows as missed', () => {
+    const now = new Date(2025, 1, 20);
+    expect(statuses([booking(0, 6, { status: 'CANCELLED_BY_CUSTOMER' }), booking(1, 3, { serviceIds: ['color'] })], now).slice(0, 2)).toEqual(['missed', 'missed']);
+    expect(statuses([booking(0, 6, { status: 'NO_SHOW' })], now)[0]).toBe('missed');
+  });
+
+  it('shows future bookings as booked and leaves visits inside the tolerance upcoming', () => {
+    const now = new Date(2025, 1, 8);
+    expect(statuses([booking(2, 4)], now)).toEqual(['missed', 'upcoming', 'booked', 'upcoming']);
+    expect(computeAdherence(plan, [], { now: new Date(2025, 0, 10) }).score).toBeNull();
+  });
+
+  it('only holds visits before a pause against the client', () => {
+    const paused = { ...plan, status: 'paused' as const, pausedAt: new Date(2025, 1, 5).toISOString() };
+    expect(statuses([booking(0, 6)], new Date(2025, 3, 20), paused)).toEqual(['completed', 'upcoming', 'upcoming', 'upcoming']);
+  });
+});
+
+describe('bookingRangeFor', () => {
+  it('spans every visit plus the match window either side', () => {
+    const range = bookingRangeFor([plan])!;
+    expect(localDateKey(range.start)).toBe('2024-12-02');
+    expect(localDateKey(range.end)).toBe('2025-05-06');
+    expect(bookingRangeFor([{ ...plan, appointments: [] }])).toBeNull();
+  });
+});
@@ -0,0 +1,159 @@
+import type { GeneratedPlan, PlanAppointment } from '../types';
+import { addDays, daysBetween } from './planScheduler';
+import { toSalonDate } from './salonDates';
+
+// 'upcoming' visits are not due yet and have no booking; they don't count toward the score.
+export type AdherenceStatus = 'completed' | 'booked' | 'early' | 'late' | 'missed' | 'upcoming';
+
+// A booking from either our bookings table or Square, reduced to what matching needs.
+export interface ObservedBooking {
+  id: string;
+  start: string; // ISO timestamp
+  status: string;
+  serviceIds: string[];
+  source: string;
+}
+
+export interface VisitAdherence {
+  visit: PlanAppointment;
+  status: AdherenceStatus;
+  booking?: ObservedBooking;
+  offsetDays?: number; // booked date minus planned date
+}
+
+export interface PlanAdherence {
+  visits: VisitAdherence[];
+  counts: Record<AdherenceStatus, number>;
+  score: number | null; // 0-100 over visits that are due; null until one is
+}
+
+// A booking within this many days of the planned date counts as on time.
+export const ON_TIME_TOLERANCE_DAYS = 7;
+
+// Bookings further than this from a planned visit are not matched to it.
+export const MATCH_WINDOW_DAYS = 35;
+
+// Square statuses that mean the visit will not happen. NO_SHOW is handled separately.
+const isCancelledStatus = (status: string) => /^(CANCELLED|DECLINED)/.test(String(status || '').toUpperCase());
+
+const isNoShow = (status: string) => String(status || '').toUpperCase() === 'NO_SHOW';
+
+const STATUS_WEIGHTS: Partial<Record<AdherenceStatus, number>> = { completed: 1, early: 0.5, late: 0.5, missed: 0 };
+
+export const fromBookingRecord = (record: { id: string; start_time: string; status: string; services?: { variation_id: string }[]; source: string }): ObservedBooking => ({
+  id: record.id,
+  start: record.start_time,
+  status: record.status,
+  serviceIds: (record.services || []).map(s => s.variation_id),
+  source: record.source,
+});
+
+export const fromSquareBooking = (booking: any): ObservedBooking => ({
+  id: booking.id,
+  start: booking.start_at,
+  status: booking.status,
+  serviceIds: (booking.appointment_segments || []).map((s: any) => s.service_variation_id).filter(Boolean),
+  source: 'square',
+});
+
+// Bookings from several sources, de-duplicated by id (the first source wins).
+export const mergeBookings = (...sources: ObservedBooking[][]): ObservedBooking[] => {
+  const seen = new Map<string, ObservedBooking>();
+  sources.flat().forEach(b => {
+    if (!seen.has(b.id)) seen.set(b.id, b);
+  });
+  return Array.from(seen.values());
+};
+
+/**
+ * Days whose bookings can match the plans' visits, for asking Square for them: from the
+ * match window before the first visit to the match window after the last. Null when there
+ * are no visits.
+ */
+export const bookingRangeFor = (plans: GeneratedPlan[]): { start: Date; end: Date } | null => {
+  const times = plans.flatMap(p => p.appointments.map(a => a.date.getTime()));
+  if (times.length === 0) return null;
+  return {
+    start: addDays(new Date(Math.min(...times)), -MATCH_WINDOW_DAYS),
+    end: addDays(new Date(Math.max(...times)), MATCH_WINDOW_DAYS + 1),
+  };
+};
+
+// When a paused or expired plan stopped, so visits after it are not held against the client.
+const stoppedAt = (plan: GeneratedPlan): Date | null => {
+  if (plan.status === 'paused' && plan.pausedAt) return new Date(plan.pausedAt);
+  if (plan.status === 'expired') {
+    const expiry = [...(plan.statusHistory || [])].reverse().find(c => c.to === 'expired');
+    if (expiry) return new Date(expiry.at);
+  }
+  return null;
+};
+
+const sharesService = (visit: PlanAppointment, booking: ObservedBooking) =>
+  booking.serviceIds.length === 0 || visit.services.some(s => booking.serviceIds.includes(s.id));
+
+/**
+ * Matches each planned visit to at most one of the client's bookings and classifies it.
+ * Pairs are taken closest-first, so a booking goes to the visit it is nearest to; a booking
+ * that names services must share one with the visit. Past bookings within the tolerance
+ * are completed, further off they are early or late; future bookings are booked. Visits
+ * with no booking are missed once the tolerance has passed, counted up to the day a paused
+ * or expired plan stopped.
+ */
+export const computeAdherence = (
+  plan: GeneratedPlan,
+  bookings: ObservedBooking[],
+  options: { now?: Date; timeZone?: string } = {}
+): PlanAdherence => {
+  const now = options.now || new Date();
+  const stopped = stoppedAt(plan);
+  const dueBy = stopped && stopped < now ? stopped : now;
+  // Booking instants are compared on the salon calendar, like the visits they match.
+  const onCalendar = (instant: Date) => (options.timeZone ? toSalonDate(instant, options.timeZone) : instant);
+  const bookingDay = (b: ObservedBooking) => onCalendar(new Date(b.start));
+  const candidates = bookings.filter(b => !isCancelledStatus(b.status));
+  const pairs: { visitIndex: number; booking: ObservedBooking; offset: number }[] = [];
+  plan.appointments.forEach((visit, visitIndex) => {
+    candidates.forEach(booking => {
+      const offset = daysBetween(visit.date, bookingDay(booking));
+      if (Math.abs(offset) <= MATCH_WINDOW_DAYS && sharesService(visit, booking)) {
+        pairs.push({ visitIndex, booking, offset });
+      }
+    });
+  });
+  pairs.sort((a, b) => Math.abs(a.offset) - Math.abs(b.offset));
+
+  const matched = new Map<number, { booking: ObservedBooking; offset: number }>();
+  const usedBookings = new Set<string>();
+  pairs.forEach(pair => {
+    if (matched.has(pair.visitIndex) || usedBookings.has(pair.booking.id)) return;
+    matched.set(pair.visitIndex, pair);
+    usedBookings.add(pair.booking.id);
+  });
+
+  const visits = plan.appointments.map((visit, i): VisitAdherence => {
+    const match = matched.get(i);
+    if (!match) {
+      const overdue = daysBetween(visit.date, onCalendar(dueBy)) > ON_TIME_TOLERANCE_DAYS;
+      return { visit, status: overdue ? 'missed' : 'upcoming' };
+    }
+    const { booking, offset } = match;
+    let status: AdherenceStatus;
+    if (isNoShow(booking.status)) status = 'missed';
+    else if (new Date(booking.start) > now) status = 'booked';
+    else if (offset < -ON_TIME_TOLERANCE_DAYS) status = 'early';
+    else if (offset > ON_TIME_TOLERANCE_DAYS) status = 'late';
+    else status = 'completed';
+    return { visit, status, booking, offsetDays: offset };
+  });
+
+  const counts: Record<AdherenceStatus, number> = { completed: 0, booked: 0, early: 0, late: 0, missed: 0, upcoming: 0 };
+  visits.forEach(v => counts[v.status]++);
+
+  const due = visits.filter(v => STATUS_WEIGHTS[v.status] !== undefined);
+  const score = due.length > 0
+    ? Math.round((due.reduce((sum, v) => sum + (STATUS_WEIGHTS[v.status] || 0), 0) / due.length) * 100)
+    : null;
+
+  return { visits, counts, score };
+};
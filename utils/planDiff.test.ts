@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import type { Client, Service } from '../types';
+import { generatePlan } from './planScheduler';
+import { addServiceToVisit, deleteVisit, moveVisit } from './planEditing';
+import { diffPlans } from './planDiff';
+
+const NOW = new Date(2025, 0, 6);
+
+const cut: Service = { id: 'cut', name: 'Cut', category: 'Styling', cost: 80, duration: 60 };
+const gloss: Service = { id: 'gloss', name: 'Gloss', category: 'Treatment', cost: 40, duration: 30 };
+const client: Client = { id: 'c1', name: 'Client', avatarUrl: '', historicalData: [] };
+
+const plan = generatePlan(
+  { details: { cut: { firstDate: NOW, frequency: 4, unit: 'weeks' } }, services: [cut], client, stylist: { id: 's1', name: 'Stylist' } },
+  { now: NOW, horizonMonths: 3 }
+); // 2025-01-06, 02-03, 03-03, 03-31
+
+describe('diffPlans', () => {
+  it('reports nothing for the same plan', () => {
+    expect(diffPlans(plan, plan)).toEqual({ changes: [], totalCostDelta: 0, monthlySpendDelta: 0, visitCountDelta: 0 });
+  });
+
+  it('reports a moved visit as one move', () => {
+    const diff = diffPlans(plan, moveVisit(plan, 1, new Date(2025, 1, 10)));
+    expect(diff.changes).toEqual([{ kind: 'moved', serviceId: 'cut', serviceName: 'Cut', date: '2025-02-10', fromDate: '2025-02-03' }]);
+    expect(diff.totalCostDelta).toBe(0);
+    expect(diff.visitCountDelta).toBe(0);
+  });
+
+  it('reports a deleted visit and a new visit for another service as a removal and an addition', () => {
+    const edited = addServiceToVisit(deleteVisit(plan, 1), 1, gloss);
+    const diff = diffPlans(plan, edited);
+    expect(diff.changes).toEqual([
+      { kind: 'removed', serviceId: 'cut', serviceName: 'Cut', date: '2025-02-03', fromCost: 80 },
+      { kind: 'added', serviceId: 'gloss', serviceName: 'Gloss', date: '2025-03-03', toCost: 40 },
+    ]);
+    expect(diff.totalCostDelta).toBe(-40);
+    expect(diff.visitCountDelta).toBe(-1);
+  });
+
+  it('leaves the other visits alone when one is removed', () => {
+    const diff = diffPlans(plan, deleteVisit(plan, 0));
+    expect(diff.changes.map(c => c.kind)).toEqual(['removed']);
+    expect(diff.changes[0].date).toBe('2025-01-06');
+  });
+
+  it('reports price changes on unchanged dates', () => {
+    const repriced = { ...plan, appointments: plan.appointments.map((a, i) => (i === 2 ? { ...a, services: [{ ...cut, cost: 95 }] } : a)) };
+    expect(diffPlans(plan, repriced).changes).toEqual([
+      { kind: 'price', serviceId: 'cut', serviceName: 'Cut', date: '2025-03-03', fromCost: 80, toCost: 95 },
+    ]);
+  });
+});
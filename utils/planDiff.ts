@@ -0,0 +1,85 @@
+import type { GeneratedPlan } from '../types';
+import { localDateKey } from './planScheduler';
+
+export type VisitChangeKind = 'added' | 'removed' | 'moved' | 'price';
+
+export interface VisitChange {
+  kind: VisitChangeKind;
+  serviceId: string;
+  serviceName: string;
+  date: string; // 'YYYY-MM-DD' in the newer plan (the older one for removals)
+  fromDate?: string; // moved: where it was
+  fromCost?: number;
+  toCost?: number;
+}
+
+export interface PlanDiff {
+  changes: VisitChange[];
+  totalCostDelta: number;
+  monthlySpendDelta: number;
+  visitCountDelta: number;
+}
+
+interface Occurrence {
+  serviceId: string;
+  serviceName: string;
+  date: string;
+  cost: number;
+}
+
+const occurrencesByService = (plan: GeneratedPlan) => {
+  const byService: { [serviceId: string]: Occurrence[] } = {};
+  plan.appointments.forEach(a => a.services.forEach(s => {
+    (byService[s.id] = byService[s.id] || []).push({ serviceId: s.id, serviceName: s.name, date: localDateKey(a.date), cost: s.cost });
+  }));
+  Object.values(byService).forEach(list => list.sort((a, b) => a.date.localeCompare(b.date)));
+  return byService;
+};
+
+/**
+ * Compares two versions of a roadmap service by service. Occurrences on the same day are
+ * unchanged (or a price change); the leftovers are paired in date order as moves, and
+ * whatever cannot be paired was added or removed.
+ */
+export const diffPlans = (from: GeneratedPlan, to: GeneratedPlan): PlanDiff => {
+  const before = occurrencesByService(from);
+  const after = occurrencesByService(to);
+  const changes: VisitChange[] = [];
+
+  new Set([...Object.keys(before), ...Object.keys(after)]).forEach(serviceId => {
+    const oldList = [...(before[serviceId] || [])];
+    const newList: Occurrence[] = [];
+
+    (after[serviceId] || []).forEach(occ => {
+      const same = oldList.findIndex(o => o.date === occ.date);
+      if (same === -1) {
+        newList.push(occ);
+        return;
+      }
+      const [old] = oldList.splice(same, 1);
+      if (old.cost !== occ.cost) {
+        changes.push({ kind: 'price', serviceId, serviceName: occ.serviceName, date: occ.date, fromCost: old.cost, toCost: occ.cost });
+      }
+    });
+
+    const paired = Math.min(oldList.length, newList.length);
+    for (let i = 0; i < paired; i++) {
+      const old = oldList[i];
+      const occ = newList[i];
+      changes.push({
+        kind: 'moved', serviceId, serviceName: occ.serviceName, date: occ.date, fromDate: old.date,
+        ...(old.cost !== occ.cost ? { fromCost: old.cost, toCost: occ.cost } : {}),
+      });
+    }
+    newList.slice(paired).forEach(occ => changes.push({ kind: 'added', serviceId, serviceName: occ.serviceName, date: occ.date, toCost: occ.cost }));
+    oldList.slice(paired).forEach(old => changes.push({ kind: 'removed', serviceId, serviceName: old.serviceName, date: old.date, fromCost: old.cost }));
+  });
+
+  changes.sort((a, b) => a.date.localeCompare(b.date));
+  return {
+    changes,
+    totalCostDelta: to.totalCost - from.totalCost,
+    monthlySpendDelta: to.averageMonthlySpend - from.averageMonthlySpend,
+    visitCountDelta: to.totalYearlyAppointments - from.totalYearlyAppointments,
+  };
+};
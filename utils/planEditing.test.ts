@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import type { Client, PlanDetails, Service } from '../types';
+import { generatePlan, localDateKey } from './planScheduler';
+import {
+  addServiceToVisit,
+  assignServiceStylist,
+  deleteVisit,
+  moveVisit,
+  reflowFromBooking,
+  remainingPhases,
+  removeServiceFromVisit,
+} from './planEditing';
+
+const NOW = new Date(2025, 0, 6);
+
+const color: Service = { id: 'color', name: 'Color', category: 'Color', cost: 150, duration: 120 };
+const gloss: Service = { id: 'gloss', name: 'Gloss', category: 'Treatment', cost: 40, duration: 30, tierPrices: { senior: 55 } };
+const client: Client = { id: 'c1', name: 'Client', avatarUrl: '', historicalData: [] };
+const stylist = { id: 's1', name: 'Stylist' };
+
+const phased: PlanDetails = {
+  color: {
+    firstDate: NOW,
+    frequency: null,
+    phases: [
+      { interval: 2, unit: 'weeks', visits: 2 },
+      { interval: 8, unit: 'weeks', visits: null },
+    ],
+  },
+};
+
+const build = (details: PlanDetails, now = NOW) =>
+  generatePlan({ details, services: [color], client, stylist }, { now, horizonMonths: 6 });
+
+const dates = (plan: { appointments: { date: Date }[] }) => plan.appointments.map(a => localDateKey(a.date));
+
+describe('remainingPhases', () => {
+  it('drops used-up phases and shortens the current one', () => {
+    expect(remainingPhases(phased.color, 1)).toEqual([
+      { interval: 2, unit: 'weeks', visits: 1 },
+      { interval: 8, unit: 'weeks', visits: null },
+    ]);
+    expect(remainingPhases(phased.color, 2)).toEqual([{ interval: 8, unit: 'weeks', visits: null }]);
+    expect(remainingPhases(phased.color, 5)).toEqual([{ interval: 8, unit: 'weeks', visits: null }]);
+  });
+});
+
+describe('reflowFromBooking', () => {
+  const plan = build(phased);
+
+  it('re-spaces later visits from the booked date in the visit\'s current phase', () => {
+    expect(dates(plan)).toEqual(['2025-01-06', '2025-01-20', '2025-02-03', '2025-03-31', '2025-05-26']);
+    const reflowed = reflowFromBooking(plan, 1, new Date(2025, 0, 23));
+    expect(dates(reflowed)).toEqual(['2025-01-06', '2025-01-23', '2025-02-06', '2025-04-03', '2025-05-29']);
+  });
+
+  it('keeps the stored schedule consistent with the reflowed visits', () => {
+    const reflowed = reflowFromBooking(plan, 1, new Date(2025, 0, 23));
+    const regenerated = build(reflowed.details!, new Date(2025, 0, 23));
+    expect(dates(regenerated).slice(0, 4)).toEqual(dates(reflowed).slice(1));
+  });
+
+  it('keeps a single frequency as it was', () => {
+    const weekly = build({ color: { firstDate: NOW, frequency: 4, unit: 'weeks' } });
+    const reflowed = reflowFromBooking(weekly, 1, new Date(2025, 1, 5));
+    expect(dates(reflowed).slice(0, 4)).toEqual(['2025-01-06', '2025-02-05', '2025-03-05', '2025-04-02']);
+    expect(reflowed.details!.color.frequency).toBe(4);
+  });
+});
+
+describe('visit edits', () => {
+  const plan = build({ color: { firstDate: NOW, frequency: 8, unit: 'weeks' } });
+  const serviceIds = (p: typeof plan) => p.appointments.map(a => a.services.map(s => s.id));
+
+  it('moves a visit, keeping visits in date order and clearing its closure shift', () => {
+    const shifted = { ...plan, appointments: plan.appointments.map((a, i) => (i === 0 ? { ...a, shiftedFrom: '2025-01-05' } : a)) };
+    const moved = moveVisit(shifted, 0, new Date(2025, 2, 10));
+    expect(dates(moved)).toEqual(['2025-03-03', '2025-03-10', '2025-04-28', '2025-06-23']);
+    expect(moved.appointments[1].shiftedFrom).toBeUndefined();
+    expect(moved.totalCost).toBe(plan.totalCost);
+  });
+
+  it('deletes a visit and its cost', () => {
+    const deleted = deleteVisit(plan, 1);
+    expect(dates(deleted)).toEqual(['2025-01-06', '2025-04-28', '2025-06-23']);
+    expect(deleted.totalYearlyAppointments).toBe(3);
+    expect(deleted.totalCost).toBe(plan.totalCost - 150);
+  });
+
+  it('adds a service once per visit, priced for who performs it', () => {
+    const added = addServiceToVisit(plan, 0, gloss);
+    expect(added.appointments[0].services.map(s => [s.id, s.cost])).toEqual([['color', 150], ['gloss', 40]]);
+    expect(addServiceToVisit(added, 0, gloss).appointments[0].services).toHaveLength(2);
+
+    const senior = { id: 's2', name: 'Senior', levelId: 'senior' };
+    const byPeer = addServiceToVisit(plan, 0, gloss, senior).appointments[0].services[1];
+    expect(byPeer).toMatchObject({ cost: 55, stylistId: 's2', stylistName: 'Senior' });
+  });
+
+  it('assigns every visit of a service to a team member and back', () => {
+    const senior = { id: 's2', name: 'Senior', levelId: 'senior' };
+    const withGloss = addServiceToVisit(addServiceToVisit(plan, 0, gloss), 2, gloss);
+    const assigned = assignServiceStylist(withGloss, gloss, senior);
+    const glosses = assigned.appointments.flatMap(a => a.services.filter(s => s.id === 'gloss'));
+    expect(glosses.map(s => [s.stylistId, s.cost])).toEqual([['s2', 55], ['s2', 55]]);
+    expect(assigned.totalCost).toBe(withGloss.totalCost + 30);
+
+    const back = assignServiceStylist(assigned, gloss, null);
+    expect(back.appointments.flatMap(a => a.services).every(s => !s.stylistId)).toBe(true);
+    expect(back.totalCost).toBe(withGloss.totalCost);
+  });
+
+  it('removes a service from a visit, and the visit with its last service', () => {
+    const withGloss = addServiceToVisit(plan, 0, gloss);
+    expect(serviceIds(removeServiceFromVisit(withGloss, 0, 'color'))[0]).toEqual(['gloss']);
+
+    const removed = removeServiceFromVisit(plan, 0, 'color');
+    expect(dates(removed)).toEqual(['2025-03-03', '2025-04-28', '2025-06-23']);
+    expect(removed.totalYearlyAppointments).toBe(3);
+  });
+});
@@ -0,0 +1,209 @@
+import type { ClosureCalendar, FrequencyPhase, GeneratedPlan, PlanAppointment, PlanService, Service, Stylist } from '../types';
+import {
+  ScheduleStep,
+  ServiceSchedule,
+  advanceByInterval,
+  daysBetween,
+  findNearestOpenDay,
+  getIntervalAfterVisit,
+  getMaintenanceStep,
+  hasFrequency,
+  getPlanHorizonEnd,
+  localDateKey,
+  resolveServicePrice,
+  summarizeAppointments,
+} from './planScheduler';
+
+/*
+ * Pure edit operations on a saved roadmap. Each returns a new plan with its totals
+ * recomputed; nothing here persists. Visit indexes refer to `plan.appointments`, which
+ * is always kept in date order.
+ */
+
+const sortVisits = (appointments: PlanAppointment[]) =>
+  [...appointments].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+export const withTotals = (plan: GeneratedPlan, appointments: PlanAppointment[]): GeneratedPlan => ({
+  ...plan,
+  appointments: sortVisits(appointments),
+  ...summarizeAppointments(appointments, plan.horizonMonths || 12),
+});
+
+export const moveVisit = (plan: GeneratedPlan, index: number, date: Date): GeneratedPlan =>
+  withTotals(plan, plan.appointments.map((a, i) => (i === index ? { ...a, date, shiftedFrom: undefined } : a)));
+
+export const deleteVisit = (plan: GeneratedPlan, index: number): GeneratedPlan =>
+  withTotals(plan, plan.appointments.filter((_, i) => i !== index));
+
+type TeamMember = Pick<Stylist, 'id' | 'name' | 'levelId'>;
+
+// Prices a service for the team member performing it; no assignee means the plan's stylist.
+const planService = (plan: GeneratedPlan, service: Service, assignee?: TeamMember | null): PlanService => {
+  const { stylistId: _, stylistName: __, ...base } = service as PlanService;
+  return assignee && assignee.id !== plan.stylistId
+    ? { ...base, cost: resolveServicePrice(base, assignee.levelId), stylistId: assignee.id, stylistName: assignee.name }
+    : { ...base, cost: resolveServicePrice(base, plan.stylistLevelId) };
+};
+
+export const addServiceToVisit = (plan: GeneratedPlan, index: number, service: Service, assignee?: TeamMember | null): GeneratedPlan =>
+  withTotals(plan, plan.appointments.map((a, i) => {
+    if (i !== index || a.services.some(s => s.id === service.id)) return a;
+    return { ...a, services: [...a.services, planService(plan, service, assignee)] };
+  }));
+
+/**
+ * Hands every visit of a service to `assignee` (back to the plan's stylist when null) at
+ * their price. Pass the catalog `service`: planned copies only carry the price already chosen.
+ */
+export const assignServiceStylist = (plan: GeneratedPlan, service: Service, assignee: TeamMember | null): GeneratedPlan => {
+  const serviceId = service.id;
+  const details = plan.details?.[serviceId]
+    ? { ...plan.details, [serviceId]: { ...plan.details[serviceId], stylistId: assignee && assignee.id !== plan.stylistId ? assignee.id : undefined } }
+    : plan.details;
+  return withTotals({ ...plan, details }, plan.appointments.map(a => ({
+    ...a,
+    services: a.services.map(s => (s.id === serviceId ? planService(plan, service, assignee) : s)),
+  })));
+};
+
+// Removing the last service of a visit removes the visit.
+export const removeServiceFromVisit = (plan: GeneratedPlan, index: number, serviceId: string): GeneratedPlan =>
+  withTotals(plan, plan.appointments
+    .map((a, i) => (i === index ? { ...a, services: a.services.filter(s => s.id !== serviceId) } : a))
+    .filter(a => a.services.length > 0));
+
+/**
+ * Cadence a service currently follows in the plan: the stored wizard details when the
+ * plan has them, otherwise the typical gap between its visits rounded to whole weeks.
+ */
+export const inferServiceStep = (plan: GeneratedPlan, serviceId: string): ScheduleStep | null => {
+  const detail = plan.details?.[serviceId];
+  const stored = detail ? getMaintenanceStep(detail) : null;
+  if (stored) return stored;
+  const dates = plan.appointments.filter(a => a.services.some(s => s.id === serviceId)).map(a => a.date);
+  if (dates.length < 2) return null;
+  const gaps = dates.slice(1).map((d, i) => daysBetween(dates[i], d)).sort((a, b) => a - b);
+  return { interval: Math.max(1, Math.round(gaps[Math.floor(gaps.length / 2)] / 7)), unit: 'weeks' };
+};
+
+/**
+ * Phases still ahead of a service's `visitIndex`-th visit, so a schedule restarted there
+ * keeps the spacing it would have had: phases already used up are dropped and the current
+ * one keeps only its remaining visits.
+ */
+export const remainingPhases = (detail: ServiceSchedule, visitIndex: number): FrequencyPhase[] | undefined => {
+  if (!detail.phases?.length) return detail.phases;
+  let skip = visitIndex;
+  let start = 0;
+  while (start < detail.phases.length - 1 && detail.phases[start].visits != null && skip >= detail.phases[start].visits!) {
+    skip -= detail.phases[start].visits!;
+    start++;
+  }
+  const rest = detail.phases.slice(start);
+  if (skip > 0 && rest.length > 1 && rest[0].visits != null) rest[0] = { ...rest[0], visits: rest[0].visits - skip };
+  return rest;
+};
+
+/**
+ * Adds `service` after `from` until `planEnd`, joining same-day visits. `stepAfter(k)` is the
+ * gap after the k-th of these visits, `from` being the 0th.
+ */
+const scheduleForward = (
+  visits: PlanAppointment[],
+  service: Service,
+  from: Date,
+  stepAfter: (k: number) => ScheduleStep | null,
+  planEnd: Date,
+  closures?: ClosureCalendar
+) => {
+  let d = from;
+  for (let k = 0; ; k++) {
+    const step = stepAfter(k);
+    if (!step) return;
+    d = advanceByInterval(d, step);
+    if (d > planEnd) return;
+    const date = closures ? findNearestOpenDay(d, closures) : d;
+    const sameDay = visits.findIndex(v => localDateKey(v.date) === localDateKey(date));
+    if (sameDay > -1) {
+      visits[sameDay] = { ...visits[sameDay], services: [...visits[sameDay].services, { ...service }] };
+    } else {
+      visits.push({ date, services: [{ ...service }] });
+    }
+  }
+};
+
+/**
+ * Reschedules a service from the visit at `index` onward: later occurrences are dropped
+ * and rebuilt every `step` until the end of the plan horizon, joining an existing visit
+ * on the same day or opening a new one. New dates avoid closures when a calendar is given.
+ */
+export const changeFrequencyFrom = (
+  plan: GeneratedPlan,
+  serviceId: string,
+  index: number,
+  step: ScheduleStep,
+  closures?: ClosureCalendar
+): GeneratedPlan => {
+  const anchor = plan.appointments[index];
+  const service = anchor?.services.find(s => s.id === serviceId);
+  if (!anchor || !service) return plan;
+
+  const visits = plan.appointments
+    .map(a => (a.date > anchor.date ? { ...a, services: a.services.filter(s => s.id !== serviceId) } : a))
+    .filter(a => a.services.length > 0);
+
+  scheduleForward(visits, service, anchor.date, () => step, getPlanHorizonEnd(plan), closures);
+
+  // The stored cadence now runs from the anchor visit.
+  const details = plan.details && {
+    ...plan.details,
+    [serviceId]: { ...plan.details[serviceId], firstDate: anchor.date, frequency: step.interval, unit: step.unit, phases: undefined },
+  };
+  return withTotals({ ...plan, details }, visits);
+};
+
+/**
+ * Moves the visit at `index` to the date it was actually booked for and re-spaces every
+ * later occurrence of its services from there, keeping each service's planned cadence from
+ * where the visit sits in it (a phased service carries on in its current phase). Services
+ * whose cadence cannot be determined just move with the visit.
+ */
+export const reflowFromBooking = (
+  plan: GeneratedPlan,
+  index: number,
+  bookedDate: Date,
+  closures?: ClosureCalendar
+): GeneratedPlan => {
+  const visit = plan.appointments[index];
+  if (!visit) return plan;
+  const original = visit.date;
+
+  // Stored schedules restart at the booked visit with the phases still ahead of it.
+  const details = plan.details && { ...plan.details };
+  const stepsAfter: { [serviceId: string]: (k: number) => ScheduleStep | null } = {};
+  visit.services.forEach(s => {
+    const detail = details?.[s.id];
+    if (detail && hasFrequency(detail)) {
+      const visitIndex = plan.appointments.slice(0, index).filter(a => a.services.some(o => o.id === s.id)).length;
+      const restarted = { ...detail, firstDate: bookedDate, phases: remainingPhases(detail, visitIndex) };
+      details![s.id] = restarted;
+      stepsAfter[s.id] = k => getIntervalAfterVisit(restarted, k);
+      return;
+    }
+    const step = inferServiceStep(plan, s.id);
+    if (step) stepsAfter[s.id] = () => step;
+  });
+
+  const visits = plan.appointments
+    .filter((_, i) => i !== index)
+    .map(a => (a.date > original ? { ...a, services: a.services.filter(s => !stepsAfter[s.id]) } : a))
+    .filter(a => a.services.length > 0);
+  visits.push({ ...visit, date: bookedDate, shiftedFrom: undefined });
+
+  const planEnd = getPlanHorizonEnd(plan);
+  visit.services.forEach(s => {
+    if (stepsAfter[s.id]) scheduleForward(visits, s, bookedDate, stepsAfter[s.id], planEnd, closures);
+  });
+
+  return withTotals({ ...plan, details }, visits);
+};
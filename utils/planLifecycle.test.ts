@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import type { Client, Service } from '../types';
+import { generatePlan, getPlanHorizonEnd, localDateKey } from './planScheduler';
+import { canTransition, expireIfDue, isNearingRenewal, transitionPlan } from './planLifecycle';
+
+const NOW = new Date(2025, 0, 6);
+
+const cut: Service = { id: 'cut', name: 'Cut', category: 'Styling', cost: 80, duration: 60 };
+const client: Client = { id: 'c1', name: 'Client', avatarUrl: '', historicalData: [] };
+
+const activePlan = () => ({
+  ...generatePlan(
+    { details: { cut: { firstDate: NOW, frequency: 4, unit: 'weeks' } }, services: [cut], client, stylist: { id: 's1', name: 'Stylist' } },
+    { now: NOW, horizonMonths: 3 }
+  ),
+  status: 'active' as const,
+});
+
+describe('plan expiry', () => {
+  it('records an expired transition once the horizon has passed', () => {
+    const later = new Date(2025, 3, 10);
+    const expired = expireIfDue(activePlan(), later)!;
+    expect(expired.status).toBe('expired');
+    expect(expired.statusHistory).toEqual([
+      { from: 'active', to: 'expired', at: later.toISOString(), reason: 'Plan horizon ended', by: null },
+    ]);
+  });
+
+  it('leaves plans inside their horizon or not active alone', () => {
+    expect(expireIfDue(activePlan(), new Date(2025, 2, 1))).toBeNull();
+    expect(expireIfDue({ ...activePlan(), status: 'paused' }, new Date(2025, 3, 10))).toBeNull();
+  });
+
+  it('can still be cancelled or renewed once expired', () => {
+    const expired = expireIfDue(activePlan(), new Date(2025, 3, 10))!;
+    expect(canTransition('expired', 'cancelled')).toBe(true);
+    expect(canTransition('expired', 'active')).toBe(false);
+    expect(isNearingRenewal(expired, new Date(2025, 3, 10))).toBe(true);
+  });
+});
+
+describe('resuming a paused plan', () => {
+  const paused = transitionPlan(activePlan(), 'paused', { now: new Date(2025, 0, 20) });
+
+  it('pushes visits still ahead back by the length of the pause', () => {
+    const resumed = transitionPlan(paused, 'active', { now: new Date(2025, 0, 27) });
+    expect(resumed.appointments.map(a => localDateKey(a.date))).toEqual(['2025-01-06', '2025-02-10', '2025-03-10', '2025-04-07']);
+  });
+
+  it('moves shifted visits off closed days', () => {
+    const closures = { closedWeekdays: [1], holidays: [], closures: [] };
+    const resumed = transitionPlan(paused, 'active', { now: new Date(2025, 0, 27), closures });
+    expect(resumed.appointments.map(a => localDateKey(a.date))).toEqual(['2025-01-06', '2025-02-11', '2025-03-11', '2025-04-08']);
+    expect(resumed.appointments[1].shiftedFrom).toBe('2025-02-10');
+  });
+
+  it('moves the end of the horizon with the visits after a long pause near the end', () => {
+    const late = transitionPlan(activePlan(), 'paused', { now: new Date(2025, 2, 1) });
+    const resumed = transitionPlan(late, 'active', { now: new Date(2025, 2, 31) });
+    expect(resumed.appointments.map(a => localDateKey(a.date))).toEqual(['2025-01-06', '2025-02-03', '2025-04-02', '2025-04-30']);
+    expect(localDateKey(getPlanHorizonEnd(resumed))).toBe('2025-05-05');
+    expect(expireIfDue(resumed, new Date(2025, 4, 1))).toBeNull();
+    expect(expireIfDue(resumed, new Date(2025, 4, 10))!.status).toBe('expired');
+  });
+});
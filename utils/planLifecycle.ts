@@ -0,0 +1,102 @@
+import type { ClosureCalendar, GeneratedPlan, PlanDetails, PlanStatus } from '../types';
+import { addDays, advanceByInterval, daysBetween, findNearestOpenDay, getPlanHorizonEnd, isClosedDay, localDateKey } from './planScheduler';
+import { inferServiceStep } from './planEditing';
+
+/*
+ * Allowed status changes. Cancelled is final; a cancelled client gets a new plan instead.
+ *   draft   -> active (publish) | cancelled
+ *   active  -> paused | cancelled | expired (its horizon has passed)
+ *   paused  -> active (resume)  | cancelled
+ *   expired -> cancelled; the client continues on a renewal
+ */
+const TRANSITIONS: Record<PlanStatus, PlanStatus[]> = {
+  draft: ['active', 'cancelled'],
+  active: ['paused', 'cancelled', 'expired'],
+  paused: ['active', 'cancelled'],
+  cancelled: [],
+  expired: ['cancelled'],
+};
+
+// Plans whose horizon ends within this many days are flagged for renewal.
+export const RENEWAL_WINDOW_DAYS = 30;
+
+export const canTransition = (from: PlanStatus, to: PlanStatus) => TRANSITIONS[from].includes(to);
+
+export const getAllowedTransitions = (status: PlanStatus) => TRANSITIONS[status];
+
+/**
+ * Applies a status change and records it in `statusHistory`. Throws if the change is not
+ * allowed from the current status. Resuming a paused plan pushes every visit that was
+ * still ahead when it was paused, and the start of its horizon (so its end too), back by
+ * the length of the pause, then moves visits off any day the salon is closed when
+ * `closures` is given.
+ */
+export const transitionPlan = (
+  plan: GeneratedPlan,
+  to: PlanStatus,
+  options: { reason?: string; by?: string | null; now?: Date; closures?: ClosureCalendar } = {}
+): GeneratedPlan => {
+  if (!canTransition(plan.status, to)) {
+    throw new Error(`A ${plan.status} plan cannot be changed to ${to}.`);
+  }
+  const now = options.now || new Date();
+  const change = { from: plan.status, to, at: now.toISOString(), reason: options.reason, by: options.by };
+  const next: GeneratedPlan = { ...plan, status: to, statusHistory: [...(plan.statusHistory || []), change] };
+
+  if (to === 'paused') {
+    return { ...next, pausedAt: now.toISOString() };
+  }
+  if (plan.status === 'paused' && to === 'active' && plan.pausedAt) {
+    const pausedAt = new Date(plan.pausedAt);
+    const pausedDays = Math.max(0, daysBetween(pausedAt, now));
+    const frozenFrom = localDateKey(pausedAt);
+    const { closures } = options;
+    return {
+      ...next,
+      pausedAt: null,
+      startDate: addDays(new Date(plan.startDate || plan.createdAt), pausedDays).toISOString(),
+      appointments: plan.appointments.map(a => {
+        if (localDateKey(a.date) < frozenFrom) return a;
+        const shifted = addDays(a.date, pausedDays);
+        return closures && isClosedDay(shifted, closures)
+          ? { ...a, date: findNearestOpenDay(shifted, closures), shiftedFrom: localDateKey(shifted) }
+          : { ...a, date: shifted };
+      }),
+    };
+  }
+  return to === 'cancelled' ? { ...next, pausedAt: null } : next;
+};
+
+// An active plan whose horizon has passed, due to be moved to expired.
+export const isPlanExpired = (plan: GeneratedPlan, now: Date = new Date()) =>
+  plan.status === 'active' && getPlanHorizonEnd(plan) < now;
+
+// The expired transition for a plan whose horizon has passed; null when it is not due.
+export const expireIfDue = (plan: GeneratedPlan, now: Date = new Date()): GeneratedPlan | null =>
+  isPlanExpired(plan, now) ? transitionPlan(plan, 'expired', { reason: 'Plan horizon ended', by: null, now }) : null;
+
+export const isNearingRenewal = (plan: GeneratedPlan, now: Date = new Date()) =>
+  (plan.status === 'active' || plan.status === 'expired') &&
+  !plan.renewedToPlanId &&
+  daysBetween(now, getPlanHorizonEnd(plan)) <= RENEWAL_WINDOW_DAYS;
+
+/**
+ * Wizard details for the next plan period: every service keeps its cadence and continues
+ * one interval after its last visit in this plan.
+ */
+export const buildRenewalDetails = (plan: GeneratedPlan): PlanDetails => {
+  const details: PlanDetails = {};
+  const serviceIds = Array.from(new Set(plan.appointments.flatMap(a => a.services.map(s => s.id))));
+  serviceIds.forEach(id => {
+    const step = inferServiceStep(plan, id);
+    const lastVisit = [...plan.appointments].reverse().find(a => a.services.some(s => s.id === id));
+    if (!step || !lastVisit) return;
+    details[id] = {
+      frequency: step.interval,
+      unit: step.unit,
+      firstDate: advanceByInterval(lastVisit.date, step),
+      stylistId: plan.details?.[id]?.stylistId,
+    };
+  });
+  return details;
+};
@@ -0,0 +1,220 @@
+import { describe, expect, it } from 'vitest';
+import type { Client, PlanDetails, Service } from '../types';
+import { generatePlan, localDateKey, proposeBudgetFrequencies } from './planScheduler';
+
+const NOW = new Date(2025, 0, 6); // Monday
+
+const cut: Service = { id: 'cut', name: 'Cut', category: 'Styling', cost: 80, duration: 60 };
+const color: Service = { id: 'color', name: 'Color', category: 'Color', cost: 150, duration: 120 };
+
+const client: Client = { id: 'c1', name: 'Client', avatarUrl: '', historicalData: [] };
+const stylist = { id: 's1', name: 'Stylist' };
+
+const weekly = (firstDate: Date, frequency: number): PlanDetails[string] => ({ firstDate, frequency, unit: 'weeks' });
+
+const plan = (details: PlanDetails, services: Service[], options = {}) =>
+  generatePlan({ details, services, client, stylist }, { now: NOW, ...options });
+
+const dates = (details: PlanDetails, services: Service[], options = {}) =>
+  plan(details, services, options).appointments.map(a => localDateKey(a.date));
+
+describe('generatePlan horizon', () => {
+  it('schedules occurrences up to the end of the horizon', () => {
+    const details = { cut: weekly(NOW, 4) };
+    expect(dates(details, [cut], { horizonMonths: 3 })).toEqual([
+      '2025-01-06', '2025-02-03', '2025-03-03', '2025-03-31',
+    ]);
+  });
+
+  it('leaves out a visit one day past the end', () => {
+    const details = { cut: weekly(NOW, 13) }; // 2025-04-07, the horizon ends 2025-04-06
+    expect(dates(details, [cut], { horizonMonths: 3 })).toEqual(['2025-01-06']);
+    expect(plan(details, [cut], { horizonMonths: 3 }).horizonMonths).toBe(3);
+  });
+
+  it('grows with longer horizons', () => {
+    const details = { cut: weekly(NOW, 4) };
+    const counts = [3, 6, 12, 24].map(h => plan(details, [cut], { horizonMonths: h }).totalYearlyAppointments);
+    expect(counts).toEqual([4, 7, 14, 27]);
+  });
+});
+
+describe('generatePlan start-date policy', () => {
+  const past = new Date(2024, 11, 9); // four weeks before NOW
+
+  it('keeps past first dates as selected', () => {
+    expect(dates({ cut: weekly(past, 2) }, [cut], { horizonMonths: 3 }).slice(0, 3)).toEqual([
+      '2024-12-09', '2024-12-23', '2025-01-06',
+    ]);
+  });
+
+  it('rolls forward past occurrences on the service cadence', () => {
+    expect(dates({ cut: weekly(past, 3) }, [cut], { horizonMonths: 3, startDatePolicy: 'roll-forward' }).slice(0, 2)).toEqual([
+      '2025-01-20', '2025-02-10',
+    ]);
+  });
+});
+
+describe('generatePlan merge policy', () => {
+  const details = { cut: weekly(NOW, 4), color: weekly(NOW, 6) };
+
+  it('combines services due the same day by default', () => {
+    const first = plan(details, [cut, color], { horizonMonths: 3 }).appointments[0];
+    expect(first.services.map(s => s.id)).toEqual(['cut', 'color']);
+  });
+
+  it('keeps one visit per occurrence with none', () => {
+    const appointments = plan(details, [cut, color], { horizonMonths: 3, mergePolicy: 'none' }).appointments;
+    expect(appointments.slice(0, 2).map(a => localDateKey(a.date))).toEqual(['2025-01-06', '2025-01-06']);
+    expect(appointments.every(a => a.services.length === 1)).toBe(true);
+  });
+});
+
+describe('generatePlan clustering', () => {
+  const details = { cut: weekly(NOW, 4), color: weekly(new Date(2025, 0, 9), 8) };
+  const clustered = { horizonMonths: 3, mergePolicy: 'cluster', clusterWindowDays: 7, maxChairMinutes: 240 } as const;
+
+  it('pulls a service due within the window into the earlier visit', () => {
+    const first = plan(details, [cut, color], clustered).appointments[0];
+    expect(localDateKey(first.date)).toBe('2025-01-06');
+    expect(first.services.map(s => s.id)).toEqual(['cut', 'color']);
+    expect(first.clustered).toBe(true);
+  });
+
+  it('counts trips saved against same-day merging', () => {
+    expect(plan(details, [cut, color], clustered).tripsSaved).toBe(2);
+    expect(plan(details, [cut, color], { horizonMonths: 3 }).tripsSaved).toBe(0);
+  });
+
+  it('keeps services apart outside the window or over the chair time', () => {
+    expect(plan(details, [cut, color], { ...clustered, clusterWindowDays: 2 }).appointments[0].services).toHaveLength(1);
+    expect(plan(details, [cut, color], { ...clustered, maxChairMinutes: 150 }).appointments[0].services).toHaveLength(1);
+  });
+});
+
+describe('generatePlan closures', () => {
+  const closures = { closedWeekdays: [1], holidays: [{ date: '02-04' }], closures: [{ date: '2025-03-04' }] };
+
+  it('moves visits to the nearest open day, the later one on ties, recording where they came from', () => {
+    const appointments = plan({ cut: weekly(NOW, 4) }, [cut], { horizonMonths: 3, closures }).appointments;
+    expect(appointments.map(a => localDateKey(a.date))).toEqual(['2025-01-07', '2025-02-02', '2025-03-02', '2025-04-01']);
+    expect(appointments[0].shiftedFrom).toBe('2025-01-06');
+  });
+
+  it('leaves visits on open days alone', () => {
+    const tuesday = new Date(2025, 0, 7);
+    const appointments = plan({ cut: weekly(tuesday, 6) }, [cut], { horizonMonths: 3, closures }).appointments;
+    expect(appointments.map(a => localDateKey(a.date))).toEqual(['2025-01-07', '2025-02-18', '2025-04-01']);
+    expect(appointments.every(a => !a.shiftedFrom)).toBe(true);
+  });
+});
+
+describe('generatePlan phased frequencies', () => {
+  it('uses each phase for its visit count, then repeats the last one', () => {
+    const details: PlanDetails = {
+      color: {
+        firstDate: NOW,
+        frequency: null,
+        phases: [
+          { interval: 2, unit: 'weeks', visits: 2 },
+          { interval: 8, unit: 'weeks', visits: null },
+        ],
+      },
+    };
+    expect(dates(details, [color], { horizonMonths: 6 })).toEqual([
+      '2025-01-06', '2025-01-20', '2025-02-03', '2025-03-31', '2025-05-26',
+    ]);
+  });
+
+  it('steps day and month intervals on the calendar', () => {
+    expect(dates({ cut: { firstDate: NOW, frequency: 10, unit: 'days' } }, [cut], { horizonMonths: 3 }).slice(0, 3)).toEqual([
+      '2025-01-06', '2025-01-16', '2025-01-26',
+    ]);
+    expect(dates({ cut: { firstDate: new Date(2025, 0, 15), frequency: 1, unit: 'months' } }, [cut], { horizonMonths: 3 })).toEqual([
+      '2025-01-15', '2025-02-15', '2025-03-15',
+    ]);
+  });
+});
+
+describe('generatePlan ready-by events', () => {
+  const event = new Date(2025, 1, 5);
+
+  it('schedules prep visits backward from the lead date, never before today', () => {
+    const appointments = plan({ color: { firstDate: null, frequency: 2, unit: 'weeks', eventDate: event } }, [color], { horizonMonths: 3 }).appointments;
+    expect(appointments.map(a => localDateKey(a.date))).toEqual(['2025-01-15', '2025-01-29', '2025-02-19', '2025-03-05', '2025-03-19', '2025-04-02']);
+    expect(appointments.slice(0, 2).every(a => a.readyBy === '2025-02-05')).toBe(true);
+    expect(appointments[2].readyBy).toBeUndefined();
+  });
+
+  it('resumes maintenance after the event when the lead time is longer than the interval', () => {
+    const details: PlanDetails = {
+      color: {
+        firstDate: null,
+        frequency: null,
+        phases: [
+          { interval: 1, unit: 'weeks', visits: 2 },
+          { interval: 6, unit: 'weeks', visits: null },
+        ],
+        eventDate: event,
+        leadDays: 21,
+      },
+    };
+    expect(dates(details, [color], { horizonMonths: 3 })).toEqual(['2025-01-08', '2025-01-15', '2025-02-12', '2025-03-26']);
+  });
+
+  it('stops at the prep visit count for events far ahead', () => {
+    const far = new Date(2025, 6, 2);
+    const single = plan({ color: { firstDate: null, frequency: 1, unit: 'weeks', eventDate: far } }, [color], { horizonMonths: 12 }).appointments;
+    expect(single.filter(a => a.readyBy).map(a => localDateKey(a.date))).toEqual(['2025-06-11', '2025-06-18', '2025-06-25']);
+
+    const phased: PlanDetails = {
+      color: {
+        firstDate: null,
+        frequency: null,
+        phases: [
+          { interval: 1, unit: 'weeks', visits: 2 },
+          { interval: 6, unit: 'weeks', visits: null },
+        ],
+        eventDate: far,
+      },
+    };
+    expect(dates(phased, [color], { horizonMonths: 12 }).slice(0, 4)).toEqual(['2025-06-18', '2025-06-25', '2025-07-09', '2025-08-20']);
+  });
+
+  it('keeps scheduling maintenance after an event that has passed', () => {
+    const past = new Date(2024, 11, 18);
+    const details: PlanDetails = { color: { firstDate: null, frequency: 4, unit: 'weeks', eventDate: past } };
+    expect(dates(details, [color], { horizonMonths: 3, startDatePolicy: 'roll-forward' })).toEqual([
+      '2025-01-15', '2025-02-12', '2025-03-12',
+    ]);
+    expect(plan(details, [color], { horizonMonths: 3 }).appointments.every(a => !a.readyBy)).toBe(true);
+  });
+});
+
+describe('proposeBudgetFrequencies', () => {
+  const details = { cut: weekly(NOW, 4), color: weekly(NOW, 6) };
+  const evaluate = (d: PlanDetails) => plan(d, [cut, color]);
+
+  it('leaves a plan that already fits alone', () => {
+    const proposal = proposeBudgetFrequencies(details, [cut, color], 1000, evaluate);
+    expect(proposal.withinBudget).toBe(true);
+    expect(proposal.changes).toEqual([]);
+  });
+
+  it('stretches intervals until the plan fits the budget', () => {
+    const before = evaluate(details).averageMonthlySpend;
+    const proposal = proposeBudgetFrequencies(details, [cut, color], 150, evaluate);
+    expect(before).toBeGreaterThan(150);
+    expect(proposal.withinBudget).toBe(true);
+    expect(proposal.averageMonthlySpend).toBeLessThanOrEqual(150);
+    expect(proposal.changes.length).toBeGreaterThan(0);
+    proposal.changes.forEach(c => expect(c.to.interval).toBeGreaterThan(c.from.interval));
+  });
+
+  it('stops at three times the requested interval when the budget cannot be met', () => {
+    const proposal = proposeBudgetFrequencies(details, [cut, color], 10, evaluate);
+    expect(proposal.withinBudget).toBe(false);
+    expect(proposal.details.cut.frequency).toBe(12);
+    expect(proposal.details.color.frequency).toBe(18);
+  });
+});
@@ -0,0 +1,519 @@
+import type {
+  Client,
+  ClosureCalendar,
+  FrequencyPhase,
+  GeneratedPlan,
+  IntervalUnit,
+  PlanAppointment,
+  PlanDetails,
+  PlanService,
+  Service,
+  Stylist,
+} from '../types';
+
+export type PlanHorizonMonths = 3 | 6 | 12 | 24;
+
+export const PLAN_HORIZON_OPTIONS: PlanHorizonMonths[] = [3, 6, 12, 24];
+
+// 'as-selected' keeps each first date exactly as picked in the wizard (past dates included).
+// 'roll-forward' drops occurrences before today, keeping the service's frequency (and phase) cadence.
+export type StartDatePolicy = 'as-selected' | 'roll-forward';
+
+// 'same-day' combines services that fall on the same calendar date into one visit.
+// 'cluster' also pulls services due within `clusterWindowDays` into the earliest visit,
+// as long as the visit stays under `maxChairMinutes`.
+// 'none' keeps one visit per service occurrence.
+export type MergePolicy = 'none' | 'same-day' | 'cluster';
+
+export interface PlanSchedulingOptions {
+  horizonMonths: PlanHorizonMonths;
+  startDatePolicy: StartDatePolicy;
+  mergePolicy: MergePolicy;
+  clusterWindowDays: number;
+  maxChairMinutes: number;
+  // Visits landing on a closed day are moved to the nearest open day.
+  closures?: ClosureCalendar;
+  // Client's preferred weekdays; visits snap to the nearest open preferred day.
+  preferredWeekdays?: number[];
+  // Reference "today". Pass a fixed value to get reproducible plans.
+  now?: Date;
+}
+
+export const DEFAULT_SCHEDULING_OPTIONS: PlanSchedulingOptions = {
+  horizonMonths: 12,
+  startDatePolicy: 'as-selected',
+  mergePolicy: 'same-day',
+  clusterWindowDays: 7,
+  maxChairMinutes: 240,
+};
+
+export interface PlanSchedulingInput {
+  details: PlanDetails;
+  services: Service[];
+  client: Client;
+  stylist: Pick<Stylist, 'id' | 'name'> & Partial<Pick<Stylist, 'levelId'>>;
+  // Team members services can be assigned to (`PlanDetails[id].stylistId`); priced at their level.
+  team?: Pick<Stylist, 'id' | 'name' | 'levelId'>[];
+}
+
+export interface PlanTotals {
+  totalYearlyAppointments: number;
+  averageAppointmentCost: number;
+  averageMonthlySpend: number;
+  totalCost: number;
+}
+
+/**
+ * Price of a service for a stylist level. Falls back to the base `cost` when the
+ * service has no tier price for that level (or no level is known).
+ */
+export const resolveServicePrice = (service: Service, levelId?: string | null) => {
+  const tierPrice = levelId ? service.tierPrices?.[levelId] : undefined;
+  return typeof tierPrice === 'number' ? tierPrice : service.cost;
+};
+
+export const addDays = (date: Date, days: number) => {
+  const next = new Date(date.getTime());
+  next.setDate(next.getDate() + days);
+  return next;
+};
+
+export const getPlanEndDate = (start: Date, horizonMonths: number) => {
+  const end = new Date(start.getTime());
+  end.setMonth(end.getMonth() + horizonMonths);
+  return end;
+};
+
+// Last day of a saved plan's horizon. Plans saved before renewals start on their creation date.
+export const getPlanHorizonEnd = (plan: Pick<GeneratedPlan, 'createdAt' | 'startDate' | 'horizonMonths'>) =>
+  getPlanEndDate(new Date(plan.startDate || plan.createdAt), plan.horizonMonths || 12);
+
+const startOfDay = (date: Date) => {
+  const d = new Date(date.getTime());
+  d.setHours(0, 0, 0, 0);
+  return d;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const daysBetween = (from: Date, to: Date) =>
+  Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / DAY_MS);
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// 'YYYY-MM-DD' key of a roadmap date. Roadmap dates are calendar days held at local midnight
+// (see salonDates.ts), so this is the same for every viewer.
+export const localDateKey = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const parseLocalDateKey = (key: string) => {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, m - 1, d);
+};
+
+export const isClosedDay = (date: Date, calendar: ClosureCalendar) => {
+  if (calendar.closedWeekdays.includes(date.getDay())) return true;
+  const key = localDateKey(date);
+  if (calendar.holidays.some(h => h.date === key.slice(5))) return true;
+  return calendar.closures.some(c => c.date === key);
+};
+
+// How far either side of a visit date we look for an acceptable day before giving up.
+const MAX_SHIFT_DAYS = 14;
+
+/**
+ * Nearest day to `date` (inclusive) accepted by `isAllowed`. Ties go to the later day
+ * so maintenance intervals never shrink. Returns null if nothing fits within two weeks.
+ */
+const findNearestDay = (date: Date, isAllowed: (d: Date) => boolean): Date | null => {
+  if (isAllowed(date)) return date;
+  for (let offset = 1; offset <= MAX_SHIFT_DAYS; offset++) {
+    const later = addDays(date, offset);
+    if (isAllowed(later)) return later;
+    const earlier = addDays(date, -offset);
+    if (isAllowed(earlier)) return earlier;
+  }
+  return null;
+};
+
+export const findNearestOpenDay = (date: Date, calendar: ClosureCalendar) =>
+  findNearestDay(date, d => !isClosedDay(d, calendar)) || date;
+
+const visitMinutes = (appointment: PlanAppointment) =>
+  appointment.services.reduce((sum, s) => sum + (s.duration || 0), 0);
+
+export type ServiceSchedule = PlanDetails[string];
+
+export interface ScheduleStep {
+  interval: number;
+  unit: IntervalUnit;
+}
+
+export const hasFrequency = (detail?: ServiceSchedule | null) => {
+  if (!detail) return false;
+  if (detail.phases?.length) return detail.phases.every(p => p.interval > 0);
+  return !!detail.frequency && detail.frequency > 0;
+};
+
+/**
+ * Gap that follows the `visitIndex`-th visit (0-based) of a service. Phased schedules
+ * use each phase for its `visits` count and repeat the last phase (or the first
+ * open-ended one) until the plan ends.
+ */
+export const getIntervalAfterVisit = (detail: ServiceSchedule, visitIndex: number): ScheduleStep | null => {
+  if (detail.phases?.length) {
+    let covered = 0;
+    for (let i = 0; i < detail.phases.length; i++) {
+      const phase: FrequencyPhase = detail.phases[i];
+      const isLast = i === detail.phases.length - 1;
+      if (isLast || phase.visits == null || visitIndex < covered + phase.visits) {
+        return { interval: phase.interval, unit: phase.unit };
+      }
+      covered += phase.visits;
+    }
+  }
+  if (!detail.frequency) return null;
+  return { interval: detail.frequency, unit: detail.unit || 'weeks' };
+};
+
+export const advanceByInterval = (date: Date, step: ScheduleStep) => {
+  if (step.unit === 'months') {
+    const next = new Date(date.getTime());
+    next.setMonth(next.getMonth() + step.interval);
+    return next;
+  }
+  return addDays(date, step.unit === 'weeks' ? step.interval * 7 : step.interval);
+};
+
+// Ideal days between a service's last prep visit and the event, by service category.
+export const EVENT_LEAD_DAYS: Record<string, number> = { Color: 7, Treatment: 3, Styling: 2 };
+
+export const DEFAULT_EVENT_LEAD_DAYS = 5;
+
+export const getEventLeadDays = (service: Service, detail?: ServiceSchedule | null) =>
+  detail?.leadDays ?? EVENT_LEAD_DAYS[service.category] ?? DEFAULT_EVENT_LEAD_DAYS;
+
+// Prep visits before an event when the schedule doesn't say; a phased one uses its opening phase's count.
+export const DEFAULT_EVENT_PREP_VISITS = 3;
+
+export const getEventPrepVisits = (detail: ServiceSchedule) =>
+  detail.phases?.[0]?.visits ?? DEFAULT_EVENT_PREP_VISITS;
+
+/**
+ * Expands each service in `details` into one appointment per occurrence between
+ * its first date and the end of the plan horizon.
+ *
+ * Services with an `eventDate` are scheduled backward instead: the last prep visit lands
+ * `leadDays` before the event, earlier prep visits step back from it at the opening
+ * cadence (never before today, and no more than `getEventPrepVisits`) and regular
+ * maintenance continues one interval after the event. Once the event has passed only the
+ * maintenance is scheduled.
+ */
+export const buildServiceOccurrences = (
+  details: PlanDetails,
+  services: Service[],
+  options: PlanSchedulingOptions
+): PlanAppointment[] => {
+  const now = options.now || new Date();
+  const planEndDate = getPlanEndDate(now, options.horizonMonths);
+  const appointments: PlanAppointment[] = [];
+
+  const today = startOfDay(now);
+
+  services.forEach(service => {
+    const detail = details[service.id];
+    if (!detail || !hasFrequency(detail)) return;
+    let currentDate: Date;
+    let visitIndex = 0;
+
+    if (detail.eventDate) {
+      const event = startOfDay(detail.eventDate);
+      const maxPrep = getEventPrepVisits(detail);
+      let prepCount = maxPrep;
+      if (event >= today) {
+        const readyBy = localDateKey(event);
+        const prepStep = getIntervalAfterVisit(detail, 0)!;
+        const anchor = addDays(event, -getEventLeadDays(service, detail));
+        const lastPrep = anchor < today ? today : anchor;
+        prepCount = 0;
+        for (let d = lastPrep; d >= today && prepCount < maxPrep; d = advanceByInterval(d, { ...prepStep, interval: -prepStep.interval })) {
+          if (d <= planEndDate) appointments.push({ date: d, services: [{ ...service }], readyBy });
+          prepCount++;
+        }
+      }
+      // Maintenance picks up one interval after the event, in the phase that follows the prep visits.
+      currentDate = advanceByInterval(event, getIntervalAfterVisit(detail, prepCount - 1)!);
+      visitIndex = prepCount;
+    } else {
+      if (!detail.firstDate) return;
+      currentDate = new Date(detail.firstDate.getTime());
+    }
+
+    while (currentDate <= planEndDate) {
+      if (options.startDatePolicy !== 'roll-forward' || currentDate >= today) {
+        appointments.push({ date: new Date(currentDate.getTime()), services: [{ ...service }] });
+      }
+      const step = getIntervalAfterVisit(detail, visitIndex);
+      if (!step) break;
+      currentDate = advanceByInterval(currentDate, step);
+      visitIndex++;
+    }
+  });
+
+  return appointments.sort((a, b) => a.date.getTime() - b.date.getTime());
+};
+
+/**
+ * Greedy visit clustering: each occurrence joins the earliest open visit that started
+ * no more than `windowDays` before it, does not already include that service and still
+ * has chair time left. Otherwise it opens a new visit on its own date.
+ */
+export const clusterAppointments = (
+  appointments: PlanAppointment[],
+  windowDays: number,
+  maxChairMinutes: number
+): PlanAppointment[] => {
+  const sorted = [...appointments].sort((a, b) => a.date.getTime() - b.date.getTime());
+  const visits: PlanAppointment[] = [];
+
+  sorted.forEach(occurrence => {
+    const occurrenceMinutes = visitMinutes(occurrence);
+    const target = visits.find(v => {
+      const gap = daysBetween(v.date, occurrence.date);
+      if (gap < 0 || gap > windowDays) return false;
+      if (v.services.some(s => occurrence.services.some(o => o.id === s.id))) return false;
+      return visitMinutes(v) + occurrenceMinutes <= maxChairMinutes;
+    });
+
+    if (target) {
+      if (daysBetween(target.date, occurrence.date) > 0) target.clustered = true;
+      target.readyBy = target.readyBy || occurrence.readyBy;
+      target.services.push(...occurrence.services);
+    } else {
+      visits.push({ ...occurrence, services: [...occurrence.services] });
+    }
+  });
+
+  return visits;
+};
+
+const mergeSameDay = (appointments: PlanAppointment[]): PlanAppointment[] => {
+  const merged: { [key: string]: PlanAppointment } = {};
+  appointments.forEach(a => {
+    const k = localDateKey(a.date);
+    const existing = merged[k];
+    if (existing) {
+      existing.services.push(...a.services);
+      existing.clustered = existing.clustered || a.clustered;
+      existing.shiftedFrom = existing.shiftedFrom || a.shiftedFrom;
+      existing.readyBy = existing.readyBy || a.readyBy;
+    } else {
+      merged[k] = { ...a, services: [...a.services] };
+    }
+  });
+  return Object.values(merged).sort((a, b) => a.date.getTime() - b.date.getTime());
+};
+
+export const mergeAppointments = (
+  appointments: PlanAppointment[],
+  policy: MergePolicy,
+  options: Pick<PlanSchedulingOptions, 'clusterWindowDays' | 'maxChairMinutes'> = DEFAULT_SCHEDULING_OPTIONS
+): PlanAppointment[] => {
+  if (policy === 'none') {
+    return [...appointments].sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+  if (policy === 'cluster') {
+    return clusterAppointments(appointments, options.clusterWindowDays, options.maxChairMinutes);
+  }
+  return mergeSameDay(appointments);
+};
+
+/**
+ * Moves visits off closed days (recording where they came from) and onto the client's
+ * preferred weekdays. A closed day always wins over a preference: if no preferred day is
+ * open nearby, the visit goes to the nearest open day instead. Visits that end up sharing
+ * a day are combined again unless the merge policy keeps them apart. Event prep visits
+ * are never moved past their event.
+ */
+export const placeVisits = (
+  appointments: PlanAppointment[],
+  placement: Pick<PlanSchedulingOptions, 'closures' | 'preferredWeekdays'>,
+  policy: MergePolicy
+): PlanAppointment[] => {
+  const { closures, preferredWeekdays } = placement;
+  const isOpen = (d: Date) => !closures || !isClosedDay(d, closures);
+  const isPreferred = (d: Date) => !preferredWeekdays?.length || preferredWeekdays.includes(d.getDay());
+
+  const placed = appointments.map(a => {
+    const beforeEvent = (d: Date) => !a.readyBy || localDateKey(d) <= a.readyBy;
+    const target = findNearestDay(a.date, d => isOpen(d) && isPreferred(d) && beforeEvent(d))
+      || findNearestDay(a.date, d => isOpen(d) && beforeEvent(d))
+      || a.date;
+    if (target === a.date) return a;
+    return isOpen(a.date) ? { ...a, date: target } : { ...a, date: target, shiftedFrom: localDateKey(a.date) };
+  });
+  return policy === 'none'
+    ? placed.sort((a, b) => a.date.getTime() - b.date.getTime())
+    : mergeSameDay(placed);
+};
+
+export const summarizeAppointments = (appointments: PlanAppointment[], horizonMonths: number): PlanTotals => {
+  const totalCost = appointments.reduce((sum, a) => sum + a.services.reduce((s, svc) => s + svc.cost, 0), 0);
+  return {
+    totalYearlyAppointments: appointments.length,
+    averageAppointmentCost: appointments.length ? totalCost / appointments.length : 0,
+    averageMonthlySpend: horizonMonths ? totalCost / horizonMonths : 0,
+    totalCost,
+  };
+};
+
+/**
+ * Builds a draft roadmap from the wizard's plan details. Pure: no persistence and
+ * no React state, so the dashboard, the plan editor and the API produce the same plan.
+ */
+export const generatePlan = (
+  input: PlanSchedulingInput,
+  options: Partial<PlanSchedulingOptions> = {}
+): GeneratedPlan => {
+  const { details, services, client, stylist, team = [] } = input;
+  const resolved: PlanSchedulingOptions = {
+    ...DEFAULT_SCHEDULING_OPTIONS,
+    preferredWeekdays: client.preferredWeekdays,
+    ...options,
+  };
+  const now = resolved.now || new Date();
+
+  const scheduled = services
+    .filter(s => (details[s.id]?.firstDate || details[s.id]?.eventDate) && hasFrequency(details[s.id]))
+    .map((s): PlanService => {
+      const assigneeId = details[s.id]?.stylistId;
+      const assignee = assigneeId && assigneeId !== stylist.id.toString() ? team.find(m => m.id === assigneeId) : undefined;
+      return assignee
+        ? { ...s, cost: resolveServicePrice(s, assignee.levelId), stylistId: assignee.id, stylistName: assignee.name }
+        : { ...s, cost: resolveServicePrice(s, stylist.levelId) };
+    });
+  const occurrences = buildServiceOccurrences(details, scheduled, { ...resolved, now });
+  const merged = mergeAppointments(occurrences, resolved.mergePolicy, resolved);
+  const appointments = resolved.closures || resolved.preferredWeekdays?.length
+    ? placeVisits(merged, resolved, resolved.mergePolicy)
+    : merged;
+  const eventDates = Object.values(details).flatMap(d => (d.eventDate ? [localDateKey(d.eventDate)] : [])).sort();
+  // Trips saved are measured against plain same-day merging, which is what the client would book anyway.
+  const tripsSaved = resolved.mergePolicy === 'cluster'
+    ? Math.max(0, mergeAppointments(occurrences, 'same-day').length - merged.length)
+    : 0;
+
+  return {
+    id: `plan_${now.getTime()}`,
+    status: 'draft',
+    membershipStatus: 'none',
+    createdAt: now.toISOString(),
+    stylistId: stylist.id.toString(),
+    stylistName: stylist.name || 'Stylist',
+    stylistLevelId: stylist.levelId,
+    client,
+    appointments,
+    horizonMonths: resolved.horizonMonths,
+    tripsSaved,
+    eventDate: eventDates[0],
+    details,
+    ...summarizeAppointments(appointments, resolved.horizonMonths),
+  };
+};
+
+export interface FrequencyChange {
+  serviceId: string;
+  serviceName: string;
+  from: ScheduleStep;
+  to: ScheduleStep;
+}
+
+export interface BudgetProposal {
+  details: PlanDetails;
+  averageMonthlySpend: number;
+  withinBudget: boolean;
+  changes: FrequencyChange[];
+}
+
+// The optimizer never stretches a service beyond this multiple of its requested interval.
+const MAX_BUDGET_STRETCH = 3;
+
+// The cadence a service settles into: its single frequency, or the repeating last phase.
+export const getMaintenanceStep = (detail: ServiceSchedule): ScheduleStep | null => {
+  if (detail.phases?.length) {
+    const last = detail.phases[detail.phases.length - 1];
+    return { interval: last.interval, unit: last.unit };
+  }
+  return detail.frequency ? { interval: detail.frequency, unit: detail.unit || 'weeks' } : null;
+};
+
+// Multiplies every interval of a service (phases included) by `factor`, never below 1.
+export const scaleSchedule = (detail: ServiceSchedule, factor: number): ServiceSchedule => {
+  const scale = (interval: number) => Math.max(1, Math.round(interval * factor));
+  return detail.phases?.length
+    ? { ...detail, phases: detail.phases.map(p => ({ ...p, interval: scale(p.interval) })) }
+    : { ...detail, frequency: detail.frequency ? scale(detail.frequency) : detail.frequency };
+};
+
+// Sets the repeating cadence: the single frequency, or the last phase of a phased schedule.
+export const setMaintenanceInterval = (detail: ServiceSchedule, interval: number): ServiceSchedule => {
+  const value = Math.max(1, interval);
+  if (!detail.phases?.length) return { ...detail, frequency: value };
+  const phases = [...detail.phases];
+  phases[phases.length - 1] = { ...phases[phases.length - 1], interval: value };
+  return { ...detail, phases };
+};
+
+const stretchSchedule = (detail: ServiceSchedule): ServiceSchedule =>
+  detail.phases?.length
+    ? { ...detail, phases: detail.phases.map(p => ({ ...p, interval: p.interval + 1 })) }
+    : { ...detail, frequency: (detail.frequency || 0) + 1 };
+
+/**
+ * Proposes longer intervals so the plan's average monthly spend lands at or under
+ * `monthlyBudget`. Greedy: one unit at a time, the least-stretched service (relative to
+ * what the stylist asked for) is lengthened, the costlier one first on ties, until the plan
+ * fits or every service hits MAX_BUDGET_STRETCH.
+ * `evaluate` must build the plan exactly as the wizard would (pricing, merging, closures).
+ */
+export const proposeBudgetFrequencies = (
+  details: PlanDetails,
+  services: Service[],
+  monthlyBudget: number,
+  evaluate: (details: PlanDetails) => GeneratedPlan
+): BudgetProposal => {
+  const scheduled = services.filter(s => hasFrequency(details[s.id]));
+  const limits: { [serviceId: string]: number } = {};
+  scheduled.forEach(s => {
+    limits[s.id] = (getMaintenanceStep(details[s.id])?.interval || 0) * MAX_BUDGET_STRETCH;
+  });
+
+  let proposed: PlanDetails = { ...details };
+  let plan = evaluate(proposed);
+  while (plan.averageMonthlySpend > monthlyBudget) {
+    const spendByService = (id: string) => plan.appointments.reduce(
+      (sum, a) => sum + a.services.filter(s => s.id === id).reduce((t, s) => t + s.cost, 0), 0);
+    const stretch = (id: string) =>
+      (getMaintenanceStep(proposed[id])?.interval || 0) / (getMaintenanceStep(details[id])?.interval || 1);
+    const candidates = scheduled
+      .filter(s => (getMaintenanceStep(proposed[s.id])?.interval || 0) < limits[s.id] && spendByService(s.id) > 0)
+      .sort((a, b) => stretch(a.id) - stretch(b.id) || spendByService(b.id) - spendByService(a.id));
+    if (!candidates.length) break;
+    const target = candidates[0];
+    proposed = { ...proposed, [target.id]: stretchSchedule(proposed[target.id]) };
+    plan = evaluate(proposed);
+  }
+
+  const changes = scheduled.flatMap(s => {
+    const from = getMaintenanceStep(details[s.id]);
+    const to = getMaintenanceStep(proposed[s.id]);
+    return from && to && from.interval !== to.interval ? [{ serviceId: s.id, serviceName: s.name, from, to }] : [];
+  });
+
+  return {
+    details: proposed,
+    averageMonthlySpend: plan.averageMonthlySpend,
+    withinBudget: plan.averageMonthlySpend <= monthlyBudget,
+    changes,
+  };
+};
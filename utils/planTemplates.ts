@@ -0,0 +1,45 @@
+import type { PlanDetails, PlanTemplate, PlanTemplateService, Service } from '../types';
+import { addDays, daysBetween, hasFrequency } from './planScheduler';
+
+/**
+ * Captures the wizard's choices as a template. First dates become offsets from `now`,
+ * so the template can be replayed for any client on any day.
+ */
+export const templateServicesFromDetails = (
+  serviceIds: string[],
+  details: PlanDetails,
+  now: Date = new Date()
+): PlanTemplateService[] =>
+  serviceIds
+    .filter(id => hasFrequency(details[id]))
+    .map(id => {
+      const detail = details[id];
+      return {
+        serviceId: id,
+        startOffsetDays: detail.firstDate ? Math.max(0, daysBetween(now, detail.firstDate)) : 0,
+        frequency: detail.frequency,
+        unit: detail.unit,
+        phases: detail.phases,
+      };
+    });
+
+/**
+ * Turns a template back into wizard state. Services no longer on the menu are dropped.
+ */
+export const applyTemplate = (
+  template: PlanTemplate,
+  availableServices: Service[],
+  now: Date = new Date()
+): { serviceIds: string[]; details: PlanDetails } => {
+  const entries = template.services.filter(t => availableServices.some(s => s.id === t.serviceId));
+  const details: PlanDetails = {};
+  entries.forEach(t => {
+    details[t.serviceId] = {
+      firstDate: addDays(now, t.startOffsetDays),
+      frequency: t.frequency,
+      unit: t.unit,
+      phases: t.phases,
+    };
+  });
+  return { serviceIds: entries.map(t => t.serviceId), details };
+};
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { localDateKey } from './planScheduler';
+import { reviveCalendarDate, salonDateKey, salonStartOfDay } from './salonDates';
+
+describe('reviveCalendarDate', () => {
+  it('takes calendar keys as-is', () => {
+    expect(localDateKey(reviveCalendarDate('2025-03-09', 'Pacific/Auckland')!)).toBe('2025-03-09');
+  });
+
+  it('reads legacy timestamps as the salon day they were built on', () => {
+    // Local midnight of 2025-03-09 in New York and in Auckland, as older blobs stored them.
+    expect(localDateKey(reviveCalendarDate('2025-03-09T05:00:00.000Z', 'America/New_York')!)).toBe('2025-03-09');
+    expect(localDateKey(reviveCalendarDate('2025-03-08T11:00:00.000Z', 'Pacific/Auckland')!)).toBe('2025-03-09');
+  });
+
+  it('returns null for missing or unreadable values', () => {
+    expect(reviveCalendarDate(null, 'UTC')).toBeNull();
+    expect(reviveCalendarDate('not a date', 'UTC')).toBeNull();
+  });
+});
+
+describe('salonStartOfDay', () => {
+  it('finds the salon midnight across a DST change', () => {
+    const start = salonStartOfDay(new Date(2025, 2, 9), 'America/New_York');
+    expect(start.toISOString()).toBe('2025-03-09T05:00:00.000Z');
+    expect(salonDateKey(salonStartOfDay(new Date(2025, 2, 10), 'America/New_York'), 'America/New_York')).toBe('2025-03-10');
+  });
+});
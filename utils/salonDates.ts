@@ -0,0 +1,84 @@
+import type { TimePeriod } from '../types';
+import { localDateKey, parseLocalDateKey } from './planScheduler';
+
+/*
+ * Roadmap dates are salon calendar dates, not instants. In memory they are Dates at local
+ * midnight built from a 'YYYY-MM-DD' key (see `parseLocalDateKey`), so day arithmetic and
+ * display never depend on the viewer's offset; in `plan_data` they are stored as the key.
+ * Real instants (bookings, "now") are mapped onto the calendar in the salon's timezone,
+ * and a calendar date only becomes an instant again when a booking is sent to Square.
+ */
+
+// Marks a `plan_data` blob whose dates are stored as calendar keys.
+export const PLAN_DATE_FORMAT = 'calendar';
+
+export const getBrowserTimezone = () => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const isDateKey = (value: unknown): value is string =>
+  typeof value === 'string' && DATE_KEY_PATTERN.test(value);
+
+const zonedParts = (instant: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(instant);
+  const get = (type: string) => Number(parts.find(p => p.type === type)?.value || 0);
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute'), second: get('second') };
+};
+
+// The salon calendar day an instant falls on.
+export const salonDateKey = (instant: Date, timeZone: string) => {
+  const { year, month, day } = zonedParts(instant, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+// Hour of day (0-23) at the salon.
+export const salonHour = (instant: Date, timeZone: string) => zonedParts(instant, timeZone).hour;
+
+// Whether a Square slot (ISO start) falls in a client's preferred time of day at the salon.
+export const isSlotInPeriod = (slot: string, period: TimePeriod, timeZone: string) => {
+  const hour = salonHour(new Date(slot), timeZone);
+  if (period === 'morning') return hour < 12;
+  if (period === 'afternoon') return hour >= 12 && hour < 17;
+  if (period === 'evening') return hour >= 17;
+  return true;
+};
+
+export const toSalonDate = (instant: Date, timeZone: string) => parseLocalDateKey(salonDateKey(instant, timeZone));
+
+export const salonToday = (timeZone: string) => toSalonDate(new Date(), timeZone);
+
+/**
+ * The instant a salon calendar day starts, for handing to `formatDate` at booking time.
+ * Corrects once for a DST change between the UTC guess and the real local midnight.
+ */
+export const salonStartOfDay = (date: Date, timeZone: string) => {
+  const [y, m, d] = localDateKey(date).split('-').map(Number);
+  const target = Date.UTC(y, m - 1, d);
+  const offsetAt = (ms: number) => {
+    const p = zonedParts(new Date(ms), timeZone);
+    return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - ms;
+  };
+  const guess = target - offsetAt(target);
+  return new Date(target - offsetAt(guess));
+};
+
+/**
+ * Reads a stored plan date. Calendar keys are taken as-is; older blobs hold the ISO
+ * timestamp of local midnight where the plan was built, which lands on the intended day
+ * in the salon's timezone.
+ */
+export const reviveCalendarDate = (value: unknown, timeZone: string): Date | null => {
+  if (!value) return null;
+  if (isDateKey(value)) return parseLocalDateKey(value);
+  const instant = new Date(value as string);
+  return isNaN(instant.getTime()) ? null : toSalonDate(instant, timeZone);
+};
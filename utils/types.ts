@@ -2,6 +2,7 @@
 
 export interface Service {
   id: string;
+  itemId?: string; // Square catalog item the variation belongs to
   version?: number;
   name: string;
   category: string;
@@ -32,12 +33,47 @@ export interface ServiceLinkingConfig {
     linkedServiceId: string; // e.g. 'Blowdry'
 }
 
+export interface SchedulingConfig {
+    clusteringEnabled: boolean;
+    clusterWindowDays: number; // services due within this many days share one visit
+    maxChairMinutes: number; // upper bound on a clustered visit's total Service.duration
+    horizonMonths: 3 | 6 | 12 | 24; // length of new roadmaps
+    rollForwardPastDates: boolean; // drop visits before today from roadmaps with past first dates
+}
+
+export interface ClosureDate {
+    date: string; // 'MM-DD' for recurring holidays, 'YYYY-MM-DD' for one-off closures
+    name?: string;
+}
+
+export interface ClosureCalendar {
+    closedWeekdays: number[]; // 0 = Sunday ... 6 = Saturday
+    holidays: ClosureDate[];
+    closures: ClosureDate[];
+}
+
+// An active Square location; plans and bookings are tagged with its id.
+export interface SalonLocation {
+    id: string;
+    name: string;
+    timezone: string; // IANA
+    address?: string;
+}
+
 export interface HistoricalData {
     month: string;
     cost: number;
 }
 
-export interface Client {
+export type TimePeriod = 'morning' | 'afternoon' | 'evening' | 'all';
+
+export interface ClientSchedulingPreferences {
+    preferredWeekdays?: number[]; // 0 = Sunday ... 6 = Saturday
+    preferredTimePeriod?: TimePeriod;
+    preferredStylistId?: string;
+}
+
+export interface Client extends ClientSchedulingPreferences {
   id: string;
   externalId?: string; // ID from Square or other POS
   name: string;
@@ -52,28 +88,58 @@ export interface Client {
   source?: string;
 }
 
-export type Step = 'select-client' | 'select-services' | 'set-dates' | 'set-frequency' | 'loading' | 'summary';
+export type Step = 'select-client' | 'select-services' | 'set-dates' | 'set-frequency' | 'compare-scenarios' | 'loading' | 'summary';
 
 // FIX: Add 'client' to UserRole to resolve type errors in PlanSummaryStep and PlanContext.
 export type UserRole = 'admin' | 'stylist' | 'client';
 
-export type PlanStatus = 'draft' | 'active' | 'paused' | 'cancelled'; 
+export type PlanStatus = 'draft' | 'active' | 'paused' | 'cancelled' | 'expired'; 
 
 // FIX: Added 'none' and 'offered' to MembershipStatus to align with its usage in the application.
 export type MembershipStatus = 'active' | 'paused' | 'cancelled' | 'inactive' | 'none' | 'offered';
 
 export type AppTextSize = 'S' | 'M' | 'L';
 
+export type IntervalUnit = 'days' | 'weeks' | 'months';
+
+export interface FrequencyPhase {
+    interval: number;
+    unit: IntervalUnit;
+    visits: number | null; // visits in this phase before the next one starts; null repeats until the plan ends
+}
+
 export interface PlanDetails {
     [serviceId: string]: {
         firstDate: Date | null;
-        frequency: number | null; // in weeks
+        frequency: number | null; // in `unit`s, weeks when unset
+        unit?: IntervalUnit;
+        phases?: FrequencyPhase[]; // when present, replaces `frequency`; the last phase repeats
+        eventDate?: Date | null; // "ready by" date; prep visits are scheduled backward from it
+        leadDays?: number; // days between the last prep visit and the event; category default when unset
+        stylistId?: string; // team member who performs this service; the plan's stylist when unset
     };
 }
 
+// A service as scheduled in a visit, priced for whoever performs it.
+export interface PlanService extends Service {
+    stylistId?: string; // set when someone other than the plan's stylist performs it
+    stylistName?: string;
+}
+
 export interface PlanAppointment {
     date: Date;
-    services: Service[];
+    services: PlanService[];
+    clustered?: boolean; // combines services originally due on different days
+    shiftedFrom?: string; // 'YYYY-MM-DD' the visit was moved from because the salon is closed
+    readyBy?: string; // 'YYYY-MM-DD' event this visit prepares for; never moved past that day
+}
+
+export interface PlanStatusChange {
+    from: PlanStatus;
+    to: PlanStatus;
+    at: string; // ISO
+    reason?: string;
+    by?: string | null; // name of the user who made the change
 }
 
 export interface GeneratedPlan {
@@ -85,14 +151,56 @@ export interface GeneratedPlan {
     createdAt: string;
     stylistId: string;
     stylistName: string;
+    stylistLevelId?: string; // level whose tierPrices priced this plan
     client: Client;
     appointments: PlanAppointment[];
+    horizonMonths?: number; // plan length used for averageMonthlySpend; legacy plans are 12
+    tripsSaved?: number; // visits avoided by clustering compared to same-day merging
+    eventDate?: string; // 'YYYY-MM-DD' target event for "ready by" roadmaps
+    details?: PlanDetails; // wizard input the plan was generated from; edits keep it in sync
+    revision?: number; // bumped on every save; plans without it are revision 1
+    startDate?: string; // ISO start of the horizon; createdAt when unset (renewals start in the future)
+    statusHistory?: PlanStatusChange[];
+    pausedAt?: string | null; // ISO; set while paused, cleared on resume
+    renewedFromPlanId?: string;
+    renewedToPlanId?: string;
+    locationId?: string; // Square location visits are booked at; untagged plans predate multi-location
     totalYearlyAppointments: number;
     averageAppointmentCost: number;
     averageMonthlySpend: number;
     totalCost: number;
 }
 
+export interface PlanRevision {
+    id: string;
+    planId: string;
+    revision: number;
+    plan: GeneratedPlan; // the plan exactly as saved at this revision
+    authorId?: string | null;
+    authorName?: string | null;
+    reason?: string | null;
+    createdAt: string;
+}
+
+export type TemplateScope = 'salon' | 'stylist';
+
+export interface PlanTemplateService {
+    serviceId: string;
+    startOffsetDays: number; // first visit relative to the day the template is applied
+    frequency: number | null;
+    unit?: IntervalUnit;
+    phases?: FrequencyPhase[];
+}
+
+export interface PlanTemplate {
+    id: string;
+    name: string;
+    scope: TemplateScope;
+    stylistId?: string | null; // owner of a stylist-level template
+    services: PlanTemplateService[];
+    createdAt?: string;
+}
+
 export interface StylistLevel {
     id: string;
     name: string;